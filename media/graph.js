@@ -4,6 +4,9 @@ const vscode = acquireVsCodeApi();
 // Graph container element
 const graphContainer = document.getElementById('dependency-graph');
 
+// Affected components list element (only in the dependency graph view)
+const affectedContainer = document.getElementById('affected-components');
+
 // Message event listener
 window.addEventListener('message', event => {
     const message = event.data;
@@ -12,10 +15,67 @@ window.addEventListener('message', event => {
         case 'updateGraph':
             // Render chart with dependency graph data
             renderDependencyGraph(message.data.nodes, message.data.edges);
+            renderAffectedComponents(message.data.affected);
             break;
     }
 });
 
+const NODE_STATE_COLORS = {
+    changed: { background: '#EF9A9A', border: '#C62828' },
+    affected: { background: '#FFE082', border: '#FF8F00' },
+    unaffected: { background: '#F5F5F5', border: '#BDBDBD' }
+};
+
+const AFFECTED_REASON_LABELS = {
+    'changed': 'Changed',
+    'renders-changed': 'Renders a changed component',
+    'in-affected-project': 'In an affected project'
+};
+
+function renderAffectedComponents(affected) {
+    if (!affectedContainer) {
+        return;
+    }
+    
+    affectedContainer.innerHTML = '';
+    if (!affected) {
+        return;
+    }
+    
+    const title = document.createElement('h2');
+    title.className = 'affected-title';
+    title.textContent = `Affected since ${affected.baseRef}: ${affected.projectCount} projects, ${affected.components.length} components`;
+    affectedContainer.appendChild(title);
+    
+    if (affected.components.length === 0) {
+        const placeholder = document.createElement('div');
+        placeholder.className = 'placeholder';
+        placeholder.textContent = 'No analyzed components are affected. Run "ReactBroX: Analyze React Components" to include components.';
+        affectedContainer.appendChild(placeholder);
+        return;
+    }
+    
+    affected.components.forEach(item => {
+        const element = document.createElement('div');
+        element.className = `affected-item affected-${item.reason}`;
+        element.innerHTML = `
+            <strong></strong>
+            <span class="affected-reason"></span>
+            <div class="affected-path"></div>
+        `;
+        element.querySelector('strong').textContent = item.name;
+        element.querySelector('.affected-reason').textContent = AFFECTED_REASON_LABELS[item.reason] || item.reason;
+        element.querySelector('.affected-path').textContent = item.project ? `${item.project} · ${item.filePath}` : item.filePath;
+        element.addEventListener('click', () => {
+            vscode.postMessage({
+                command: 'openFile',
+                filePath: item.path
+            });
+        });
+        affectedContainer.appendChild(element);
+    });
+}
+
 function renderDependencyGraph(nodes, edges) {
     graphContainer.innerHTML = '';
     
@@ -33,14 +93,26 @@ function renderDependencyGraph(nodes, edges) {
         id: node.id,
         label: node.label,
         title: node.title || node.label,
-        group: node.type || 'default'
+        group: node.type || 'default',
+        // Affected-projects view: changed projects red, affected orange, others faded
+        color: node.state ? NODE_STATE_COLORS[node.state] : undefined,
+        font: node.state === 'unaffected' ? { color: '#9E9E9E' } : undefined
     })));
     
     const edgesDataset = new vis.DataSet(edges.map(edge => ({
         from: edge.from,
         to: edge.to,
         arrows: 'to',
+        label: edge.label,
         title: edge.title || `${edge.from} → ${edge.to}`,
+        // Dynamic imports and atom writes are dashed, implicit dependencies dotted
+        dashes: edge.type === 'dynamic' || edge.type === 'write' ? [8, 4] : edge.type === 'implicit' ? [2, 4] : false,
+        // Module boundary violations are red, the affected subgraph orange
+        color: edge.violation ? { color: '#E53935', highlight: '#E53935' }
+            : edge.highlighted === true ? { color: '#FF8F00', highlight: '#FF8F00' }
+            : edge.highlighted === false ? { color: '#E0E0E0', highlight: '#2B7CE9' }
+            : undefined,
+        width: edge.violation || edge.highlighted ? 2 : undefined
     })));
     
     // Network options
@@ -77,6 +149,30 @@ function renderDependencyGraph(nodes, edges) {
                     border: '#FF6D00'
                 }
             },
+            component: {
+                color: {
+                    background: '#E1BEE7',
+                    border: '#8E24AA'
+                }
+            },
+            hook: {
+                color: {
+                    background: '#B2EBF2',
+                    border: '#00838F'
+                }
+            },
+            atom: {
+                color: {
+                    background: '#FFCCBC',
+                    border: '#E64A19'
+                }
+            },
+            selector: {
+                color: {
+                    background: '#FFF9C4',
+                    border: '#F9A825'
+                }
+            },
             default: {
                 color: {
                     background: '#C5E1A5',
@@ -0,0 +1,8 @@
+// Helpers shared by the webviews that render analysis results as HTML
+
+/**
+ * Escapes text taken from analyzed source code (values, keys, messages) for use in HTML.
+ */
+function escapeHtml(text) {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -43,7 +43,7 @@ function renderComponentList() {
         componentItem.className = 'component-item';
         componentItem.dataset.index = index;
         componentItem.innerHTML = `
-            <h3>${component.name}</h3>
+            <h3>${component.displayName || component.name}</h3>
             <div class="path">${component.filePath}</div>
         `;
         
@@ -82,7 +82,7 @@ function renderComponentDetails(component) {
     }
     
     let detailsHtml = `
-        <h2>${component.name}</h2>
+        <h2>${component.displayName || component.name}</h2>
         <div class="file-path">
             <a href="#" onclick="openComponentFile('${component.filePath}')">
                 ${component.filePath}
@@ -0,0 +1,174 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { DependencyInfo, ProjectInfo } from './NxProjectAnalyzer';
+import { ComponentInfo } from './ReactComponentAnalyzer';
+
+export type AffectedReason = 'changed' | 'renders-changed' | 'in-affected-project';
+
+export interface AffectedComponentInfo {
+    component: ComponentInfo;
+    project?: string;
+    reason: AffectedReason;
+}
+
+export interface AffectedResult {
+    baseRef: string;
+    changedFiles: string[];
+    changedProjects: string[];
+    affectedProjects: string[];
+}
+
+/**
+ * Finds the NX projects and components affected by the changes since a git base ref.
+ */
+export class AffectedProjectsAnalyzer {
+    private workspaceRoot: string;
+
+    constructor(workspaceRoot: string) {
+        this.workspaceRoot = workspaceRoot;
+    }
+
+    /**
+     * Lists the workspace-relative files changed since the merge base of the base ref,
+     * including uncommitted and untracked files.
+     */
+    public async getChangedFiles(baseRef: string): Promise<string[]> {
+        const mergeBase = (await this.git(['merge-base', baseRef, 'HEAD'])).trim();
+        const changed = await this.git(['diff', '--name-only', '--relative', mergeBase]);
+        const untracked = await this.git(['ls-files', '--others', '--exclude-standard']);
+
+        const files = new Set<string>();
+        for (const line of `${changed}\n${untracked}`.split(/\r?\n/)) {
+            if (line.trim()) {
+                files.add(line.trim());
+            }
+        }
+        return Array.from(files).sort();
+    }
+
+    /**
+     * Maps changed files to projects and adds every project that depends on them, directly or transitively.
+     */
+    public getAffectedProjects(
+        baseRef: string,
+        changedFiles: string[],
+        projects: Map<string, ProjectInfo>,
+        dependencies: DependencyInfo[]
+    ): AffectedResult {
+        const changedProjects = new Set<string>();
+        for (const file of changedFiles) {
+            const project = this.getProjectForFile(file, projects);
+            if (project) {
+                changedProjects.add(project);
+            }
+        }
+
+        // Walk reverse dependencies from the changed projects
+        const dependents = new Map<string, string[]>();
+        for (const dependency of dependencies) {
+            const sources = dependents.get(dependency.targetProject) || [];
+            sources.push(dependency.sourceProject);
+            dependents.set(dependency.targetProject, sources);
+        }
+
+        const affectedProjects = new Set<string>(changedProjects);
+        const queue = Array.from(changedProjects);
+        while (queue.length > 0) {
+            const project = queue.shift()!;
+            for (const dependent of dependents.get(project) || []) {
+                if (!affectedProjects.has(dependent)) {
+                    affectedProjects.add(dependent);
+                    queue.push(dependent);
+                }
+            }
+        }
+
+        return {
+            baseRef,
+            changedFiles,
+            changedProjects: Array.from(changedProjects),
+            affectedProjects: Array.from(affectedProjects)
+        };
+    }
+
+    /**
+     * Lists the analyzed components affected by the changes: components in changed files,
+     * components rendering them and the other components of affected projects.
+     */
+    public getAffectedComponents(
+        result: AffectedResult,
+        components: ComponentInfo[],
+        projects: Map<string, ProjectInfo>
+    ): AffectedComponentInfo[] {
+        const changedFiles = new Set(result.changedFiles.map(file => path.normalize(file)));
+        const affectedProjects = new Set(result.affectedProjects);
+        const reasons = new Map<ComponentInfo, AffectedReason>();
+
+        const changedComponents = components.filter(component => changedFiles.has(path.normalize(component.filePath)));
+        for (const component of changedComponents) {
+            reasons.set(component, 'changed');
+        }
+
+        // Follow the render tree up from the changed components
+        const queue = [...changedComponents];
+        while (queue.length > 0) {
+            const component = queue.shift()!;
+            for (const parent of component.parents || []) {
+                const parentComponent = components.find(c => c.name === parent.name && c.filePath === parent.filePath);
+                if (parentComponent && !reasons.has(parentComponent)) {
+                    reasons.set(parentComponent, 'renders-changed');
+                    queue.push(parentComponent);
+                }
+            }
+        }
+
+        for (const component of components) {
+            const project = this.getProjectForFile(component.filePath, projects);
+            if (!reasons.has(component) && project && affectedProjects.has(project)) {
+                reasons.set(component, 'in-affected-project');
+            }
+        }
+
+        const order: AffectedReason[] = ['changed', 'renders-changed', 'in-affected-project'];
+        return Array.from(reasons.entries())
+            .map(([component, reason]) => ({
+                component,
+                project: this.getProjectForFile(component.filePath, projects),
+                reason
+            }))
+            .sort((a, b) => order.indexOf(a.reason) - order.indexOf(b.reason) || a.component.name.localeCompare(b.component.name));
+    }
+
+    /**
+     * Finds the project whose root contains a workspace-relative file, preferring the deepest root.
+     */
+    private getProjectForFile(file: string, projects: Map<string, ProjectInfo>): string | undefined {
+        const normalizedFile = path.normalize(file);
+        let match: ProjectInfo | undefined;
+
+        for (const project of projects.values()) {
+            const root = path.normalize(project.root);
+            const contains = root === '.' || normalizedFile.startsWith(root + path.sep);
+            if (contains && (!match || root.length > path.normalize(match.root).length)) {
+                match = project;
+            }
+        }
+
+        return match?.name;
+    }
+
+    /**
+     * Runs a git command in the workspace and returns its output.
+     */
+    private git(args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile('git', args, { cwd: this.workspaceRoot, maxBuffer: 32 * 1024 * 1024 }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(stderr.trim() || error.message));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}
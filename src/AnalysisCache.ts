@@ -0,0 +1,278 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as ts from 'typescript';
+import { FileAnalysis } from './ReactComponentAnalyzer';
+import { PROJECT_CONFIG_FILES } from './ProjectProgramProvider';
+
+interface CacheEntry {
+    // Hash of the file content
+    hash: string;
+    // Hash of the resolved compiler options that apply to the file
+    configHash: string;
+    analysis: FileAnalysis;
+}
+
+interface CacheFile {
+    formatVersion: number;
+    analyzerVersion: string;
+    entries: Record<string, CacheEntry>;
+}
+
+// Bumped when the layout of the cache file changes
+const CACHE_FORMAT_VERSION = 1;
+
+// Writes are delayed by this many milliseconds so that consecutive watcher batches are saved once
+const SAVE_DELAY = 2000;
+
+/**
+ * Caches per-file analysis results on disk, keyed by file content hash, so unchanged files are not parsed again.
+ * Entries are invalidated when the file, the compiler options that apply to it or the analyzer version change.
+ */
+export class AnalysisCache {
+    private workspaceRoot: string;
+    private cacheFile: string;
+    private analyzerVersion: string;
+    private entries = new Map<string, CacheEntry>();
+    // Config hashes of the current run, by directory and by tsconfig path
+    private configHashes = new Map<string, string>();
+    private loaded = false;
+    private dirty = false;
+    private saveTimer?: NodeJS.Timeout;
+    private saving: Promise<void> = Promise.resolve();
+    private hits = 0;
+    private misses = 0;
+
+    constructor(storageDir: string, workspaceRoot: string, analyzerVersion: string) {
+        this.workspaceRoot = workspaceRoot;
+        this.analyzerVersion = analyzerVersion;
+        // Each workspace gets its own cache file in the shared global storage
+        this.cacheFile = path.join(storageDir, 'analysis-cache', `${this.hash(workspaceRoot).slice(0, 16)}.json`);
+    }
+
+    /**
+     * Returns the cached analysis of a file, or analyzes it and caches the result.
+     */
+    public async getOrAnalyze(filePath: string, analyze: (filePath: string) => Promise<FileAnalysis>): Promise<FileAnalysis> {
+        this.load();
+
+        let content: string;
+        try {
+            content = fs.readFileSync(filePath, 'utf8');
+        } catch (error) {
+            return analyze(filePath);
+        }
+
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        const hash = this.hash(content);
+        const configHash = this.getConfigHash(path.dirname(filePath));
+        const entry = this.entries.get(relativePath);
+        if (entry && entry.hash === hash && entry.configHash === configHash) {
+            this.hits++;
+            return this.copy(entry.analysis);
+        }
+
+        this.misses++;
+        const analysis = await analyze(filePath);
+        // Graph builders add to the returned analysis, so the cache keeps its own copy
+        this.entries.set(relativePath, { hash, configHash, analysis: this.copy(analysis) });
+        this.dirty = true;
+        return analysis;
+    }
+
+    /**
+     * Drops the entries of deleted files.
+     */
+    public removeFiles(filePaths: string[]): void {
+        for (const filePath of filePaths) {
+            if (this.entries.delete(path.relative(this.workspaceRoot, filePath))) {
+                this.dirty = true;
+            }
+        }
+    }
+
+    /**
+     * Drops the entries of the files in a directory that are not in the given list,
+     * such as files deleted while the extension was not running.
+     */
+    public retainFiles(dirPath: string, filePaths: string[]): void {
+        const relativeDir = path.relative(this.workspaceRoot, dirPath);
+        const relativePaths = new Set(filePaths.map(filePath => path.relative(this.workspaceRoot, filePath)));
+        for (const relativePath of Array.from(this.entries.keys())) {
+            const inDir = !relativeDir || relativePath.startsWith(relativeDir + path.sep);
+            if (inDir && !relativePaths.has(relativePath)) {
+                this.entries.delete(relativePath);
+                this.dirty = true;
+            }
+        }
+    }
+
+    /**
+     * Schedules writing the cache to disk when it changed.
+     */
+    public save(): void {
+        if (!this.dirty) {
+            return;
+        }
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY);
+    }
+
+    /**
+     * Writes a scheduled save right away and waits for the writes in progress.
+     */
+    public flush(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.saving = this.saving.then(() => this.write());
+        }
+        return this.saving;
+    }
+
+    /**
+     * Starts a new analysis run: tsconfig files are hashed again and the hit counts are reset.
+     */
+    public beginRun(): void {
+        this.configHashes.clear();
+        this.hits = 0;
+        this.misses = 0;
+    }
+
+    /**
+     * Gets the number of files reused from the cache and analyzed in the current run.
+     */
+    public getStats(): { hits: number; misses: number } {
+        return { hits: this.hits, misses: this.misses };
+    }
+
+    /**
+     * Removes every entry, in memory and on disk.
+     */
+    public clear(): void {
+        this.entries.clear();
+        this.configHashes.clear();
+        this.loaded = true;
+        this.dirty = false;
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        // Deleted after any write in progress, so that the write does not bring the file back
+        this.saving = this.saving
+            .then(() => fs.promises.rm(this.cacheFile, { force: true }))
+            .catch(error => console.error('Failed to delete analysis cache:', error));
+    }
+
+    /**
+     * Writes the cache file.
+     */
+    private async write(): Promise<void> {
+        if (!this.dirty) {
+            return;
+        }
+
+        try {
+            const cache: CacheFile = {
+                formatVersion: CACHE_FORMAT_VERSION,
+                analyzerVersion: this.analyzerVersion,
+                entries: Object.fromEntries(this.entries)
+            };
+            const content = JSON.stringify(cache);
+            this.dirty = false;
+            await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+            await fs.promises.writeFile(this.cacheFile, content);
+        } catch (error) {
+            this.dirty = true;
+            console.error('Failed to save analysis cache:', error);
+        }
+    }
+
+    /**
+     * Reads the cache file once, discarding it when it was written by another analyzer version.
+     */
+    private load(): void {
+        if (this.loaded) {
+            return;
+        }
+        this.loaded = true;
+
+        try {
+            if (!fs.existsSync(this.cacheFile)) {
+                return;
+            }
+            const cache: CacheFile = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'));
+            if (cache.formatVersion !== CACHE_FORMAT_VERSION || cache.analyzerVersion !== this.analyzerVersion) {
+                this.dirty = true;
+                return;
+            }
+            this.entries = new Map(Object.entries(cache.entries));
+        } catch (error) {
+            console.error('Failed to load analysis cache:', error);
+        }
+    }
+
+    /**
+     * Hashes the compiler options that apply to a directory, as resolved from its nearest tsconfig
+     * with every extended config, so that changes anywhere in the extends chain are noticed.
+     */
+    private getConfigHash(dirPath: string): string {
+        const cached = this.configHashes.get(dirPath);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let configPath = '';
+        for (let current = dirPath; current.startsWith(this.workspaceRoot); current = path.dirname(current)) {
+            const configName = PROJECT_CONFIG_FILES.find(name => fs.existsSync(path.join(current, name)));
+            if (configName) {
+                configPath = path.join(current, configName);
+                break;
+            }
+            if (current === this.workspaceRoot) {
+                break;
+            }
+        }
+
+        let configHash = this.configHashes.get(configPath);
+        if (configHash === undefined) {
+            configHash = this.hash(`${configPath}\n${this.readCompilerOptions(configPath)}`);
+            this.configHashes.set(configPath, configHash);
+        }
+        this.configHashes.set(dirPath, configHash);
+        return configHash;
+    }
+
+    /**
+     * Reads the resolved compiler options and project references of a tsconfig as JSON.
+     */
+    private readCompilerOptions(configPath: string): string {
+        if (!configPath) {
+            return '';
+        }
+
+        const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+        if (error || !config) {
+            // An unreadable config is hashed as is, so fixing it invalidates the entries
+            return ts.sys.readFile(configPath) || '';
+        }
+        const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+        return JSON.stringify({ options: parsed.options, projectReferences: parsed.projectReferences });
+    }
+
+    /**
+     * Hashes text content.
+     */
+    private hash(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Deep-copies an analysis result.
+     */
+    private copy(analysis: FileAnalysis): FileAnalysis {
+        return JSON.parse(JSON.stringify(analysis));
+    }
+}
@@ -0,0 +1,43 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ReactComponentAnalyzer } from './ReactComponentAnalyzer';
+import { ProjectProgramProvider } from './ProjectProgramProvider';
+import { EffectDependencyChecker } from './EffectDependencyChecker';
+import { AnalysisWorkerData, WorkerRequest, WorkerResponse } from './AnalysisWorkerPool';
+
+// Worker thread entry of AnalysisWorkerPool: analyzes the files it is sent and posts the results back
+const data: AnalysisWorkerData = workerData;
+const programProvider = new ProjectProgramProvider(data.workspaceRoot);
+// Parsing does not need the TypeScript programs, which only the props extraction builds
+const parser = new ReactComponentAnalyzer(data.workspaceRoot, { hocNames: data.hocNames });
+const analyzer = new ReactComponentAnalyzer(data.workspaceRoot, { hocNames: data.hocNames, programProvider });
+const effectChecker = new EffectDependencyChecker();
+
+parentPort?.on('message', async (request: WorkerRequest) => {
+    switch (request.type) {
+        case 'analyze': {
+            const response: WorkerResponse = { id: request.id, result: await parser.analyzeFile(request.filePath) };
+            parentPort!.postMessage(response);
+            break;
+        }
+        case 'extractProps': {
+            analyzer.extractProps(request.filePath, request.components);
+            const response: WorkerResponse = { id: request.id, result: request.components };
+            parentPort!.postMessage(response);
+            break;
+        }
+        case 'checkEffects': {
+            const response: WorkerResponse = { id: request.id, result: effectChecker.checkFile(request.filePath) };
+            parentPort!.postMessage(response);
+            break;
+        }
+        case 'setProjects':
+            programProvider.setProjects(new Map(request.projects.map(project => [project.name, project])));
+            break;
+        case 'addRootFiles':
+            programProvider.addRootFiles(request.filePaths);
+            break;
+        case 'invalidate':
+            programProvider.invalidate();
+            break;
+    }
+});
@@ -0,0 +1,317 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ComponentInfo, FileAnalysis } from './ReactComponentAnalyzer';
+import { EffectDependencyIssue } from './EffectDependencyChecker';
+import { ProjectInfo } from './NxProjectAnalyzer';
+import { PROJECT_CONFIG_FILES } from './ProjectProgramProvider';
+
+export interface AnalysisWorkerData {
+    workspaceRoot: string;
+    hocNames: string[];
+}
+
+export type AnalysisJobType = 'analyze' | 'extractProps' | 'checkEffects';
+
+export type WorkerRequest =
+    | { type: 'analyze' | 'checkEffects'; id: number; filePath: string }
+    | { type: 'extractProps'; id: number; filePath: string; components: ComponentInfo[] }
+    | { type: 'setProjects'; projects: ProjectInfo[] }
+    | { type: 'addRootFiles'; filePaths: string[] }
+    | { type: 'invalidate' };
+
+export interface WorkerResponse {
+    id: number;
+    result: FileAnalysis | ComponentInfo[] | EffectDependencyIssue[];
+}
+
+interface AnalysisJob {
+    id: number;
+    type: AnalysisJobType;
+    filePath: string;
+    // The components whose props an extractProps job adds
+    components?: ComponentInfo[];
+    // The run the job belongs to, or undefined for jobs that are not cancelled
+    run?: number;
+    // Props jobs with the same key build the same TypeScript program, so they go to the same worker
+    programKey?: string;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    job?: AnalysisJob;
+    // Program keys whose props jobs this worker runs
+    programKeys: Set<string>;
+}
+
+// Upper bound of the default pool size, since every worker keeps its own TypeScript programs
+const MAX_DEFAULT_WORKERS = 8;
+
+/**
+ * Returns the number of workers to use: the configured size, or one less than the number of CPU cores
+ * so that a core is left for the extension host.
+ */
+export function getWorkerCount(configuredSize: number): number {
+    if (configuredSize > 0) {
+        return Math.floor(configuredSize);
+    }
+    return Math.max(1, Math.min(MAX_DEFAULT_WORKERS, os.cpus().length - 1));
+}
+
+/**
+ * Parses and traverses files on a pool of worker threads so that large scans do not block the extension host.
+ * Workers are started on demand and kept between runs, so that their TypeScript programs are reused.
+ * Files are parsed on any free worker, while the props of a project's components are all extracted on one worker,
+ * so that each program is built by a single worker.
+ */
+export class AnalysisWorkerPool {
+    private workerScript: string;
+    private workerData: AnalysisWorkerData;
+    private size: number;
+    private workers: PoolWorker[] = [];
+    private queue: AnalysisJob[] = [];
+    private nextId = 0;
+    private nextRun = 0;
+    private projects: ProjectInfo[] = [];
+    // Program keys by directory, until the next invalidate()
+    private programKeys = new Map<string, string>();
+    private rootFiles: string[] = [];
+
+    constructor(workerScript: string, workerData: AnalysisWorkerData, size: number) {
+        this.workerScript = workerScript;
+        this.workerData = workerData;
+        this.size = size;
+    }
+
+    /**
+     * Gets the maximum number of workers.
+     */
+    public getSize(): number {
+        return this.size;
+    }
+
+    /**
+     * Starts a run: jobs passed its id can be cancelled together.
+     */
+    public createRun(): number {
+        return this.nextRun++;
+    }
+
+    /**
+     * Analyzes a file on the next free worker, then extracts the props of its components
+     * on the worker building the program of its project.
+     */
+    public async analyze(filePath: string, run?: number): Promise<FileAnalysis> {
+        const analysis = await this.enqueue<FileAnalysis>({ type: 'analyze', filePath, run });
+        if (analysis.components.length > 0) {
+            analysis.components = await this.enqueue<ComponentInfo[]>({
+                type: 'extractProps',
+                filePath,
+                components: analysis.components,
+                run,
+                programKey: this.getProgramKey(filePath)
+            });
+        }
+        return analysis;
+    }
+
+    /**
+     * Checks the effect dependencies of a file on the next free worker.
+     */
+    public checkEffects(filePath: string, run?: number): Promise<EffectDependencyIssue[]> {
+        return this.enqueue({ type: 'checkEffects', filePath, run });
+    }
+
+    /**
+     * Sets the NX projects whose tsconfig files the workers build TypeScript programs from.
+     */
+    public setProjects(projects: Map<string, ProjectInfo>): void {
+        // Longest roots first so nested projects win over their parents
+        this.projects = Array.from(projects.values()).sort((a, b) => b.root.length - a.root.length);
+        this.programKeys.clear();
+        this.broadcast({ type: 'setProjects', projects: this.projects });
+    }
+
+    /**
+     * Tells the workers which files the current run analyzes, so that files outside their tsconfig
+     * are added to the TypeScript programs all at once.
+     */
+    public addRootFiles(filePaths: string[]): void {
+        this.rootFiles = filePaths;
+        this.broadcast({ type: 'addRootFiles', filePaths });
+    }
+
+    /**
+     * Makes the workers read changed files and tsconfig files again.
+     */
+    public invalidate(): void {
+        this.programKeys.clear();
+        this.broadcast({ type: 'invalidate' });
+    }
+
+    /**
+     * Rejects the queued jobs of a run and stops the workers busy with its jobs; other jobs and workers are kept.
+     */
+    public cancel(run: number): void {
+        const error = new Error('Analysis was cancelled');
+        for (const job of this.queue.filter(job => job.run === run)) {
+            job.reject(error);
+        }
+        this.queue = this.queue.filter(job => job.run !== run);
+
+        for (const poolWorker of this.workers.filter(poolWorker => poolWorker.job?.run === run)) {
+            poolWorker.job!.reject(error);
+            this.removeWorker(poolWorker);
+        }
+        this.dispatch();
+    }
+
+    public dispose(): void {
+        const error = new Error('Analysis was cancelled');
+        for (const job of this.queue.splice(0)) {
+            job.reject(error);
+        }
+        for (const poolWorker of [...this.workers]) {
+            poolWorker.job?.reject(error);
+            this.removeWorker(poolWorker);
+        }
+    }
+
+    /**
+     * Queues a job and hands it to a worker when one is free.
+     * Props jobs go ahead of the other jobs, so that files already parsed are finished first.
+     */
+    private enqueue<T>(request: Omit<AnalysisJob, 'id' | 'resolve' | 'reject'>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const job: AnalysisJob = { ...request, id: this.nextId++, resolve, reject };
+            const index = job.type === 'extractProps' ? this.queue.findIndex(queued => queued.type !== 'extractProps') : -1;
+            this.queue.splice(index < 0 ? this.queue.length : index, 0, job);
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Hands queued jobs to idle workers, starting workers up to the pool size.
+     * Props jobs of a program already owned by a busy worker wait for that worker.
+     */
+    private dispatch(): void {
+        for (let index = 0; index < this.queue.length;) {
+            const job = this.queue[index];
+            const poolWorker = this.findWorker(job);
+            if (!poolWorker) {
+                index++;
+                continue;
+            }
+
+            this.queue.splice(index, 1);
+            if (job.programKey) {
+                poolWorker.programKeys.add(job.programKey);
+            }
+            poolWorker.job = job;
+            poolWorker.worker.postMessage({ type: job.type, id: job.id, filePath: job.filePath, components: job.components });
+        }
+    }
+
+    /**
+     * Finds the worker to run a job on now: the owner of its program if idle, otherwise an idle worker
+     * or a new one, preferring workers that own the fewest programs.
+     */
+    private findWorker(job: AnalysisJob): PoolWorker | undefined {
+        const owner = job.programKey ? this.workers.find(candidate => candidate.programKeys.has(job.programKey!)) : undefined;
+        if (owner) {
+            return owner.job ? undefined : owner;
+        }
+
+        const idleWorkers = this.workers.filter(candidate => !candidate.job);
+        if (this.workers.length < this.size && idleWorkers.every(candidate => candidate.programKeys.size > 0)) {
+            return this.startWorker();
+        }
+        return idleWorkers.sort((a, b) => a.programKeys.size - b.programKeys.size)[0];
+    }
+
+    /**
+     * Gets the key of the program that extracts the props of a file: the root of the NX project owning it,
+     * or the nearest directory with a tsconfig.
+     */
+    private getProgramKey(filePath: string): string {
+        const relativePath = path.relative(this.workerData.workspaceRoot, path.dirname(filePath));
+        const owner = this.projects.find(project =>
+            project.root === '' || project.root === '.' || relativePath === project.root || relativePath.startsWith(project.root + path.sep) || relativePath.startsWith(project.root + '/'));
+        if (owner) {
+            return owner.root;
+        }
+
+        const dirPath = path.dirname(filePath);
+        let programKey = this.programKeys.get(dirPath);
+        if (programKey === undefined) {
+            const parentPath = path.dirname(dirPath);
+            const hasConfig = PROJECT_CONFIG_FILES.some(name => fs.existsSync(path.join(dirPath, name)));
+            programKey = hasConfig || dirPath === this.workerData.workspaceRoot || parentPath === dirPath || !dirPath.startsWith(this.workerData.workspaceRoot)
+                ? dirPath
+                : this.getProgramKey(path.join(parentPath, path.basename(filePath)));
+            this.programKeys.set(dirPath, programKey);
+        }
+        return programKey;
+    }
+
+    /**
+     * Starts a worker, passing it the current NX projects and run files.
+     */
+    private startWorker(): PoolWorker {
+        const poolWorker: PoolWorker = { worker: new Worker(this.workerScript, { workerData: this.workerData }), programKeys: new Set() };
+        this.workers.push(poolWorker);
+
+        poolWorker.worker.on('message', (response: WorkerResponse) => {
+            const job = poolWorker.job;
+            if (job && job.id === response.id) {
+                poolWorker.job = undefined;
+                job.resolve(response.result);
+                this.dispatch();
+            }
+        });
+
+        // A crashed worker fails its current job; the next job starts a new worker
+        poolWorker.worker.on('error', error => {
+            console.error('Analysis worker error:', error);
+            poolWorker.job?.reject(error);
+            poolWorker.job = undefined;
+        });
+        poolWorker.worker.on('exit', code => {
+            if (!this.workers.includes(poolWorker)) {
+                return;
+            }
+            poolWorker.job?.reject(new Error(`Analysis worker stopped with exit code ${code}`));
+            this.workers = this.workers.filter(candidate => candidate !== poolWorker);
+            this.dispatch();
+        });
+
+        if (this.projects.length > 0) {
+            poolWorker.worker.postMessage({ type: 'setProjects', projects: this.projects });
+        }
+        if (this.rootFiles.length > 0) {
+            poolWorker.worker.postMessage({ type: 'addRootFiles', filePaths: this.rootFiles });
+        }
+        return poolWorker;
+    }
+
+    /**
+     * Terminates a worker and drops it from the pool.
+     */
+    private removeWorker(poolWorker: PoolWorker): void {
+        poolWorker.job = undefined;
+        this.workers = this.workers.filter(candidate => candidate !== poolWorker);
+        poolWorker.worker.terminate().catch(error => console.error('Error stopping analysis worker:', error));
+    }
+
+    /**
+     * Sends a request to every running worker.
+     */
+    private broadcast(request: WorkerRequest): void {
+        for (const poolWorker of this.workers) {
+            poolWorker.worker.postMessage(request);
+        }
+    }
+}
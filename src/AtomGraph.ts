@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { AtomInfo, AtomReferenceInfo, AtomUsageInfo, ComponentInfo } from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+import { HookGraph, getReachableHooks } from './HookCompositionGraph';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface AtomAccessSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    hook: string;
+    // The custom hook the atom is accessed through
+    via?: string;
+    line: number;
+}
+
+export interface AtomNode {
+    id: string;
+    atom: AtomInfo;
+    // Ids of the atoms and selectors this one reads, writes, and is read by
+    dependencies: string[];
+    writes: string[];
+    dependents: string[];
+    readers: AtomAccessSite[];
+    writers: AtomAccessSite[];
+}
+
+export interface AtomGraph {
+    atoms: Map<string, AtomNode>;
+}
+
+/**
+ * Returns the workspace-unique id of an atom, selector or family.
+ */
+export function getAtomId(atom: AtomInfo): string {
+    return `${atom.filePath}#${atom.name}`;
+}
+
+/**
+ * Builds the data flow of Recoil and Jotai state: from atoms through the selectors derived from them
+ * to the components reading and writing them.
+ */
+export class AtomGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Links atoms to their dependencies and to the components accessing them, directly or through custom hooks.
+     */
+    public build(atoms: AtomInfo[], components: ComponentInfo[], hookGraph: HookGraph | null): AtomGraph {
+        const nodes = new Map<string, AtomNode>();
+        for (const atom of atoms) {
+            nodes.set(getAtomId(atom), { id: getAtomId(atom), atom, dependencies: [], writes: [], dependents: [], readers: [], writers: [] });
+        }
+
+        for (const node of nodes.values()) {
+            for (const dependency of node.atom.dependencies) {
+                const target = this.resolveAtom(node.atom.filePath, dependency, atoms);
+                if (target && !node.dependencies.includes(getAtomId(target))) {
+                    node.dependencies.push(getAtomId(target));
+                    nodes.get(getAtomId(target))!.dependents.push(node.id);
+                }
+            }
+            for (const write of node.atom.writes) {
+                const target = this.resolveAtom(node.atom.filePath, write, atoms);
+                if (target && !node.writes.includes(getAtomId(target))) {
+                    node.writes.push(getAtomId(target));
+                }
+            }
+        }
+
+        for (const component of components) {
+            const componentId = getComponentId(component);
+            const usages: { usage: AtomUsageInfo; filePath: string; via?: string }[] = [
+                ...(component.atomUsage || []).map(usage => ({ usage, filePath: component.filePath })),
+                ...(hookGraph ? getReachableHooks(hookGraph, componentId) : []).flatMap(hook =>
+                    (hook.atomUsage || []).map(usage => ({ usage, filePath: hook.filePath, via: hook.name })))
+            ];
+
+            for (const { usage, filePath, via } of usages) {
+                const atom = this.resolveAtom(filePath, { name: usage.reference, ...usage }, atoms);
+                if (!atom) {
+                    continue;
+                }
+
+                const node = nodes.get(getAtomId(atom))!;
+                const site: AtomAccessSite = {
+                    componentId,
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    hook: usage.hook,
+                    via,
+                    line: usage.location.line
+                };
+                if (usage.access !== 'write') {
+                    node.readers.push(site);
+                }
+                if (usage.access !== 'read') {
+                    node.writers.push(site);
+                }
+            }
+        }
+
+        return { atoms: nodes };
+    }
+
+    /**
+     * Resolves a local or imported name to the atom that declares it, following barrel re-exports.
+     */
+    private resolveAtom(filePath: string, reference: AtomReferenceInfo, atoms: AtomInfo[]): AtomInfo | null {
+        // Atoms defined in the same file
+        if (!reference.source) {
+            return atoms.find(atom => atom.filePath === filePath && atom.name === reference.name) || null;
+        }
+
+        if (!reference.importedName || reference.importedName === '*') {
+            return null;
+        }
+
+        const resolved = this.resolver.resolve(reference.source, path.join(this.workspaceRoot, filePath));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, reference.importedName);
+        if (!declaration) {
+            return null;
+        }
+
+        const declarationPath = path.relative(this.workspaceRoot, declaration.filePath);
+        return atoms.find(atom => atom.filePath === declarationPath && atom.exportNames?.includes(declaration.exportName)) || null;
+    }
+}
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ComponentInfo } from './ReactComponentAnalyzer';
+import { ComponentInfo, ClassComponentInfo, PropDrillingInfo } from './ReactComponentAnalyzer';
 
 /**
  * Class for exporting React component analysis results in various formats
@@ -123,7 +123,7 @@ export class ComponentExporter {
             return `
                 <div class="component-card">
                     <div class="component-header">
-                        <h2>${component.name}</h2>
+                        <h2>${this.getDisplayName(component)}</h2>
                         <small>${component.filePath}</small>
                     </div>
                     
@@ -131,9 +131,10 @@ export class ComponentExporter {
                     
                     ${this.renderHtmlPropsSection(component.props)}
                     ${this.renderHtmlStatesSection(component.states)}
-                    ${this.renderHtmlHooksSection(component.hooks)}
+                    ${this.renderHtmlHooksSection(component.hooks, component.hookCounts)}
                     ${this.renderHtmlContextsSection(component.contexts)}
                     ${this.renderHtmlStoreSection(component.storeUsage)}
+                    ${this.renderHtmlClassSection(component.classInfo)}
                 </div>
             `;
         }).join('');
@@ -253,6 +254,14 @@ export class ComponentExporter {
                 .store-title:before {
                     background-color: #1a237e;
                 }
+                .class-title:before {
+                    background-color: #827717;
+                }
+                .badge-class {
+                    background-color: #f9fbe7;
+                    color: #827717;
+                    border: 1px solid #f0f4c3;
+                }
                 .state-item, .prop-item, .hook-item, .context-item {
                     padding: 8px;
                     border-radius: 4px;
@@ -313,8 +322,9 @@ export class ComponentExporter {
                     <h2>Component List</h2>
                     ${components.map((component, index) => `
                         <a class="component-link" href="#component-${index}">
-                            ${component.name}
+                            ${this.getDisplayName(component)}
                             <div class="component-badges">
+                                ${component.kind === 'class' ? `<span class="badge badge-class">Class</span>` : ''}
                                 ${component.props.length > 0 ? `<span class="badge badge-prop">Props: ${component.props.length}</span>` : ''}
                                 ${component.states.length > 0 ? `<span class="badge badge-state">State: ${component.states.length}</span>` : ''}
                                 ${component.hooks.length > 0 ? `<span class="badge badge-hook">Hooks: ${component.hooks.length}</span>` : ''}
@@ -391,10 +401,12 @@ export class ComponentExporter {
                             <span class="badge badge-state">state</span>
                             ${state.usageCount ? `<span class="usage-count">Usage: ${state.usageCount} times</span>` : ''}
                         </div>
-                        <div>
-                            <span class="label">Setter:</span>
-                            <span class="value">${state.setter}</span>
-                        </div>
+                        ${state.setter ? `
+                            <div>
+                                <span class="label">Setter:</span>
+                                <span class="value">${state.setter}</span>
+                            </div>
+                        ` : ''}
                         ${state.initialValue ? `
                             <div>
                                 <span class="label">Initial value:</span>
@@ -407,10 +419,20 @@ export class ComponentExporter {
         `;
     }
     
+    /**
+     * Formats hook call counts (useState ×5, useEffect ×4).
+     */
+    private static formatHookCounts(hookCounts: Record<string, number>): string {
+        return Object.entries(hookCounts)
+            .sort((a, b) => b[1] - a[1])
+            .map(([name, count]) => count > 1 ? `${name} ×${count}` : name)
+            .join(', ');
+    }
+    
     /**
      * Renders HTML Hooks section.
      */
-    private static renderHtmlHooksSection(hooks: any[]): string {
+    private static renderHtmlHooksSection(hooks: any[], hookCounts?: Record<string, number>): string {
         if (!hooks || hooks.length === 0) {
             return '';
         }
@@ -418,6 +440,12 @@ export class ComponentExporter {
         return `
             <div class="section">
                 <div class="section-title hooks-title">Hooks (${hooks.length} total)</div>
+                ${hookCounts ? `
+                    <div class="hook-item">
+                        <span class="label">Calls per hook:</span>
+                        <span>${this.formatHookCounts(hookCounts)}</span>
+                    </div>
+                ` : ''}
                 ${hooks.map(hook => `
                     <div class="hook-item">
                         <span class="label">${hook.name}</span>
@@ -506,6 +534,57 @@ export class ComponentExporter {
         `;
     }
     
+    /**
+     * Renders HTML Class component section.
+     */
+    private static renderHtmlClassSection(classInfo: ClassComponentInfo | undefined): string {
+        if (!classInfo) {
+            return '';
+        }
+        
+        return `
+            <div class="section">
+                <div class="section-title class-title">Class Component</div>
+                <div class="state-item">
+                    <div>
+                        <span class="label">Extends:</span>
+                        <span class="value">${classInfo.superClass}</span>
+                    </div>
+                    ${classInfo.lifecycleMethods.length > 0 ? `
+                        <div>
+                            <span class="label">Lifecycle methods:</span>
+                            <span class="value">[${classInfo.lifecycleMethods.join(', ')}]</span>
+                        </div>
+                    ` : ''}
+                    ${classInfo.setStateCalls.length > 0 ? `
+                        <div>
+                            <span class="label">setState calls:</span>
+                            <span>${classInfo.setStateCalls.map(call => `${call.callLocation.line}:${call.callLocation.column} {${call.fields.join(', ')}}`).join(', ')}</span>
+                        </div>
+                    ` : ''}
+                    ${classInfo.contextType ? `
+                        <div>
+                            <span class="label">Context type:</span>
+                            <span class="value">${classInfo.contextType}</span>
+                        </div>
+                    ` : ''}
+                    ${classInfo.defaultProps && classInfo.defaultProps.length > 0 ? `
+                        <div>
+                            <span class="label">Default props:</span>
+                            <span class="value">[${classInfo.defaultProps.join(', ')}]</span>
+                        </div>
+                    ` : ''}
+                    ${classInfo.propTypes && classInfo.propTypes.length > 0 ? `
+                        <div>
+                            <span class="label">Prop types:</span>
+                            <span class="value">[${classInfo.propTypes.join(', ')}]</span>
+                        </div>
+                    ` : ''}
+                </div>
+            </div>
+        `;
+    }
+    
     /**
      * Generates Markdown content.
      */
@@ -516,13 +595,14 @@ export class ComponentExporter {
         
         mdContent += `## Table of Contents\n\n`;
         components.forEach((component, index) => {
-            mdContent += `${index + 1}. [${component.name}](#${component.name.toLowerCase().replace(/[^\w-]+/g, '')})\n`;
+            const displayName = this.getDisplayName(component);
+            mdContent += `${index + 1}. [${displayName}](#${displayName.toLowerCase().replace(/[^\w-]+/g, '')})\n`;
         });
         
         mdContent += `\n---\n\n`;
         
         components.forEach(component => {
-            mdContent += `## ${component.name}\n\n`;
+            mdContent += `## ${this.getDisplayName(component)}\n\n`;
             mdContent += `**File path:** \`${component.filePath}\`\n\n`;
             
             if (component.description) {
@@ -553,7 +633,9 @@ export class ComponentExporter {
                 mdContent += `### State (${component.states.length})\n\n`;
                 component.states.forEach(state => {
                     mdContent += `#### ${state.name}\n\n`;
-                    mdContent += `- **Setter:** \`${state.setter}\`\n`;
+                    if (state.setter) {
+                        mdContent += `- **Setter:** \`${state.setter}\`\n`;
+                    }
                     if (state.initialValue) {
                         mdContent += `- **Initial value:** \`${state.initialValue}\`\n`;
                     }
@@ -567,6 +649,9 @@ export class ComponentExporter {
             // Hooks
             if (component.hooks && component.hooks.length > 0) {
                 mdContent += `### Hooks (${component.hooks.length})\n\n`;
+                if (component.hookCounts) {
+                    mdContent += `**Calls per hook:** ${this.formatHookCounts(component.hookCounts)}\n\n`;
+                }
                 component.hooks.forEach(hook => {
                     mdContent += `#### ${hook.name}\n\n`;
                     mdContent += `- **Location:** ${hook.callLocation.line}:${hook.callLocation.column}\n`;
@@ -607,12 +692,62 @@ export class ComponentExporter {
                 });
             }
             
+            // Class component
+            if (component.classInfo) {
+                const classInfo = component.classInfo;
+                mdContent += `### Class Component\n\n`;
+                mdContent += `- **Extends:** \`${classInfo.superClass}\`\n`;
+                if (classInfo.lifecycleMethods.length > 0) {
+                    mdContent += `- **Lifecycle methods:** \`[${classInfo.lifecycleMethods.join(', ')}]\`\n`;
+                }
+                if (classInfo.setStateCalls.length > 0) {
+                    mdContent += `- **setState calls:** ${classInfo.setStateCalls.map(call => `${call.callLocation.line}:${call.callLocation.column} \`{${call.fields.join(', ')}}\``).join(', ')}\n`;
+                }
+                if (classInfo.contextType) {
+                    mdContent += `- **Context type:** \`${classInfo.contextType}\`\n`;
+                }
+                if (classInfo.defaultProps && classInfo.defaultProps.length > 0) {
+                    mdContent += `- **Default props:** \`[${classInfo.defaultProps.join(', ')}]\`\n`;
+                }
+                if (classInfo.propTypes && classInfo.propTypes.length > 0) {
+                    mdContent += `- **Prop types:** \`[${classInfo.propTypes.join(', ')}]\`\n`;
+                }
+                mdContent += `\n`;
+            }
+            
+            // Prop drilling
+            if (component.propDrilling && component.propDrilling.length > 0) {
+                mdContent += `### Prop Drilling (${component.propDrilling.length})\n\n`;
+                component.propDrilling.forEach(drilling => {
+                    mdContent += `#### ${drilling.prop}\n\n`;
+                    mdContent += `- **Chain:** ${this.formatDrillingChain(drilling)}\n`;
+                    mdContent += `- **Forwarded without being read by:** ${drilling.forwardingCount} components\n`;
+                    mdContent += `- **Suggestion:** ${drilling.suggestion}\n\n`;
+                });
+            }
+            
             mdContent += `---\n\n`;
         });
         
         return mdContent;
     }
     
+    /**
+     * Returns the component name including its wrapper chain (memo(forwardRef(Button))).
+     */
+    private static getDisplayName(component: ComponentInfo): string {
+        return component.displayName || component.name;
+    }
+    
+    /**
+     * Formats a prop drilling chain (App → Page (user) → Layout (currentUser)).
+     */
+    private static formatDrillingChain(drilling: PropDrillingInfo): string {
+        return drilling.chain
+            .map((step, index) => index === 0 ? step.componentName : `${step.componentName} (\`${step.prop}\`)`)
+            .join(' → ');
+    }
+    
     /**
      * Returns the formatted name of a state management library.
      */
@@ -623,6 +758,8 @@ export class ComponentExporter {
             case 'recoil': return 'Recoil';
             case 'zustand': return 'Zustand';
             case 'jotai': return 'Jotai';
+            case 'react-query': return 'TanStack Query';
+            case 'swr': return 'SWR';
             default: return 'Other';
         }
     }
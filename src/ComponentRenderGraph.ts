@@ -0,0 +1,163 @@
+import * as path from 'path';
+import { ComponentInfo, RenderInfo } from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+
+export interface RenderCallSite {
+    filePath: string;
+    line: number;
+    column: number;
+    props: string[];
+}
+
+export interface RenderEdge {
+    parent: string;
+    child: string;
+    usageCount: number;
+    callSites: RenderCallSite[];
+}
+
+export interface RenderGraph {
+    components: Map<string, ComponentInfo>;
+    edges: RenderEdge[];
+    // Component id each resolved JSX element renders
+    targets: Map<RenderInfo, string>;
+}
+
+/**
+ * Returns the workspace-unique id of a component.
+ */
+export function getComponentId(component: ComponentInfo): string {
+    return `${component.filePath}#${component.name}`;
+}
+
+/**
+ * Builds the workspace-wide graph of which components render which.
+ */
+export class ComponentRenderGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Builds the render graph and records the children and parents of each component.
+     */
+    public build(components: ComponentInfo[]): RenderGraph {
+        const componentsById = new Map<string, ComponentInfo>();
+        const componentsByFile = new Map<string, ComponentInfo[]>();
+
+        for (const component of components) {
+            componentsById.set(getComponentId(component), component);
+            const fileComponents = componentsByFile.get(component.filePath) || [];
+            fileComponents.push(component);
+            componentsByFile.set(component.filePath, fileComponents);
+        }
+
+        // Group call sites by parent and child
+        const edgesByKey = new Map<string, RenderEdge>();
+        const targets = new Map<RenderInfo, string>();
+        for (const component of components) {
+            const parentId = getComponentId(component);
+
+            for (const renderInfo of component.renders || []) {
+                const child = this.resolveRenderedComponent(component, renderInfo, componentsByFile);
+                if (!child) {
+                    continue;
+                }
+
+                const childId = getComponentId(child);
+                targets.set(renderInfo, childId);
+                const key = `${parentId}->${childId}`;
+                let edge = edgesByKey.get(key);
+                if (!edge) {
+                    edge = { parent: parentId, child: childId, usageCount: 0, callSites: [] };
+                    edgesByKey.set(key, edge);
+                }
+
+                edge.usageCount++;
+                edge.callSites.push({
+                    filePath: component.filePath,
+                    line: renderInfo.callLocation.line,
+                    column: renderInfo.callLocation.column,
+                    props: renderInfo.props
+                });
+            }
+        }
+
+        const edges = Array.from(edgesByKey.values());
+
+        // Record relations on the components for the views and exports
+        for (const component of components) {
+            component.children = [];
+            component.parents = [];
+        }
+        for (const edge of edges) {
+            const parent = componentsById.get(edge.parent)!;
+            const child = componentsById.get(edge.child)!;
+            parent.children!.push({ name: child.name, filePath: child.filePath, usageCount: edge.usageCount });
+            child.parents!.push({ name: parent.name, filePath: parent.filePath, usageCount: edge.usageCount });
+        }
+
+        return { components: componentsById, edges, targets };
+    }
+
+    /**
+     * Resolves a rendered JSX element to an analyzed component.
+     */
+    private resolveRenderedComponent(
+        component: ComponentInfo,
+        renderInfo: RenderInfo,
+        componentsByFile: Map<string, ComponentInfo[]>
+    ): ComponentInfo | null {
+        // Components defined in the same file
+        if (!renderInfo.source) {
+            const local = (componentsByFile.get(component.filePath) || []).find(c => c.name === renderInfo.name);
+            return local ? this.followLazyComponent(local, componentsByFile) : null;
+        }
+
+        if (!renderInfo.importedName || renderInfo.importedName === '*') {
+            return null;
+        }
+
+        const target = this.resolveImportedComponent(component.filePath, renderInfo.source, renderInfo.importedName, componentsByFile);
+        return target ? this.followLazyComponent(target, componentsByFile) : null;
+    }
+
+    /**
+     * Resolves lazy components to the default export of the module they load.
+     */
+    private followLazyComponent(component: ComponentInfo, componentsByFile: Map<string, ComponentInfo[]>): ComponentInfo {
+        if (!component.lazySource) {
+            return component;
+        }
+
+        const target = this.resolveImportedComponent(component.filePath, component.lazySource, 'default', componentsByFile);
+        return target || component;
+    }
+
+    /**
+     * Resolves an imported binding to the analyzed component that declares it, following barrel re-exports.
+     */
+    private resolveImportedComponent(
+        fromFile: string,
+        source: string,
+        importedName: string,
+        componentsByFile: Map<string, ComponentInfo[]>
+    ): ComponentInfo | null {
+        const resolved = this.resolver.resolve(source, path.join(this.workspaceRoot, fromFile));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, importedName);
+        if (!declaration) {
+            return null;
+        }
+
+        const components = componentsByFile.get(path.relative(this.workspaceRoot, declaration.filePath)) || [];
+        return components.find(c => c.exportNames?.includes(declaration.exportName)) || null;
+    }
+}
@@ -3,6 +3,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as url from 'url';
 import { ComponentInfo } from './ReactComponentAnalyzer';
+import { ComponentDelta } from './ComponentWatcher';
+import { getComponentId } from './ComponentRenderGraph';
 
 /**
  * Server class that provides web access to React component analysis results
@@ -14,6 +16,8 @@ export class ComponentServer {
     private components: ComponentInfo[] = [];
     private extensionPath: string;
     private refreshCallback?: () => Promise<ComponentInfo[]>;
+    // Browser pages subscribed to live analysis updates
+    private eventClients = new Set<http.ServerResponse>();
 
     constructor(extensionPath: string) {
         this.extensionPath = extensionPath;
@@ -56,6 +60,12 @@ export class ComponentServer {
                 return;
             }
 
+            // 열린 이벤트 스트림이 있으면 서버가 닫히지 않습니다.
+            for (const client of this.eventClients) {
+                client.end();
+            }
+            this.eventClients.clear();
+
             this.server.close((err) => {
                 if (err) {
                     console.error('Server shutdown error:', err);
@@ -76,6 +86,28 @@ export class ComponentServer {
         this.components = components;
     }
 
+    /**
+     * 변경된 컴포넌트를 반영하고 열려 있는 페이지에 전달합니다.
+     */
+    public applyDelta(delta: ComponentDelta): void {
+        const removed = new Set(delta.removed);
+        const components = this.components.filter(component => !removed.has(getComponentId(component)));
+        for (const component of delta.updated) {
+            const index = components.findIndex(existing => getComponentId(existing) === getComponentId(component));
+            if (index === -1) {
+                components.push(component);
+            } else {
+                components[index] = component;
+            }
+        }
+        this.components = components;
+
+        const event = `data: ${JSON.stringify({ ...delta, timestamp: new Date().toISOString() })}\n\n`;
+        for (const client of this.eventClients) {
+            client.write(event);
+        }
+    }
+
     /**
      * HTTP 요청 핸들러
      */
@@ -101,6 +133,12 @@ export class ComponentServer {
             return;
         }
 
+        // 실시간 분석 이벤트 스트림
+        if (pathname === '/api/events') {
+            this.handleEventsRequest(req, res);
+            return;
+        }
+
         // 컴포넌트 분석 요청
         if (pathname === '/api/analyze' && req.method === 'POST') {
             this.handleAnalyzeRequest(req, res);
@@ -140,6 +178,23 @@ export class ComponentServer {
         }));
     }
 
+    /**
+     * 실시간 분석 이벤트 스트림 핸들러 (Server-Sent Events)
+     */
+    private handleEventsRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+        res.write(': connected\n\n');
+
+        this.eventClients.add(res);
+        req.on('close', () => {
+            this.eventClients.delete(res);
+        });
+    }
+
     /**
      * 컴포넌트 분석 요청 핸들러
      */
@@ -379,6 +434,7 @@ export class ComponentServer {
                 
                 // Load initial data
                 loadComponents();
+                subscribeToChanges();
                 
                 // Event listeners
                 analyzeBtn.addEventListener('click', analyzeComponents);
@@ -403,6 +459,42 @@ export class ComponentServer {
                     }
                 }
                 
+                // Apply live analysis updates pushed by the editor
+                function subscribeToChanges() {
+                    const events = new EventSource('/api/events');
+                    events.onmessage = event => {
+                        const delta = JSON.parse(event.data);
+                        const getId = component => \`\${component.filePath}#\${component.name}\`;
+                        const selectedId = selectedComponent ? getId(selectedComponent) : null;
+                        
+                        const removed = new Set(delta.removed);
+                        components = components.filter(component => !removed.has(getId(component)));
+                        for (const component of delta.updated) {
+                            const index = components.findIndex(existing => getId(existing) === getId(component));
+                            if (index === -1) {
+                                components.push(component);
+                            } else {
+                                components[index] = component;
+                            }
+                        }
+                        
+                        timestampEl.textContent = \`Last updated: \${new Date(delta.timestamp).toLocaleString()}\`;
+                        statusText.textContent = \`\${components.length} components loaded\`;
+                        renderComponentList();
+                        
+                        // Keep the open detail view current
+                        if (selectedId) {
+                            const index = components.findIndex(component => getId(component) === selectedId);
+                            if (index === -1) {
+                                selectedComponent = null;
+                                componentDetailEl.style.display = 'none';
+                            } else if (delta.updated.some(component => getId(component) === selectedId)) {
+                                showComponentDetail(index);
+                            }
+                        }
+                    };
+                }
+                
                 // Execute component analysis
                 async function analyzeComponents() {
                     try {
@@ -439,14 +531,15 @@ export class ComponentServer {
                     
                     const searchTerm = searchInput.value.toLowerCase();
                     const filteredComponents = searchTerm 
-                        ? components.filter(c => c.name.toLowerCase().includes(searchTerm) || c.filePath.toLowerCase().includes(searchTerm))
+                        ? components.filter(c => (c.displayName || c.name).toLowerCase().includes(searchTerm) || c.filePath.toLowerCase().includes(searchTerm))
                         : components;
                     
                     componentListEl.innerHTML = filteredComponents.map(comp => \`
-                        <div class="component-item" data-id="\${comp.filePath}" onclick="showComponentDetail('\${comp.filePath}')">
-                            <h3>\${comp.name}</h3>
+                        <div class="component-item" data-id="\${comp.filePath}" onclick="showComponentDetail(\${components.indexOf(comp)})">
+                            <h3>\${comp.displayName || comp.name}</h3>
                             <div>\${comp.filePath}</div>
                             <div>
+                                \${comp.kind === 'class' ? '<span class="badge badge-state">Class</span>' : ''}
                                 \${comp.props.length > 0 ? \`<span class="badge badge-prop">Props: \${comp.props.length}</span>\` : ''}
                                 \${comp.states.length > 0 ? \`<span class="badge badge-state">State: \${comp.states.length}</span>\` : ''}
                                 \${comp.hooks.length > 0 ? \`<span class="badge badge-hook">Hooks: \${comp.hooks.length}</span>\` : ''}
@@ -461,15 +554,15 @@ export class ComponentServer {
                 }
                 
                 // Show component detail
-                function showComponentDetail(filePath) {
-                    const component = components.find(c => c.filePath === filePath);
+                function showComponentDetail(index) {
+                    const component = components[index];
                     if (!component) return;
                     
                     selectedComponent = component;
                     
                     // Generate detail HTML
                     let html = \`
-                        <h2>\${component.name}</h2>
+                        <h2>\${component.displayName || component.name}</h2>
                         <p>\${component.filePath}</p>
                         \${component.description ? \`<p>\${component.description}</p>\` : ''}
                     \`;
@@ -518,10 +611,12 @@ export class ComponentServer {
                                             <span class="label">\${state.name}</span>
                                             <span class="badge badge-state">state</span>
                                         </div>
-                                        <div>
-                                            <span class="label">Setter:</span>
-                                            <span class="value">\${state.setter}</span>
-                                        </div>
+                                        \${state.setter ? \`
+                                            <div>
+                                                <span class="label">Setter:</span>
+                                                <span class="value">\${state.setter}</span>
+                                            </div>
+                                        \` : ''}
                                         \${state.initialValue ? \`
                                             <div>
                                                 <span class="label">Initial value:</span>
@@ -539,6 +634,15 @@ export class ComponentServer {
                         html += \`
                             <div class="section">
                                 <div class="section-title">Hooks (\${component.hooks.length})</div>
+                                \${component.hookCounts ? \`
+                                    <div class="item">
+                                        <span class="label">Calls per hook:</span>
+                                        <span>\${Object.entries(component.hookCounts)
+                                            .sort((a, b) => b[1] - a[1])
+                                            .map(([name, count]) => count > 1 ? \`\${name} ×\${count}\` : name)
+                                            .join(', ')}</span>
+                                    </div>
+                                \` : ''}
                                 \${component.hooks.map(hook => \`
                                     <div class="item">
                                         <div>
@@ -613,6 +717,48 @@ export class ComponentServer {
                         \`;
                     }
                     
+                    // Class component section
+                    if (component.classInfo) {
+                        const classInfo = component.classInfo;
+                        html += \`
+                            <div class="section">
+                                <div class="section-title">Class Component (\${classInfo.superClass})</div>
+                                <div class="item">
+                                    \${classInfo.lifecycleMethods.length > 0 ? \`
+                                        <div>
+                                            <span class="label">Lifecycle:</span>
+                                            <span class="value">[\${classInfo.lifecycleMethods.join(', ')}]</span>
+                                        </div>
+                                    \` : ''}
+                                    \${classInfo.setStateCalls.length > 0 ? \`
+                                        <div>
+                                            <span class="label">setState:</span>
+                                            <span>\${classInfo.setStateCalls.map(call => \`\${call.callLocation.line}:\${call.callLocation.column} {\${call.fields.join(', ')}}\`).join(', ')}</span>
+                                        </div>
+                                    \` : ''}
+                                    \${classInfo.contextType ? \`
+                                        <div>
+                                            <span class="label">Context:</span>
+                                            <span class="value">\${classInfo.contextType}</span>
+                                        </div>
+                                    \` : ''}
+                                    \${classInfo.defaultProps && classInfo.defaultProps.length > 0 ? \`
+                                        <div>
+                                            <span class="label">Defaults:</span>
+                                            <span class="value">[\${classInfo.defaultProps.join(', ')}]</span>
+                                        </div>
+                                    \` : ''}
+                                    \${classInfo.propTypes && classInfo.propTypes.length > 0 ? \`
+                                        <div>
+                                            <span class="label">PropTypes:</span>
+                                            <span class="value">[\${classInfo.propTypes.join(', ')}]</span>
+                                        </div>
+                                    \` : ''}
+                                </div>
+                            </div>
+                        \`;
+                    }
+                    
                     componentDetailEl.innerHTML = html;
                     componentDetailEl.style.display = 'block';
                     
@@ -627,7 +773,9 @@ export class ComponentServer {
                         'mobx': 'MobX',
                         'recoil': 'Recoil',
                         'zustand': 'Zustand',
-                        'jotai': 'Jotai'
+                        'jotai': 'Jotai',
+                        'react-query': 'TanStack Query',
+                        'swr': 'SWR'
                     };
                     return storeNames[type] || type;
                 }
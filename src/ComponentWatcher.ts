@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { ComponentInfo } from './ReactComponentAnalyzer';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface FileChanges {
+    // Created or modified files
+    changed: string[];
+    // Deleted files and directories
+    deleted: string[];
+}
+
+export interface ComponentDelta {
+    // Components that were added or whose analysis changed
+    updated: ComponentInfo[];
+    // Ids of the components that no longer exist
+    removed: string[];
+}
+
+// Changes arriving within this many milliseconds are analyzed together
+const DEBOUNCE_DELAY = 300;
+
+/**
+ * Returns the components that were added, changed or removed between two analysis results.
+ */
+export function diffComponents(previous: ComponentInfo[], next: ComponentInfo[]): ComponentDelta {
+    const previousById = new Map(previous.map(component => [getComponentId(component), JSON.stringify(component)]));
+    const nextIds = new Set(next.map(component => getComponentId(component)));
+
+    return {
+        updated: next.filter(component => previousById.get(getComponentId(component)) !== JSON.stringify(component)),
+        removed: Array.from(previousById.keys()).filter(id => !nextIds.has(id))
+    };
+}
+
+/**
+ * Watches the workspace source files and reports changes in batches, so that analysis results
+ * can be updated while editing. Batches are handled one at a time.
+ */
+export class ComponentWatcher implements vscode.Disposable {
+    private workspaceRoot: string;
+    private onDidChangeFiles: (changes: FileChanges) => Promise<void>;
+    private watcher?: vscode.FileSystemWatcher;
+    private deleteWatcher?: vscode.FileSystemWatcher;
+    private pending = new Map<string, 'changed' | 'deleted'>();
+    private timer?: NodeJS.Timeout;
+    private processing: Promise<void> = Promise.resolve();
+
+    constructor(workspaceRoot: string, onDidChangeFiles: (changes: FileChanges) => Promise<void>) {
+        this.workspaceRoot = workspaceRoot;
+        this.onDidChangeFiles = onDidChangeFiles;
+    }
+
+    /**
+     * Starts watching, unless already watching.
+     */
+    public start(): void {
+        if (this.watcher) {
+            return;
+        }
+
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.workspaceRoot, '**/*.{js,jsx,ts,tsx}'), false, false, true);
+        this.watcher.onDidCreate(uri => this.queue(uri.fsPath, 'changed'));
+        this.watcher.onDidChange(uri => this.queue(uri.fsPath, 'changed'));
+        // Deleting a directory is reported for the directory only, which the source file pattern does not match
+        this.deleteWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.workspaceRoot, '**/*'), true, true, false);
+        this.deleteWatcher.onDidDelete(uri => this.queue(uri.fsPath, 'deleted'));
+    }
+
+    /**
+     * Stops watching and drops changes that were not reported yet.
+     */
+    public stop(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.deleteWatcher?.dispose();
+        this.deleteWatcher = undefined;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.pending.clear();
+    }
+
+    public dispose(): void {
+        this.stop();
+    }
+
+    /**
+     * Records a change and restarts the debounce timer.
+     */
+    private queue(filePath: string, kind: 'changed' | 'deleted'): void {
+        // The last event wins: a file deleted and created again is a change
+        this.pending.set(filePath, kind);
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.flush(), DEBOUNCE_DELAY);
+    }
+
+    /**
+     * Reports the pending changes after the batch being handled, if any.
+     */
+    private flush(): void {
+        this.timer = undefined;
+        const changes: FileChanges = { changed: [], deleted: [] };
+        for (const [filePath, kind] of this.pending) {
+            changes[kind].push(filePath);
+        }
+        this.pending.clear();
+
+        this.processing = this.processing
+            .then(() => this.onDidChangeFiles(changes))
+            .catch(error => console.error('Error handling file changes:', error));
+    }
+}
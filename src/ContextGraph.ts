@@ -0,0 +1,270 @@
+import * as path from 'path';
+import { ComponentInfo, ContextDefinitionInfo } from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+import { RenderGraph, getComponentId } from './ComponentRenderGraph';
+import { HookGraph } from './HookCompositionGraph';
+
+export interface ContextProviderSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    line: number;
+    column: number;
+    value?: string;
+}
+
+export interface ContextConsumerSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    // useContext, consumer, contextType or the custom hook reading the context
+    via: string;
+    providerFound: boolean;
+}
+
+export interface ContextNode {
+    id: string;
+    definition: ContextDefinitionInfo;
+    providers: ContextProviderSite[];
+    consumers: ContextConsumerSite[];
+}
+
+export interface ContextGraph {
+    contexts: Map<string, ContextNode>;
+}
+
+interface ContextReference {
+    name: string;
+    source?: string;
+    importedName?: string;
+}
+
+/**
+ * Returns the workspace-unique id of a context.
+ */
+export function getContextId(context: ContextDefinitionInfo): string {
+    return `${context.filePath}#${context.name}`;
+}
+
+/**
+ * Maps each context created with createContext to its providers and consumers,
+ * and flags consumers that are never rendered beneath a matching provider.
+ */
+export class ContextGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Builds the context graph and records the missing providers of each component.
+     */
+    public build(definitions: ContextDefinitionInfo[], renderGraph: RenderGraph, hookGraph: HookGraph): ContextGraph {
+        const contexts = new Map<string, ContextNode>();
+        const definitionsByFile = new Map<string, ContextDefinitionInfo[]>();
+
+        for (const definition of definitions) {
+            contexts.set(getContextId(definition), { id: getContextId(definition), definition, providers: [], consumers: [] });
+            const fileDefinitions = definitionsByFile.get(definition.filePath) || [];
+            fileDefinitions.push(definition);
+            definitionsByFile.set(definition.filePath, fileDefinitions);
+        }
+
+        // Providers, keyed by component and render index
+        const providerContexts = new Map<string, Map<number, string>>();
+        for (const [componentId, component] of renderGraph.components) {
+            const byRenderIndex = new Map<number, string>();
+            for (const provider of component.providers || []) {
+                const contextId = this.resolveContext(component.filePath, provider, definitionsByFile);
+                if (!contextId) {
+                    continue;
+                }
+                byRenderIndex.set(provider.renderIndex, contextId);
+                contexts.get(contextId)!.providers.push({
+                    componentId,
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    line: provider.callLocation.line,
+                    column: provider.callLocation.column,
+                    value: provider.value
+                });
+            }
+            providerContexts.set(componentId, byRenderIndex);
+        }
+
+        const beneathByContext = new Map<string, Set<string>>();
+        for (const contextId of contexts.keys()) {
+            beneathByContext.set(contextId, this.findComponentsBeneathProviders(contextId, renderGraph, providerContexts));
+        }
+
+        // Consumers, reading the context directly or through custom hooks
+        for (const [componentId, component] of renderGraph.components) {
+            const consumed = new Map<string, string>();
+            for (const context of component.contexts) {
+                const contextId = this.resolveContext(component.filePath, context, definitionsByFile);
+                if (contextId && !consumed.has(contextId)) {
+                    consumed.set(contextId, context.kind || 'useContext');
+                }
+            }
+            for (const [contextId, hookName] of this.findContextsThroughHooks(componentId, hookGraph, definitionsByFile)) {
+                if (!consumed.has(contextId)) {
+                    consumed.set(contextId, hookName);
+                }
+            }
+
+            component.missingProviders = [];
+            for (const [contextId, via] of consumed) {
+                const providerFound = beneathByContext.get(contextId)!.has(componentId);
+                const contextNode = contexts.get(contextId)!;
+                contextNode.consumers.push({
+                    componentId,
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    via,
+                    providerFound
+                });
+                if (!providerFound) {
+                    component.missingProviders.push(contextNode.definition.name);
+                }
+            }
+        }
+
+        return { contexts };
+    }
+
+    /**
+     * Finds the components rendered beneath a provider of the context, following render sites downward.
+     */
+    private findComponentsBeneathProviders(
+        contextId: string,
+        renderGraph: RenderGraph,
+        providerContexts: Map<string, Map<number, string>>
+    ): Set<string> {
+        const providesToChildren = new Map<string, boolean>();
+
+        // Checks whether the element at renderIndex, or one of its enclosing elements, provides the context
+        const isEnclosedByProvider = (componentId: string, renderIndex: number | undefined): boolean => {
+            const component = renderGraph.components.get(componentId)!;
+            while (renderIndex !== undefined) {
+                if (providerContexts.get(componentId)?.get(renderIndex) === contextId) {
+                    return true;
+                }
+                const renderInfo = component.renders![renderIndex];
+                const targetId = renderGraph.targets.get(renderInfo);
+                if (targetId && checkProvidesToChildren(targetId)) {
+                    return true;
+                }
+                renderIndex = renderInfo.parentIndex;
+            }
+            return false;
+        };
+
+        // Components that wrap their children in a provider (<ThemeProvider>{children}</ThemeProvider>)
+        const checkProvidesToChildren = (componentId: string): boolean => {
+            if (!providesToChildren.has(componentId)) {
+                providesToChildren.set(componentId, false); // Guards against render cycles
+                const component = renderGraph.components.get(componentId)!;
+                const result = (component.childrenParents || []).some(index => isEnclosedByProvider(componentId, index));
+                providesToChildren.set(componentId, result);
+            }
+            return providesToChildren.get(componentId)!;
+        };
+
+        const beneath = new Set<string>();
+        const queue: string[] = [];
+        for (const [componentId, component] of renderGraph.components) {
+            for (const renderInfo of component.renders || []) {
+                const targetId = renderGraph.targets.get(renderInfo);
+                if (targetId && !beneath.has(targetId) && isEnclosedByProvider(componentId, renderInfo.parentIndex)) {
+                    beneath.add(targetId);
+                    queue.push(targetId);
+                }
+            }
+        }
+
+        // Everything rendered by a component beneath the provider is beneath it too
+        const childrenByParent = new Map<string, string[]>();
+        for (const edge of renderGraph.edges) {
+            childrenByParent.set(edge.parent, [...(childrenByParent.get(edge.parent) || []), edge.child]);
+        }
+        while (queue.length > 0) {
+            const componentId = queue.shift()!;
+            for (const childId of childrenByParent.get(componentId) || []) {
+                if (!beneath.has(childId)) {
+                    beneath.add(childId);
+                    queue.push(childId);
+                }
+            }
+        }
+
+        return beneath;
+    }
+
+    /**
+     * Finds the contexts a component reads through the custom hooks it calls, transitively.
+     */
+    private findContextsThroughHooks(
+        componentId: string,
+        hookGraph: HookGraph,
+        definitionsByFile: Map<string, ContextDefinitionInfo[]>
+    ): Map<string, string> {
+        const contexts = new Map<string, string>();
+        const visited = new Set<string>();
+        const queue = hookGraph.edges.filter(edge => edge.from === componentId).map(edge => edge.to);
+
+        while (queue.length > 0) {
+            const hookId = queue.shift()!;
+            if (visited.has(hookId)) {
+                continue;
+            }
+            visited.add(hookId);
+
+            const hook = hookGraph.hooks.get(hookId)!;
+            for (const context of hook.contexts) {
+                const contextId = this.resolveContext(hook.filePath, context, definitionsByFile);
+                if (contextId && !contexts.has(contextId)) {
+                    contexts.set(contextId, hook.name);
+                }
+            }
+            queue.push(...hookGraph.edges.filter(edge => edge.from === hookId).map(edge => edge.to));
+        }
+
+        return contexts;
+    }
+
+    /**
+     * Resolves a context reference to the createContext call that declares it, following barrel re-exports.
+     */
+    private resolveContext(
+        filePath: string,
+        reference: ContextReference,
+        definitionsByFile: Map<string, ContextDefinitionInfo[]>
+    ): string | null {
+        // Contexts created in the same file
+        if (!reference.source) {
+            const local = (definitionsByFile.get(filePath) || []).find(definition => definition.name === reference.name);
+            return local ? getContextId(local) : null;
+        }
+
+        if (!reference.importedName || reference.importedName === '*') {
+            return null;
+        }
+
+        const resolved = this.resolver.resolve(reference.source, path.join(this.workspaceRoot, filePath));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, reference.importedName);
+        if (!declaration) {
+            return null;
+        }
+
+        const definitions = definitionsByFile.get(path.relative(this.workspaceRoot, declaration.filePath)) || [];
+        const definition = definitions.find(d => d.exportNames?.includes(declaration.exportName));
+        return definition ? getContextId(definition) : null;
+    }
+}
@@ -0,0 +1,441 @@
+import * as fs from 'fs';
+import * as babelParser from '@babel/parser';
+import traverse from '@babel/traverse';
+import { DEPENDENCY_HOOKS } from './ReactComponentAnalyzer';
+
+export type EffectIssueKind = 'missing' | 'unnecessary' | 'stable' | 'unstable' | 'no-array';
+
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+export interface SourceRange {
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+export interface EffectDependencyFix {
+    range: SourceRange;
+    text: string;
+}
+
+export interface EffectDependencyIssue {
+    kind: EffectIssueKind;
+    hook: string;
+    message: string;
+    dependencies: string[];
+    range: SourceRange;
+    fix?: EffectDependencyFix;
+}
+
+interface DeclaredDependency {
+    key: string | null; // null for expressions that are not a plain identifier or property chain
+    node: any;
+}
+
+// Hooks whose results never change between renders, by the index of the stable array element
+const STABLE_HOOK_RESULTS: Record<string, number | null> = {
+    useState: 1,
+    useReducer: 1,
+    useTransition: 1,
+    useActionState: 1,
+    useRef: null,
+    useEffectEvent: null
+};
+
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect', 'useImperativeHandle'];
+
+// Initializers that create a new value on every render
+const UNSTABLE_INITIALIZERS = [
+    'ObjectExpression', 'ArrayExpression', 'ArrowFunctionExpression', 'FunctionExpression',
+    'ClassExpression', 'NewExpression', 'JSXElement', 'JSXFragment', 'RegExpLiteral'
+];
+
+/**
+ * Compares the dependency arrays of effect and memoization hooks with the values their callbacks reference.
+ */
+export class EffectDependencyChecker {
+    /**
+     * Checks every effect, memo and callback hook in a file.
+     */
+    public checkFile(filePath: string): EffectDependencyIssue[] {
+        try {
+            return this.checkSource(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            console.error(`Error checking effect dependencies in ${filePath}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Checks every effect, memo and callback hook in source code.
+     */
+    public checkSource(content: string): EffectDependencyIssue[] {
+        const ast = babelParser.parse(content, {
+            sourceType: 'module',
+            plugins: ['jsx', 'typescript', 'decorators-legacy'],
+        });
+
+        const issues: EffectDependencyIssue[] = [];
+        traverse(ast, {
+            CallExpression: (path: any) => {
+                const hookName = this.getHookName(path.node.callee);
+                if (hookName && DEPENDENCY_HOOKS[hookName] !== undefined) {
+                    issues.push(...this.checkHookCall(path, hookName, content));
+                }
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Checks the dependency array of a single hook call.
+     */
+    private checkHookCall(path: any, hookName: string, content: string): EffectDependencyIssue[] {
+        // Hooks must be called directly in a component or custom hook body
+        const componentPath = path.getFunctionParent();
+        if (!componentPath || !this.isComponentOrHook(componentPath)) {
+            return [];
+        }
+
+        const dependencyIndex = DEPENDENCY_HOOKS[hookName];
+        const callbackPath = path.get(`arguments.${dependencyIndex - 1}`);
+        if (!callbackPath || !callbackPath.node ||
+            (!callbackPath.isArrowFunctionExpression() && !callbackPath.isFunctionExpression())) {
+            return [];
+        }
+
+        const referenced = this.collectReferencedDependencies(callbackPath, componentPath.scope);
+        const required = this.removeCoveredKeys(Array.from(referenced.keys()).filter(key => !referenced.get(key)!.stable));
+        const arrayNode = path.node.arguments[dependencyIndex];
+
+        if (!arrayNode) {
+            const isEffect = EFFECT_HOOKS.includes(hookName);
+            return [{
+                kind: 'no-array',
+                hook: hookName,
+                message: isEffect
+                    ? `React Hook ${hookName} has no dependency array, so it runs after every render.`
+                    : `React Hook ${hookName} has no dependency array, so it recomputes on every render.`,
+                dependencies: required,
+                range: this.getRange(path.node.callee),
+                fix: {
+                    range: { start: this.getRange(callbackPath.node).end, end: this.getRange(callbackPath.node).end },
+                    text: `, [${required.join(', ')}]`
+                }
+            }];
+        }
+
+        if (arrayNode.type !== 'ArrayExpression') {
+            return [];
+        }
+
+        const declared: DeclaredDependency[] = arrayNode.elements
+            .filter((element: any) => element && element.type !== 'SpreadElement')
+            .map((element: any) => ({ key: this.getDependencyKey(element), node: element }));
+
+        const issues: EffectDependencyIssue[] = [];
+        const missing = required.filter(key => !declared.some(dep => dep.key && (key === dep.key || key.startsWith(`${dep.key}.`))));
+        const unnecessary: string[] = [];
+        const stable: string[] = [];
+        const removed = new Set<string>();
+        const seen = new Set<string>();
+
+        for (const dep of declared) {
+            if (!dep.key) {
+                if (UNSTABLE_INITIALIZERS.includes(dep.node.type)) {
+                    issues.push(this.createUnstableIssue(hookName, content.slice(dep.node.start, dep.node.end), dep.node, 'literal'));
+                }
+                continue;
+            }
+
+            const binding = path.scope.getBinding(dep.key.split('.')[0]);
+            const isComponentValue = binding && this.isWithinScope(binding.scope, componentPath.scope);
+            const isUsed = required.some(key => key === dep.key || key.startsWith(`${dep.key}.`) || dep.key!.startsWith(`${key}.`));
+
+            if (seen.has(dep.key)) {
+                if (!unnecessary.includes(dep.key)) {
+                    unnecessary.push(dep.key);
+                }
+            } else if (isComponentValue && this.isStableBinding(binding)) {
+                stable.push(dep.key);
+                removed.add(dep.key);
+            } else if (!isComponentValue) {
+                // Module values and imports never change between renders
+                unnecessary.push(dep.key);
+                removed.add(dep.key);
+            } else if (!EFFECT_HOOKS.includes(hookName) && !isUsed) {
+                // Effects may list extra values on purpose to re-run, memoized values never need them
+                unnecessary.push(dep.key);
+                removed.add(dep.key);
+            } else if (this.isUnstableBinding(binding)) {
+                issues.push(this.createUnstableIssue(hookName, dep.key, dep.node, this.describeBinding(binding)));
+            }
+            seen.add(dep.key);
+        }
+
+        // The fix keeps the first occurrence of every valid dependency, in the declared order
+        const kept: string[] = [];
+        const keptKeys = new Set<string>();
+        for (const dep of declared) {
+            if (dep.key && (removed.has(dep.key) || keptKeys.has(dep.key))) {
+                continue;
+            }
+            if (dep.key) {
+                keptKeys.add(dep.key);
+            }
+            kept.push(content.slice(dep.node.start, dep.node.end));
+        }
+        const fix: EffectDependencyFix = {
+            range: this.getRange(arrayNode),
+            text: `[${[...kept, ...missing.sort()].join(', ')}]`
+        };
+        const range = this.getRange(arrayNode);
+
+        if (missing.length > 0) {
+            issues.push({
+                kind: 'missing',
+                hook: hookName,
+                message: `React Hook ${hookName} has ${this.formatDependencies('missing', missing)}. Include them or remove the dependency array.`,
+                dependencies: missing,
+                range,
+                fix
+            });
+        }
+        if (unnecessary.length > 0) {
+            issues.push({
+                kind: 'unnecessary',
+                hook: hookName,
+                message: `React Hook ${hookName} has ${this.formatDependencies('unnecessary', unnecessary)}. Values that never change between renders or are not used by the callback can be removed.`,
+                dependencies: unnecessary,
+                range,
+                fix
+            });
+        }
+        if (stable.length > 0) {
+            issues.push({
+                kind: 'stable',
+                hook: hookName,
+                message: `React Hook ${hookName} lists ${stable.map(key => `'${key}'`).join(', ')} as a dependency, but state setters, dispatch functions and refs are stable and never change.`,
+                dependencies: stable,
+                range,
+                fix
+            });
+        }
+
+        return issues;
+    }
+
+    /**
+     * Collects the component values a callback references, keyed by the property chain it reads.
+     */
+    private collectReferencedDependencies(callbackPath: any, componentScope: any): Map<string, { stable: boolean }> {
+        const referenced = new Map<string, { stable: boolean }>();
+
+        callbackPath.traverse({
+            ReferencedIdentifier: (refPath: any) => {
+                if (refPath.isJSXIdentifier()) {
+                    return;
+                }
+
+                const binding = refPath.scope.getBinding(refPath.node.name);
+                // Values declared outside the component, or inside the callback itself, are not dependencies
+                if (!binding || !this.isWithinScope(binding.scope, componentScope) ||
+                    this.isWithinScope(binding.scope, callbackPath.scope)) {
+                    return;
+                }
+
+                const key = this.getReferenceKey(refPath);
+                if (!referenced.has(key)) {
+                    referenced.set(key, { stable: this.isStableBinding(binding) });
+                }
+            }
+        });
+
+        return referenced;
+    }
+
+    /**
+     * Builds the property chain a reference reads (props.user.name), stopping before method calls and assignments.
+     */
+    private getReferenceKey(refPath: any): string {
+        let key = refPath.node.name;
+        let current = refPath;
+
+        while ((current.parentPath.isMemberExpression() || current.parentPath.isOptionalMemberExpression()) &&
+            current.parent.object === current.node && !current.parent.computed && current.parent.property.type === 'Identifier') {
+            const member = current.parentPath;
+            const isCalled = (member.parentPath.isCallExpression() || member.parentPath.isOptionalCallExpression()) &&
+                member.parent.callee === member.node;
+            const isAssigned = member.parentPath.isAssignmentExpression() && member.parent.left === member.node;
+            if (isCalled || isAssigned) {
+                break;
+            }
+
+            key += `.${member.node.property.name}`;
+            current = member;
+        }
+
+        return key;
+    }
+
+    /**
+     * Gets the key of a dependency array element, or null when it is not an identifier or property chain.
+     */
+    private getDependencyKey(node: any): string | null {
+        if (node.type === 'Identifier') {
+            return node.name;
+        }
+        if ((node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') &&
+            !node.computed && node.property.type === 'Identifier') {
+            const objectKey = this.getDependencyKey(node.object);
+            return objectKey ? `${objectKey}.${node.property.name}` : null;
+        }
+        return null;
+    }
+
+    /**
+     * Drops keys already covered by a shorter referenced key (props covers props.user).
+     */
+    private removeCoveredKeys(keys: string[]): string[] {
+        return keys
+            .filter(key => !keys.some(other => key.startsWith(`${other}.`)))
+            .sort();
+    }
+
+    /**
+     * Checks if a binding is a state setter, dispatch function, ref or other value React keeps stable.
+     */
+    private isStableBinding(binding: any): boolean {
+        const declarator = binding.path;
+        if (!declarator.isVariableDeclarator() || !declarator.node.init || declarator.node.init.type !== 'CallExpression') {
+            return false;
+        }
+
+        const hookName = this.getHookName(declarator.node.init.callee);
+        if (!hookName || !(hookName in STABLE_HOOK_RESULTS)) {
+            return false;
+        }
+
+        const stableIndex = STABLE_HOOK_RESULTS[hookName];
+        const id = declarator.node.id;
+        if (stableIndex === null) {
+            return id.type === 'Identifier' && id.name === binding.identifier.name;
+        }
+        const element = id.type === 'ArrayPattern' ? id.elements[stableIndex] : null;
+        return !!element && element.type === 'Identifier' && element.name === binding.identifier.name;
+    }
+
+    /**
+     * Checks if a binding is an object, array or function created on every render.
+     */
+    private isUnstableBinding(binding: any): boolean {
+        if (binding.path.isFunctionDeclaration() || binding.path.isClassDeclaration()) {
+            return true;
+        }
+        return binding.path.isVariableDeclarator() && !!binding.path.node.init &&
+            binding.path.node.id.type === 'Identifier' && UNSTABLE_INITIALIZERS.includes(binding.path.node.init.type);
+    }
+
+    /**
+     * Describes the kind of value a binding creates on every render.
+     */
+    private describeBinding(binding: any): string {
+        const type = binding.path.isVariableDeclarator() ? binding.path.node.init.type : binding.path.node.type;
+        if (type === 'ObjectExpression') {
+            return 'object';
+        }
+        if (type === 'ArrayExpression') {
+            return 'array';
+        }
+        if (type.includes('Function')) {
+            return 'function';
+        }
+        return 'value';
+    }
+
+    /**
+     * Creates the issue of a dependency that changes on every render.
+     */
+    private createUnstableIssue(hookName: string, name: string, node: any, description: string): EffectDependencyIssue {
+        const advice = description === 'literal'
+            ? 'Move it out of the dependency array.'
+            : `Move it inside the ${hookName} callback or wrap it in ${description === 'function' ? 'useCallback' : 'useMemo'}.`;
+        return {
+            kind: 'unstable',
+            hook: hookName,
+            message: `The ${description === 'literal' ? 'literal' : description} '${name}' changes on every render, so the dependencies of ${hookName} change on every render too. ${advice}`,
+            dependencies: [name],
+            range: this.getRange(node)
+        };
+    }
+
+    /**
+     * Formats a list of dependencies for a message ('a', 'b' and 'c').
+     */
+    private formatDependencies(kind: string, keys: string[]): string {
+        const quoted = keys.map(key => `'${key}'`);
+        if (quoted.length === 1) {
+            return `${kind === 'missing' ? 'a missing' : 'an unnecessary'} dependency: ${quoted[0]}`;
+        }
+        return `${kind} dependencies: ${quoted.slice(0, -1).join(', ')} and ${quoted[quoted.length - 1]}`;
+    }
+
+    /**
+     * Checks if a scope is the given scope or nested inside it.
+     */
+    private isWithinScope(scope: any, ancestor: any): boolean {
+        for (let current = scope; current; current = current.parent) {
+            if (current === ancestor) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Checks if a function is a component or custom hook, by its own name or the variable it is assigned to.
+     */
+    private isComponentOrHook(functionPath: any): boolean {
+        let name: string | undefined = functionPath.node.id?.name;
+        if (!name) {
+            // memo(() => ...) and forwardRef(...) wrap the function in calls before the declarator
+            let current = functionPath.parentPath;
+            while (current && current.isCallExpression()) {
+                current = current.parentPath;
+            }
+            if (current && current.isVariableDeclarator() && current.node.id.type === 'Identifier') {
+                name = current.node.id.name;
+            } else if (current && current.isExportDefaultDeclaration()) {
+                return true;
+            }
+        }
+        return !!name && (/^[A-Z]/.test(name) || /^use[A-Z0-9]/.test(name));
+    }
+
+    /**
+     * Gets the hook name of a callee (useEffect, React.useEffect), or null when it is not a hook.
+     */
+    private getHookName(callee: any): string | null {
+        if (callee.type === 'Identifier' && callee.name.startsWith('use')) {
+            return callee.name;
+        }
+        if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier' && callee.object.name === 'React' &&
+            callee.property.type === 'Identifier' && callee.property.name.startsWith('use')) {
+            return callee.property.name;
+        }
+        return null;
+    }
+
+    /**
+     * Gets the source range of a node.
+     */
+    private getRange(node: any): SourceRange {
+        return {
+            start: { line: node.loc.start.line, column: node.loc.start.column },
+            end: { line: node.loc.end.line, column: node.loc.end.column }
+        };
+    }
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { EffectDependencyChecker, EffectDependencyIssue, SourceRange } from './EffectDependencyChecker';
+
+const DIAGNOSTIC_CODE = 'exhaustive-deps';
+
+/**
+ * Publishes effect dependency issues as diagnostics and offers quick fixes that rewrite the dependency array.
+ */
+export class EffectDependencyDiagnostics implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private checker: EffectDependencyChecker;
+    private diagnostics: vscode.DiagnosticCollection;
+
+    constructor(checker: EffectDependencyChecker) {
+        this.checker = checker;
+        this.diagnostics = vscode.languages.createDiagnosticCollection('reactBroX.effectDependencies');
+    }
+
+    /**
+     * Replaces the diagnostics of a file with issues found elsewhere, such as on an analysis worker.
+     */
+    public setIssues(filePath: string, issues: EffectDependencyIssue[]): void {
+        this.diagnostics.set(vscode.Uri.file(filePath), this.toDiagnostics(issues));
+    }
+
+    /**
+     * Removes the diagnostics of deleted files.
+     */
+    public removeFiles(filePaths: string[]): void {
+        for (const filePath of filePaths) {
+            this.diagnostics.delete(vscode.Uri.file(filePath));
+        }
+    }
+
+    /**
+     * Checks an open document and replaces its diagnostics.
+     */
+    public checkDocument(document: vscode.TextDocument): void {
+        this.diagnostics.set(document.uri, this.toDiagnostics(this.checkText(document.getText())));
+    }
+
+    /**
+     * Creates the quick fixes of the effect dependency diagnostics in a range.
+     */
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.code === DIAGNOSTIC_CODE);
+        if (diagnostics.length === 0) {
+            return [];
+        }
+
+        // The document may have changed since the diagnostics were published, so the fixes are recomputed
+        const actions: vscode.CodeAction[] = [];
+        for (const issue of this.checkText(document.getText())) {
+            const issueRange = this.toRange(issue.range);
+            if (!issue.fix || !issueRange.intersection(range)) {
+                continue;
+            }
+
+            const action = new vscode.CodeAction(
+                issue.kind === 'no-array' ? `Add dependency array ${issue.fix.text.slice(2)}` : `Update the dependencies to ${issue.fix.text}`,
+                vscode.CodeActionKind.QuickFix
+            );
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, this.toRange(issue.fix.range), issue.fix.text);
+            action.diagnostics = diagnostics.filter(diagnostic => diagnostic.range.isEqual(issueRange));
+            action.isPreferred = true;
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    /**
+     * Removes every published diagnostic.
+     */
+    public clear(): void {
+        this.diagnostics.clear();
+    }
+
+    public dispose(): void {
+        this.diagnostics.dispose();
+    }
+
+    /**
+     * Checks source code, treating code that does not parse as having no issues.
+     */
+    private checkText(content: string): EffectDependencyIssue[] {
+        try {
+            return this.checker.checkSource(content);
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Converts issues to diagnostics.
+     */
+    private toDiagnostics(issues: EffectDependencyIssue[]): vscode.Diagnostic[] {
+        return issues.map(issue => {
+            // Effects without an array may run on every render on purpose
+            const severity = issue.kind === 'no-array' && !['useMemo', 'useCallback'].includes(issue.hook)
+                ? vscode.DiagnosticSeverity.Information
+                : vscode.DiagnosticSeverity.Warning;
+            const diagnostic = new vscode.Diagnostic(this.toRange(issue.range), issue.message, severity);
+            diagnostic.source = 'ReactBroX';
+            diagnostic.code = DIAGNOSTIC_CODE;
+            return diagnostic;
+        });
+    }
+
+    /**
+     * Converts a parser range (1-based lines) to an editor range.
+     */
+    private toRange(range: SourceRange): vscode.Range {
+        return new vscode.Range(range.start.line - 1, range.start.column, range.end.line - 1, range.end.column);
+    }
+}
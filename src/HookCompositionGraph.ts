@@ -0,0 +1,174 @@
+import * as path from 'path';
+import { ComponentInfo, CustomHookInfo, HookAccessInfo, HookCallInfo } from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface HookEdge {
+    from: string;
+    to: string;
+    usageCount: number;
+}
+
+export interface HookGraph {
+    hooks: Map<string, CustomHookInfo>;
+    edges: HookEdge[];
+}
+
+/**
+ * Returns the workspace-unique id of a custom hook.
+ */
+export function getHookId(hook: CustomHookInfo): string {
+    return `${hook.filePath}#${hook.name}`;
+}
+
+/**
+ * Returns the custom hooks a component or hook calls, directly or through other hooks.
+ */
+export function getReachableHooks(hookGraph: HookGraph, callerId: string): CustomHookInfo[] {
+    const reachable: CustomHookInfo[] = [];
+    const visited = new Set<string>();
+    const queue = hookGraph.edges.filter(edge => edge.from === callerId).map(edge => edge.to);
+
+    while (queue.length > 0) {
+        const hookId = queue.shift()!;
+        if (visited.has(hookId)) {
+            continue;
+        }
+        visited.add(hookId);
+
+        const hook = hookGraph.hooks.get(hookId);
+        if (hook) {
+            reachable.push(hook);
+        }
+        queue.push(...hookGraph.edges.filter(edge => edge.from === hookId).map(edge => edge.to));
+    }
+
+    return reachable;
+}
+
+/**
+ * Builds the graph of which components and hooks call which custom hooks.
+ */
+export class HookCompositionGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Builds the hook graph and records the state, context and store access
+     * each component gets through custom hooks, transitively.
+     */
+    public build(components: ComponentInfo[], hooks: CustomHookInfo[]): HookGraph {
+        const hooksById = new Map<string, CustomHookInfo>();
+        const hooksByFile = new Map<string, CustomHookInfo[]>();
+
+        for (const hook of hooks) {
+            hooksById.set(getHookId(hook), hook);
+            const fileHooks = hooksByFile.get(hook.filePath) || [];
+            fileHooks.push(hook);
+            hooksByFile.set(hook.filePath, fileHooks);
+        }
+
+        // Group calls by caller and hook
+        const edgesByKey = new Map<string, HookEdge>();
+        const calledHooks = new Map<string, CustomHookInfo[]>();
+        const addCalls = (callerId: string, filePath: string, hookCalls: HookCallInfo[]) => {
+            const targets: CustomHookInfo[] = [];
+            for (const hookCall of hookCalls) {
+                const target = this.resolveHookCall(filePath, hookCall, hooksByFile);
+                if (!target) {
+                    continue;
+                }
+
+                const targetId = getHookId(target);
+                const key = `${callerId}->${targetId}`;
+                let edge = edgesByKey.get(key);
+                if (!edge) {
+                    edge = { from: callerId, to: targetId, usageCount: 0 };
+                    edgesByKey.set(key, edge);
+                    targets.push(target);
+                }
+                edge.usageCount++;
+            }
+            calledHooks.set(callerId, targets);
+        };
+
+        for (const hook of hooks) {
+            addCalls(getHookId(hook), hook.filePath, hook.hookCalls);
+        }
+        for (const component of components) {
+            addCalls(getComponentId(component), component.filePath, component.hookCalls || []);
+        }
+
+        for (const component of components) {
+            component.hookAccess = this.collectHookAccess(calledHooks.get(getComponentId(component)) || [], calledHooks);
+        }
+
+        return { hooks: hooksById, edges: Array.from(edgesByKey.values()) };
+    }
+
+    /**
+     * Collects the custom hooks reachable from the directly called hooks, with what they access.
+     */
+    private collectHookAccess(directHooks: CustomHookInfo[], calledHooks: Map<string, CustomHookInfo[]>): HookAccessInfo {
+        const access: HookAccessInfo = { hooks: [], states: [], contexts: [], stores: [] };
+        const visited = new Set<string>();
+        const queue = [...directHooks];
+
+        while (queue.length > 0) {
+            const hook = queue.shift()!;
+            const hookId = getHookId(hook);
+            if (visited.has(hookId)) {
+                continue;
+            }
+            visited.add(hookId);
+
+            access.hooks.push(hook.name);
+            for (const state of hook.states) {
+                access.states.push({ name: state.name, hook: hook.name });
+            }
+            for (const context of hook.contexts) {
+                access.contexts.push({ name: context.name, hook: hook.name });
+            }
+            for (const store of hook.storeUsage || []) {
+                const items = [...store.selectors, ...store.actions];
+                access.stores.push({ name: items.length > 0 ? `${store.type} (${items.join(', ')})` : store.type, hook: hook.name });
+            }
+
+            queue.push(...(calledHooks.get(hookId) || []));
+        }
+
+        return access;
+    }
+
+    /**
+     * Resolves a hook call to the analyzed custom hook that declares it, following barrel re-exports.
+     */
+    private resolveHookCall(filePath: string, hookCall: HookCallInfo, hooksByFile: Map<string, CustomHookInfo[]>): CustomHookInfo | null {
+        // Hooks defined in the same file
+        if (!hookCall.source) {
+            return (hooksByFile.get(filePath) || []).find(hook => hook.name === hookCall.name) || null;
+        }
+
+        if (!hookCall.importedName || hookCall.importedName === '*') {
+            return null;
+        }
+
+        const resolved = this.resolver.resolve(hookCall.source, path.join(this.workspaceRoot, filePath));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, hookCall.importedName);
+        if (!declaration) {
+            return null;
+        }
+
+        const hooks = hooksByFile.get(path.relative(this.workspaceRoot, declaration.filePath)) || [];
+        return hooks.find(hook => hook.exportNames?.includes(declaration.exportName)) || null;
+    }
+}
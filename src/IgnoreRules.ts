@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Matches workspace-relative paths against .gitignore-style patterns.
+ */
+export class IgnoreRules {
+    private rules: IgnoreRule[] = [];
+
+    /**
+     * Loads the rules of ignore files at the workspace root (.gitignore, .nxignore).
+     */
+    public static load(workspaceRoot: string, fileNames: string[]): IgnoreRules {
+        const ignoreRules = new IgnoreRules();
+
+        for (const fileName of fileNames) {
+            const filePath = path.join(workspaceRoot, fileName);
+            if (fs.existsSync(filePath)) {
+                ignoreRules.addPatterns(fs.readFileSync(filePath, 'utf8').split(/\r?\n/));
+            }
+        }
+
+        return ignoreRules;
+    }
+
+    /**
+     * Creates rules that add the patterns of an ignore file in a nested directory to these rules.
+     */
+    public extend(patterns: string[], baseDir: string): IgnoreRules {
+        const ignoreRules = new IgnoreRules();
+        ignoreRules.rules = [...this.rules];
+        ignoreRules.addPatterns(patterns, baseDir);
+        return ignoreRules;
+    }
+
+    /**
+     * Adds .gitignore-style patterns, relative to a workspace-relative directory when given.
+     */
+    public addPatterns(patterns: string[], baseDir: string = ''): void {
+        const base = baseDir.split(path.sep).join('/').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        for (const line of patterns) {
+            let pattern = line.trim();
+            if (!pattern || pattern.startsWith('#')) {
+                continue;
+            }
+
+            const negated = pattern.startsWith('!');
+            if (negated) {
+                pattern = pattern.slice(1);
+            }
+
+            const directoryOnly = pattern.endsWith('/');
+            if (directoryOnly) {
+                pattern = pattern.slice(0, -1);
+            }
+
+            // Patterns with a slash are relative to the directory of the ignore file, others match at any depth below it
+            const anchored = pattern.includes('/');
+            if (pattern.startsWith('/')) {
+                pattern = pattern.slice(1);
+            }
+
+            const body = this.globToRegExpSource(pattern);
+            const source = base
+                ? (anchored ? `^${base}/${body}$` : `^${base}/(?:.*/)?${body}$`)
+                : (anchored ? `^${body}$` : `(^|/)${body}$`);
+            this.rules.push({
+                regex: new RegExp(source),
+                negated,
+                directoryOnly
+            });
+        }
+    }
+
+    /**
+     * Checks if a workspace-relative path is ignored. The last matching rule wins.
+     */
+    public isIgnored(relativePath: string, isDirectory: boolean): boolean {
+        const normalizedPath = relativePath.split(path.sep).join('/');
+        let ignored = false;
+
+        for (const rule of this.rules) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (rule.regex.test(normalizedPath)) {
+                ignored = !rule.negated;
+            }
+        }
+
+        return ignored;
+    }
+
+    /**
+     * Converts a glob pattern to a regular expression source.
+     */
+    private globToRegExpSource(pattern: string): string {
+        let source = '';
+
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '*' && pattern[i + 1] === '*') {
+                // "**/" matches zero or more directories, a trailing "**" matches everything
+                if (pattern[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else {
+                source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        }
+
+        return source;
+    }
+}
@@ -0,0 +1,121 @@
+import * as path from 'path';
+import { ComponentInfo, MobxStoreInfo, MobxUsageInfo, StoreInfo } from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface MobxConsumerSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    members: string[];
+    line: number;
+}
+
+export interface MobxStoreNode {
+    id: string;
+    store: MobxStoreInfo;
+    consumers: MobxConsumerSite[];
+}
+
+/**
+ * Returns the workspace-unique id of a MobX store.
+ */
+export function getMobxStoreId(store: MobxStoreInfo): string {
+    return `${store.filePath}#${store.name}`;
+}
+
+/**
+ * Resolves the store instances components read to the MobX stores that define them, and adds the
+ * observables each component reads and the actions it calls to its store usage.
+ */
+export class MobxStoreGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Links consumers to stores and records the resolved store members in the mobx store usage of every component.
+     */
+    public build(stores: MobxStoreInfo[], components: ComponentInfo[]): Map<string, MobxStoreNode> {
+        const nodes = new Map<string, MobxStoreNode>();
+        for (const store of stores) {
+            nodes.set(getMobxStoreId(store), { id: getMobxStoreId(store), store, consumers: [] });
+        }
+
+        for (const component of components) {
+            for (const usage of component.mobxUsage || []) {
+                // Candidates that are not MobX stores (utilities, CSS modules) are dropped
+                const store = this.resolveStore(component.filePath, usage, stores);
+                if (!store) {
+                    continue;
+                }
+
+                nodes.get(getMobxStoreId(store))!.consumers.push({
+                    componentId: getComponentId(component),
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    members: usage.members,
+                    line: usage.location.line
+                });
+
+                const storeInfo = this.getStoreInfo(component);
+                for (const member of usage.members) {
+                    const category = store.actions.includes(member) ? 'actions' : 'selectors';
+                    const item = `${usage.reference}.${member}`;
+                    if (!storeInfo[category].includes(item)) {
+                        storeInfo[category].push(item);
+                    }
+                }
+            }
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Gets the mobx store usage of a component, creating it when the component only reads imported stores.
+     */
+    private getStoreInfo(component: ComponentInfo): StoreInfo {
+        if (!component.storeUsage) {
+            component.storeUsage = [];
+        }
+        let storeInfo = component.storeUsage.find(store => store.type === 'mobx');
+        if (!storeInfo) {
+            storeInfo = { type: 'mobx', actions: [], selectors: [] };
+            component.storeUsage.push(storeInfo);
+        }
+        return storeInfo;
+    }
+
+    /**
+     * Resolves a store reference to the store class or object that declares it, following barrel re-exports.
+     */
+    private resolveStore(filePath: string, usage: MobxUsageInfo, stores: MobxStoreInfo[]): MobxStoreInfo | null {
+        // Stores created in the same file
+        if (!usage.source) {
+            return stores.find(store =>
+                store.filePath === filePath && (store.name === usage.reference || store.instances.includes(usage.reference))) || null;
+        }
+
+        if (!usage.importedName || usage.importedName === '*') {
+            return null;
+        }
+
+        const resolved = this.resolver.resolve(usage.source, path.join(this.workspaceRoot, filePath));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, usage.importedName);
+        if (!declaration) {
+            return null;
+        }
+
+        const declarationPath = path.relative(this.workspaceRoot, declaration.filePath);
+        return stores.find(store => store.filePath === declarationPath && store.exportNames?.includes(declaration.exportName)) || null;
+    }
+}
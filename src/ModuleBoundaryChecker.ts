@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as babelParser from '@babel/parser';
+import traverse from '@babel/traverse';
+import { DependencyInfo, ProjectInfo } from './NxProjectAnalyzer';
+
+export interface DepConstraint {
+    sourceTag?: string;
+    allSourceTags?: string[];
+    onlyDependOnLibsWithTags?: string[];
+    notDependOnLibsWithTags?: string[];
+}
+
+export interface BoundaryRules {
+    configFile: string;
+    severity: 'error' | 'warn';
+    depConstraints: DepConstraint[];
+}
+
+export interface BoundaryViolation {
+    dependency: DependencyInfo;
+    constraint: DepConstraint;
+    message: string;
+}
+
+// ESLint configuration files, in the order ESLint picks them
+const ESLINT_CONFIG_FILES = [
+    'eslint.config.js',
+    'eslint.config.mjs',
+    'eslint.config.cjs',
+    '.eslintrc.js',
+    '.eslintrc.cjs',
+    '.eslintrc.json',
+    '.eslintrc'
+];
+
+const RULE_NAMES = ['@nx/enforce-module-boundaries', '@nrwl/nx/enforce-module-boundaries'];
+
+/**
+ * Evaluates the `@nx/enforce-module-boundaries` tag constraints against project dependencies.
+ */
+export class ModuleBoundaryChecker {
+    private workspaceRoot: string;
+
+    constructor(workspaceRoot: string) {
+        this.workspaceRoot = workspaceRoot;
+    }
+
+    /**
+     * Reads the depConstraints of the module boundaries rule from the root ESLint config.
+     * Returns null when no config enables the rule.
+     */
+    public loadRules(): BoundaryRules | null {
+        for (const fileName of ESLINT_CONFIG_FILES) {
+            const configFile = path.join(this.workspaceRoot, fileName);
+            if (!fs.existsSync(configFile)) {
+                continue;
+            }
+
+            try {
+                const content = fs.readFileSync(configFile, 'utf8');
+                const rules = /\.[cm]?js$/.test(fileName)
+                    ? this.readScriptConfig(content)
+                    : this.readJsonConfig(configFile, content);
+                if (rules) {
+                    return { configFile: fileName, ...rules };
+                }
+            } catch (error) {
+                console.error(`Error reading ESLint config ${configFile}:`, error);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Finds the dependencies that break a constraint of the source project's tags.
+     * Only import-based dependencies are checked, as the lint rule does.
+     */
+    public check(projects: Map<string, ProjectInfo>, dependencies: DependencyInfo[], rules: BoundaryRules): BoundaryViolation[] {
+        const violations: BoundaryViolation[] = [];
+
+        for (const dependency of dependencies) {
+            if (dependency.type === 'implicit') {
+                continue;
+            }
+
+            const sourceTags = projects.get(dependency.sourceProject)?.tags || [];
+            const targetTags = projects.get(dependency.targetProject)?.tags || [];
+
+            for (const constraint of rules.depConstraints) {
+                if (!this.appliesTo(constraint, sourceTags)) {
+                    continue;
+                }
+
+                const message = this.getViolationMessage(dependency, constraint, targetTags);
+                if (message) {
+                    violations.push({ dependency, constraint, message });
+                    break;
+                }
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Checks if a constraint applies to a project with the given tags.
+     */
+    private appliesTo(constraint: DepConstraint, sourceTags: string[]): boolean {
+        if (constraint.allSourceTags) {
+            return constraint.allSourceTags.every(pattern => sourceTags.some(tag => this.matchesTag(pattern, tag)));
+        }
+        if (constraint.sourceTag) {
+            return constraint.sourceTag === '*' || sourceTags.some(tag => this.matchesTag(constraint.sourceTag!, tag));
+        }
+        return false;
+    }
+
+    /**
+     * Describes how a dependency breaks a constraint, or returns null when it is allowed.
+     */
+    private getViolationMessage(dependency: DependencyInfo, constraint: DepConstraint, targetTags: string[]): string | null {
+        const source = constraint.sourceTag || constraint.allSourceTags!.join(', ');
+
+        if (constraint.onlyDependOnLibsWithTags) {
+            const allowed = constraint.onlyDependOnLibsWithTags.some(pattern =>
+                pattern === '*' || targetTags.some(tag => this.matchesTag(pattern, tag)));
+            if (!allowed) {
+                return `A project tagged with "${source}" can only depend on libs tagged with ${this.formatTags(constraint.onlyDependOnLibsWithTags)} ` +
+                    `(${dependency.sourceProject} → ${dependency.targetProject})`;
+            }
+        }
+
+        if (constraint.notDependOnLibsWithTags) {
+            const forbiddenTag = constraint.notDependOnLibsWithTags.find(pattern =>
+                targetTags.some(tag => this.matchesTag(pattern, tag)));
+            if (forbiddenTag) {
+                return `A project tagged with "${source}" can not depend on libs tagged with "${forbiddenTag}" ` +
+                    `(${dependency.sourceProject} → ${dependency.targetProject})`;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Matches a tag against an NX tag pattern: an exact tag, a glob such as "scope:*" or a /regex/.
+     */
+    private matchesTag(pattern: string, tag: string): boolean {
+        if (pattern === '*' || pattern === tag) {
+            return true;
+        }
+        if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+            return new RegExp(pattern.slice(1, -1)).test(tag);
+        }
+        if (pattern.includes('*')) {
+            const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+            return new RegExp(`^${source}$`).test(tag);
+        }
+        return false;
+    }
+
+    /**
+     * Formats tag patterns for messages.
+     */
+    private formatTags(tags: string[]): string {
+        return tags.map(tag => `"${tag}"`).join(', ');
+    }
+
+    /**
+     * Reads the rule from a JSON config, including its overrides.
+     */
+    private readJsonConfig(configFile: string, content: string): Omit<BoundaryRules, 'configFile'> | null {
+        // .eslintrc.json allows comments, which the TypeScript config parser accepts
+        const { config, error } = ts.parseConfigFileTextToJson(configFile, content);
+        if (error || !config) {
+            return null;
+        }
+
+        const ruleSets = [config.rules, ...(config.overrides || []).map((override: any) => override.rules)];
+        for (const ruleSet of ruleSets) {
+            for (const ruleName of RULE_NAMES) {
+                const rule = ruleSet?.[ruleName];
+                if (Array.isArray(rule) && this.isEnabled(rule[0]) && rule[1]?.depConstraints) {
+                    return {
+                        severity: this.toSeverity(rule[0]),
+                        depConstraints: rule[1].depConstraints
+                    };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Reads the rule from a JavaScript config by evaluating the literal rule entry.
+     * Constraints built at runtime can not be read.
+     */
+    private readScriptConfig(content: string): Omit<BoundaryRules, 'configFile'> | null {
+        const ast = babelParser.parse(content, {
+            sourceType: 'unambiguous',
+            plugins: ['typescript'],
+            errorRecovery: true
+        });
+
+        let rules: Omit<BoundaryRules, 'configFile'> | null = null;
+        traverse(ast, {
+            ObjectProperty: (path: any) => {
+                const key = path.node.key.type === 'Identifier' ? path.node.key.name : path.node.key.value;
+                if (rules || !RULE_NAMES.includes(key) || path.node.value.type !== 'ArrayExpression') {
+                    return;
+                }
+
+                const [severity, options] = path.node.value.elements.map((element: any) => this.evaluateLiteral(element));
+                if (this.isEnabled(severity) && options?.depConstraints) {
+                    rules = {
+                        severity: this.toSeverity(severity),
+                        depConstraints: options.depConstraints
+                    };
+                    path.stop();
+                }
+            }
+        });
+
+        return rules;
+    }
+
+    /**
+     * Evaluates a literal expression (strings, numbers, booleans, arrays and objects).
+     */
+    private evaluateLiteral(node: any): any {
+        if (!node) {
+            return undefined;
+        }
+
+        switch (node.type) {
+            case 'StringLiteral':
+            case 'NumericLiteral':
+            case 'BooleanLiteral':
+                return node.value;
+            case 'TemplateLiteral':
+                return node.expressions.length === 0 ? node.quasis[0].value.cooked : undefined;
+            case 'ArrayExpression':
+                return node.elements.map((element: any) => this.evaluateLiteral(element));
+            case 'ObjectExpression': {
+                const result: Record<string, any> = {};
+                for (const property of node.properties) {
+                    if (property.type !== 'ObjectProperty' || property.computed) {
+                        continue;
+                    }
+                    const key = property.key.type === 'Identifier' ? property.key.name : property.key.value;
+                    result[key] = this.evaluateLiteral(property.value);
+                }
+                return result;
+            }
+            case 'TSAsExpression':
+            case 'TSSatisfiesExpression':
+                return this.evaluateLiteral(node.expression);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Checks if an ESLint rule severity enables the rule.
+     */
+    private isEnabled(severity: any): boolean {
+        return severity !== 'off' && severity !== 0;
+    }
+
+    /**
+     * Normalizes an ESLint rule severity.
+     */
+    private toSeverity(severity: any): 'error' | 'warn' {
+        return severity === 'warn' || severity === 1 ? 'warn' : 'error';
+    }
+}
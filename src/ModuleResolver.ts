@@ -0,0 +1,485 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as babelParser from '@babel/parser';
+import { ProjectInfo } from './NxProjectAnalyzer';
+
+export interface ResolvedModule {
+    filePath: string;
+    project?: string;
+}
+
+export interface ResolvedExport {
+    filePath: string;
+    exportName: string;
+}
+
+interface PathAlias {
+    pattern: string;
+    targets: string[];
+}
+
+interface WorkspacePackage {
+    name: string;
+    root: string;
+    packageJson: any;
+}
+
+interface ExportTable {
+    localExports: Set<string>;
+    reexports: Map<string, { source: string; importedName: string }>;
+    starSources: string[];
+}
+
+const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs'];
+
+// Conditions checked when resolving package.json exports, in order of preference
+const EXPORT_CONDITIONS = ['types', 'import', 'module', 'default', 'require', 'node', 'browser'];
+
+/**
+ * Resolves import specifiers to workspace files and the NX projects that own them.
+ */
+export class ModuleResolver {
+    private workspaceRoot: string;
+    private projects: ProjectInfo[] = [];
+    private pathAliases: PathAlias[] | null = null;
+    private baseUrl: string;
+    private workspacePackages: WorkspacePackage[] | null = null;
+    private resolveCache = new Map<string, ResolvedModule | null>();
+    private exportTableCache = new Map<string, ExportTable>();
+
+    constructor(workspaceRoot: string) {
+        this.workspaceRoot = workspaceRoot;
+        this.baseUrl = workspaceRoot;
+    }
+
+    /**
+     * Sets the NX projects used to find the owner of resolved files.
+     */
+    public setProjects(projects: Map<string, ProjectInfo>): void {
+        // Longest roots first so nested projects win over their parents
+        this.projects = Array.from(projects.values()).sort((a, b) => b.root.length - a.root.length);
+        this.workspacePackages = null;
+        this.resolveCache.clear();
+    }
+
+    /**
+     * Clears cached resolutions, tsconfig paths and export tables.
+     */
+    public clearCache(): void {
+        this.pathAliases = null;
+        this.workspacePackages = null;
+        this.resolveCache.clear();
+        this.exportTableCache.clear();
+    }
+
+    /**
+     * Resolves an import specifier used in a file to a workspace file.
+     * Returns null for external packages and unresolvable specifiers.
+     */
+    public resolve(specifier: string, fromFile: string): ResolvedModule | null {
+        const cacheKey = `${path.dirname(fromFile)}::${specifier}`;
+        if (this.resolveCache.has(cacheKey)) {
+            return this.resolveCache.get(cacheKey)!;
+        }
+
+        let filePath: string | null = null;
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            filePath = this.resolveFile(path.resolve(path.dirname(fromFile), specifier));
+        } else {
+            filePath = this.resolvePathAlias(specifier) || this.resolveWorkspacePackage(specifier);
+        }
+
+        const resolved = filePath ? { filePath, project: this.getProjectForFile(filePath) } : null;
+        this.resolveCache.set(cacheKey, resolved);
+        return resolved;
+    }
+
+    /**
+     * Follows re-exports (index.ts barrels) to the file that declares an export.
+     */
+    public resolveExport(filePath: string, exportName: string, visited: Set<string> = new Set()): ResolvedExport | null {
+        const visitKey = `${filePath}::${exportName}`;
+        if (visited.has(visitKey)) {
+            return null;
+        }
+        visited.add(visitKey);
+
+        const table = this.getExportTable(filePath);
+        if (table.localExports.has(exportName)) {
+            return { filePath, exportName };
+        }
+
+        const reexport = table.reexports.get(exportName);
+        if (reexport) {
+            const target = this.resolve(reexport.source, filePath);
+            return target ? this.resolveExport(target.filePath, reexport.importedName, visited) : null;
+        }
+
+        // export * never re-exports the default export
+        if (exportName !== 'default') {
+            for (const source of table.starSources) {
+                const target = this.resolve(source, filePath);
+                const resolved = target ? this.resolveExport(target.filePath, exportName, visited) : null;
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Finds the NX project owning a file.
+     */
+    public getProjectForFile(filePath: string): string | undefined {
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        const project = this.projects.find(p =>
+            p.root === '' || p.root === '.' || relativePath === p.root || relativePath.startsWith(p.root + path.sep) || relativePath.startsWith(p.root + '/'));
+        return project?.name;
+    }
+
+    /**
+     * Gets the names a declaration binds, including destructured ones (export const { add, remove } = slice.actions).
+     */
+    private getPatternNames(pattern: any): string[] {
+        switch (pattern.type) {
+            case 'Identifier':
+                return [pattern.name];
+            case 'ObjectPattern':
+                return pattern.properties.flatMap((property: any) =>
+                    this.getPatternNames(property.type === 'RestElement' ? property.argument : property.value));
+            case 'ArrayPattern':
+                return pattern.elements.filter(Boolean).flatMap((element: any) => this.getPatternNames(element));
+            case 'AssignmentPattern':
+                return this.getPatternNames(pattern.left);
+            case 'RestElement':
+                return this.getPatternNames(pattern.argument);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Resolves a path to a file, trying extensions and index files.
+     */
+    private resolveFile(basePath: string): string | null {
+        const candidates = [basePath, ...MODULE_EXTENSIONS.map(ext => basePath + ext)];
+
+        // ESM-style TypeScript imports (./button.js -> ./button.ts)
+        const ext = path.extname(basePath);
+        if (ext === '.js' || ext === '.jsx' || ext === '.mjs') {
+            const withoutExt = basePath.slice(0, -ext.length);
+            candidates.push(withoutExt + '.ts', withoutExt + '.tsx');
+        }
+
+        for (const candidate of candidates) {
+            if (this.isFile(candidate)) {
+                return candidate;
+            }
+        }
+
+        // Directory imports (index.ts barrels)
+        for (const moduleExt of MODULE_EXTENSIONS) {
+            const indexFile = path.join(basePath, 'index' + moduleExt);
+            if (this.isFile(indexFile)) {
+                return indexFile;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Resolves an import through tsconfig compilerOptions.paths aliases (@myorg/ui).
+     */
+    private resolvePathAlias(specifier: string): string | null {
+        let bestMatch: { alias: PathAlias; wildcard: string } | null = null;
+
+        for (const alias of this.getPathAliases()) {
+            const starIndex = alias.pattern.indexOf('*');
+            if (starIndex < 0) {
+                if (alias.pattern === specifier) {
+                    bestMatch = { alias, wildcard: '' };
+                    break;
+                }
+                continue;
+            }
+
+            // Longest prefix wins, as in TypeScript
+            const prefix = alias.pattern.slice(0, starIndex);
+            const suffix = alias.pattern.slice(starIndex + 1);
+            if (specifier.startsWith(prefix) && specifier.endsWith(suffix) &&
+                specifier.length >= prefix.length + suffix.length &&
+                (!bestMatch || prefix.length > bestMatch.alias.pattern.indexOf('*'))) {
+                bestMatch = { alias, wildcard: specifier.slice(prefix.length, specifier.length - suffix.length) };
+            }
+        }
+
+        if (!bestMatch) {
+            return null;
+        }
+
+        for (const target of bestMatch.alias.targets) {
+            const resolved = this.resolveFile(path.resolve(this.baseUrl, target.replace('*', bestMatch.wildcard)));
+            if (resolved) {
+                return resolved;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Reads path aliases from tsconfig.base.json (or tsconfig.json) at the workspace root, following extends.
+     */
+    private getPathAliases(): PathAlias[] {
+        if (this.pathAliases) {
+            return this.pathAliases;
+        }
+
+        this.pathAliases = [];
+        for (const configName of ['tsconfig.base.json', 'tsconfig.json']) {
+            const configPath = path.join(this.workspaceRoot, configName);
+            if (!fs.existsSync(configPath)) {
+                continue;
+            }
+
+            const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+            if (error || !config) {
+                console.error(`Error reading ${configName}:`, error?.messageText);
+                continue;
+            }
+
+            // Only the compiler options are used, so the files the config includes are not listed
+            const parseHost = { ...ts.sys, readDirectory: () => [] };
+            const { options } = ts.parseJsonConfigFileContent(config, parseHost, path.dirname(configPath), undefined, configPath);
+            // Without baseUrl, paths are relative to the config that declares them
+            this.baseUrl = options.baseUrl || (options.pathsBasePath as string | undefined) || this.workspaceRoot;
+            for (const [pattern, targets] of Object.entries(options.paths || {})) {
+                this.pathAliases.push({ pattern, targets });
+            }
+            break;
+        }
+
+        return this.pathAliases;
+    }
+
+    /**
+     * Resolves an import of a package that lives in the workspace, honoring package.json exports.
+     */
+    private resolveWorkspacePackage(specifier: string): string | null {
+        const workspacePackage = this.getWorkspacePackages().find(p =>
+            specifier === p.name || specifier.startsWith(p.name + '/'));
+        if (!workspacePackage) {
+            return null;
+        }
+
+        const subpath = '.' + specifier.slice(workspacePackage.name.length);
+        const packageRoot = path.join(this.workspaceRoot, workspacePackage.root);
+        const packageJson = workspacePackage.packageJson;
+
+        if (packageJson.exports) {
+            for (const target of this.getExportTargets(packageJson.exports, subpath)) {
+                const resolved = this.resolveFile(path.resolve(packageRoot, target));
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
+        if (subpath !== '.') {
+            return this.resolveFile(path.resolve(packageRoot, subpath));
+        }
+
+        // Fall back to entry fields, then to the conventional source entry
+        for (const entry of [packageJson.types, packageJson.module, packageJson.main, 'src/index', 'index']) {
+            if (typeof entry === 'string') {
+                const resolved = this.resolveFile(path.resolve(packageRoot, entry));
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Gets the candidate targets of a package.json exports field for a subpath.
+     */
+    private getExportTargets(exportsField: any, subpath: string): string[] {
+        // "exports": "./index.js" or conditions without subpaths
+        if (typeof exportsField === 'string' || Array.isArray(exportsField) ||
+            !Object.keys(exportsField).some(key => key.startsWith('.'))) {
+            return subpath === '.' ? this.getConditionTargets(exportsField) : [];
+        }
+
+        if (exportsField[subpath] !== undefined) {
+            return this.getConditionTargets(exportsField[subpath]);
+        }
+
+        // Subpath patterns ("./*": "./src/*.ts")
+        for (const [pattern, target] of Object.entries<any>(exportsField)) {
+            const starIndex = pattern.indexOf('*');
+            if (starIndex < 0) {
+                continue;
+            }
+            const prefix = pattern.slice(0, starIndex);
+            const suffix = pattern.slice(starIndex + 1);
+            if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+                const wildcard = subpath.slice(prefix.length, subpath.length - suffix.length);
+                return this.getConditionTargets(target).map(t => t.replace('*', wildcard));
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Flattens conditional exports into target paths in order of preference.
+     */
+    private getConditionTargets(target: any): string[] {
+        if (typeof target === 'string') {
+            return [target];
+        }
+        if (Array.isArray(target)) {
+            return target.flatMap(t => this.getConditionTargets(t));
+        }
+        if (target && typeof target === 'object') {
+            const conditions = [
+                ...EXPORT_CONDITIONS.filter(condition => condition in target),
+                ...Object.keys(target).filter(condition => !EXPORT_CONDITIONS.includes(condition))
+            ];
+            return conditions.flatMap(condition => this.getConditionTargets(target[condition]));
+        }
+        return [];
+    }
+
+    /**
+     * Collects the package.json files of the workspace projects.
+     */
+    private getWorkspacePackages(): WorkspacePackage[] {
+        if (this.workspacePackages) {
+            return this.workspacePackages;
+        }
+
+        this.workspacePackages = [];
+        for (const project of this.projects) {
+            const packageJsonPath = path.join(this.workspaceRoot, project.root, 'package.json');
+            if (project.root === '' || project.root === '.' || !fs.existsSync(packageJsonPath)) {
+                continue;
+            }
+
+            try {
+                const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+                if (packageJson.name) {
+                    this.workspacePackages.push({ name: packageJson.name, root: project.root, packageJson });
+                }
+            } catch (error) {
+                console.error(`Error reading ${packageJsonPath}:`, error);
+            }
+        }
+
+        // Longest names first so that @myorg/ui-kit is not matched by @myorg/ui
+        this.workspacePackages.sort((a, b) => b.name.length - a.name.length);
+        return this.workspacePackages;
+    }
+
+    /**
+     * Parses a file to find what it exports and re-exports.
+     */
+    private getExportTable(filePath: string): ExportTable {
+        const cached = this.exportTableCache.get(filePath);
+        if (cached) {
+            return cached;
+        }
+
+        const table: ExportTable = { localExports: new Set(), reexports: new Map(), starSources: [] };
+        this.exportTableCache.set(filePath, table);
+
+        let ast: any;
+        try {
+            ast = babelParser.parse(fs.readFileSync(filePath, 'utf8'), {
+                sourceType: 'module',
+                plugins: ['jsx', 'typescript', 'decorators-legacy'],
+            });
+        } catch (error) {
+            console.error(`Error parsing ${filePath}:`, error);
+            return table;
+        }
+
+        // Imported bindings that are exported again (import { A } from './a'; export { A })
+        const imports = new Map<string, { source: string; importedName: string }>();
+        for (const statement of ast.program.body) {
+            if (statement.type !== 'ImportDeclaration') {
+                continue;
+            }
+            for (const specifier of statement.specifiers) {
+                if (specifier.type === 'ImportDefaultSpecifier') {
+                    imports.set(specifier.local.name, { source: statement.source.value, importedName: 'default' });
+                } else if (specifier.type === 'ImportSpecifier') {
+                    imports.set(specifier.local.name, { source: statement.source.value, importedName: this.getModuleExportName(specifier.imported) });
+                }
+            }
+        }
+
+        for (const statement of ast.program.body) {
+            if (statement.type === 'ExportAllDeclaration') {
+                table.starSources.push(statement.source.value);
+            } else if (statement.type === 'ExportNamedDeclaration') {
+                const declaration = statement.declaration;
+                if (declaration?.type === 'VariableDeclaration') {
+                    for (const declarator of declaration.declarations) {
+                        for (const name of this.getPatternNames(declarator.id)) {
+                            table.localExports.add(name);
+                        }
+                    }
+                } else if (declaration?.id) {
+                    table.localExports.add(declaration.id.name);
+                }
+
+                for (const specifier of statement.specifiers) {
+                    const exportedName = this.getModuleExportName(specifier.exported);
+                    if (statement.source && specifier.type === 'ExportSpecifier') {
+                        table.reexports.set(exportedName, { source: statement.source.value, importedName: this.getModuleExportName(specifier.local) });
+                    } else if (statement.source && specifier.type === 'ExportNamespaceSpecifier') {
+                        table.localExports.add(exportedName);
+                    } else if (specifier.type === 'ExportSpecifier' && imports.has(specifier.local.name)) {
+                        table.reexports.set(exportedName, imports.get(specifier.local.name)!);
+                    } else {
+                        table.localExports.add(exportedName);
+                    }
+                }
+            } else if (statement.type === 'ExportDefaultDeclaration') {
+                const declaration = statement.declaration;
+                if (declaration.type === 'Identifier' && imports.has(declaration.name)) {
+                    table.reexports.set('default', imports.get(declaration.name)!);
+                } else {
+                    table.localExports.add('default');
+                }
+            }
+        }
+
+        return table;
+    }
+
+    /**
+     * Gets the name of an identifier or string literal used in import/export specifiers.
+     */
+    private getModuleExportName(node: any): string {
+        return node.type === 'Identifier' ? node.name : node.value;
+    }
+
+    /**
+     * Checks if a path is an existing file.
+     */
+    private isFile(filePath: string): boolean {
+        try {
+            return fs.statSync(filePath).isFile();
+        } catch {
+            return false;
+        }
+    }
+}
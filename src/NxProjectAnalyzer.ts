@@ -1,10 +1,24 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as babelParser from '@babel/parser';
+import traverse from '@babel/traverse';
+import { ModuleResolver } from './ModuleResolver';
+import { IgnoreRules } from './IgnoreRules';
+import { ProjectGraphLoader } from './ProjectGraphLoader';
+
+export type DependencyType = 'static' | 'dynamic' | 'implicit';
 
 export interface DependencyInfo {
     sourceProject: string;
     targetProject: string;
+    type: DependencyType;
+    sources: DependencySource[];
+}
+
+export interface DependencySource {
+    file: string;
+    line?: number;
 }
 
 export interface ProjectInfo {
@@ -12,13 +26,48 @@ export interface ProjectInfo {
     root: string;
     sourceRoot: string;
     projectType: string;
+    tags?: string[];
+    targets?: TargetInfo[];
+    implicitDependencies?: string[];
+}
+
+export interface TargetInfo {
+    name: string;
+    executor?: string;
+}
+
+export interface NxAnalyzerOptions {
+    preferGraphCache?: boolean;
+    graphFile?: string;
+}
+
+export interface GraphCacheStatus {
+    filePath: string;
+    stale: boolean;
 }
 
+interface ImportReference {
+    specifier: string;
+    line: number;
+    dynamic: boolean;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Ignore files that exclude directories from project discovery, at the root and in nested directories
+const IGNORE_FILES = ['.gitignore', '.nxignore'];
+
 export class NxProjectAnalyzer {
     private workspaceRoot: string;
+    private resolver: ModuleResolver;
+    private graphLoader: ProjectGraphLoader;
+    private preferGraphCache: boolean;
 
-    constructor(workspaceRoot: string) {
+    constructor(workspaceRoot: string, options: NxAnalyzerOptions = {}) {
         this.workspaceRoot = workspaceRoot;
+        this.resolver = new ModuleResolver(workspaceRoot);
+        this.graphLoader = new ProjectGraphLoader(workspaceRoot, options.graphFile || undefined);
+        this.preferGraphCache = options.preferGraphCache || false;
     }
 
     /**
@@ -34,12 +83,68 @@ export class NxProjectAnalyzer {
         }
     }
 
+    /**
+     * Returns the base branch configured for affected commands in nx.json, or "main".
+     */
+    public getDefaultBase(): string {
+        const nxJson = this.readJsonFile(path.join(this.workspaceRoot, 'nx.json'));
+        return nxJson?.defaultBase || nxJson?.affected?.defaultBase || 'main';
+    }
+
     /**
      * Retrieves project information from the workspace.
+     * Uses the NX project graph cache when preferred and available, otherwise scans the workspace.
      */
     public async getProjects(): Promise<Map<string, ProjectInfo>> {
+        const cachedGraph = this.preferGraphCache ? this.graphLoader.load() : null;
+        if (cachedGraph) {
+            return cachedGraph.projects;
+        }
+        return this.scanProjects();
+    }
+
+    /**
+     * Checks whether the preferred project graph cache is older than the workspace sources.
+     * Returns null when the cache is not preferred or not available.
+     */
+    public async getGraphCacheStatus(): Promise<GraphCacheStatus | null> {
+        const cachedGraph = this.preferGraphCache ? this.graphLoader.load() : null;
+        if (!cachedGraph) {
+            return null;
+        }
+        
+        let newestSourceTime = 0;
+        for (const project of cachedGraph.projects.values()) {
+            const files: string[] = [
+                path.join(this.workspaceRoot, project.root, 'project.json'),
+                path.join(this.workspaceRoot, project.root, 'package.json')
+            ];
+            await this.collectSourceFiles(path.join(this.workspaceRoot, project.sourceRoot || project.root), files);
+            
+            for (const filePath of files) {
+                try {
+                    newestSourceTime = Math.max(newestSourceTime, (await fs.promises.stat(filePath)).mtimeMs);
+                } catch (error) {
+                    // Missing configuration files do not affect staleness
+                }
+            }
+        }
+        
+        return {
+            filePath: cachedGraph.filePath,
+            stale: newestSourceTime > cachedGraph.modifiedTime
+        };
+    }
+
+    /**
+     * Scans the workspace for projects.
+     * Projects come from project.json files, package.json files with an "nx" field,
+     * and the legacy workspace.json/angular.json project lists.
+     */
+    private async scanProjects(): Promise<Map<string, ProjectInfo>> {
         try {
             const projectsMap = new Map<string, ProjectInfo>();
+            const workspaceLayout = this.readWorkspaceLayout();
             
             // Check workspace.json or angular.json file
             let workspaceConfig: any = null;
@@ -56,13 +161,42 @@ export class NxProjectAnalyzer {
             
             // Collect project information
             if (workspaceConfig && workspaceConfig.projects) {
-                for (const [name, config] of Object.entries<any>(workspaceConfig.projects)) {
-                    projectsMap.set(name, {
-                        name,
-                        root: config.root,
-                        sourceRoot: config.sourceRoot || config.root,
-                        projectType: config.projectType || 'application'
-                    });
+                for (const [name, entry] of Object.entries<any>(workspaceConfig.projects)) {
+                    // Version 2 workspaces list project roots whose configuration lives in project.json
+                    const config = typeof entry === 'string'
+                        ? this.readJsonFile(path.join(this.workspaceRoot, entry, 'project.json')) || { root: entry }
+                        : entry;
+                    projectsMap.set(name, this.createProjectInfo(name, config.root ?? entry, config, workspaceLayout));
+                }
+            }
+            
+            // Discover project.json and package.json files
+            const ignoreRules = IgnoreRules.load(this.workspaceRoot, IGNORE_FILES);
+            const projectDirs: string[] = [];
+            await this.findProjectDirs(this.workspaceRoot, ignoreRules, projectDirs);
+            
+            for (const projectDir of projectDirs) {
+                const root = path.relative(this.workspaceRoot, projectDir).split(path.sep).join('/') || '.';
+                if (Array.from(projectsMap.values()).some(project => project.root === root)) {
+                    continue;
+                }
+                
+                const projectJson = this.readJsonFile(path.join(projectDir, 'project.json'));
+                const packageJson = this.readJsonFile(path.join(projectDir, 'package.json'));
+                
+                if (projectJson) {
+                    const name = projectJson.name || packageJson?.name || path.basename(projectDir);
+                    projectsMap.set(name, this.createProjectInfo(name, root, {
+                        ...projectJson,
+                        targets: { ...this.getScriptTargets(packageJson), ...projectJson.targets }
+                    }, workspaceLayout));
+                } else if (packageJson?.nx && root !== '.') {
+                    // Projects inferred from package.json
+                    const name = packageJson.nx.name || packageJson.name || path.basename(projectDir);
+                    projectsMap.set(name, this.createProjectInfo(name, root, {
+                        ...packageJson.nx,
+                        targets: { ...this.getScriptTargets(packageJson), ...packageJson.nx.targets }
+                    }, workspaceLayout));
                 }
             }
             
@@ -73,44 +207,257 @@ export class NxProjectAnalyzer {
         }
     }
 
+    /**
+     * Creates project information from a project configuration.
+     */
+    private createProjectInfo(name: string, root: string, config: any, workspaceLayout: { appsDir: string; libsDir: string }): ProjectInfo {
+        // Without an explicit projectType, NX infers it from the workspace layout
+        let projectType = config.projectType;
+        if (!projectType) {
+            projectType = root.startsWith(workspaceLayout.libsDir + '/') ? 'library' : 'application';
+        }
+        
+        let sourceRoot = config.sourceRoot;
+        if (!sourceRoot) {
+            sourceRoot = fs.existsSync(path.join(this.workspaceRoot, root, 'src')) ? path.posix.join(root, 'src') : root;
+        }
+        
+        return {
+            name,
+            root,
+            sourceRoot,
+            projectType,
+            tags: config.tags || [],
+            targets: Object.entries<any>(config.targets || {}).map(([targetName, target]) => ({
+                name: targetName,
+                executor: target?.executor || target?.builder
+            })),
+            implicitDependencies: config.implicitDependencies
+        };
+    }
+
+    /**
+     * Gets the package.json scripts, which NX exposes as targets.
+     */
+    private getScriptTargets(packageJson: any): Record<string, any> {
+        const targets: Record<string, any> = {};
+        for (const scriptName of Object.keys(packageJson?.scripts || {})) {
+            targets[scriptName] = { executor: 'nx:run-script' };
+        }
+        return targets;
+    }
+
+    /**
+     * Reads the apps and libs directories from nx.json.
+     */
+    private readWorkspaceLayout(): { appsDir: string; libsDir: string } {
+        const nxJson = this.readJsonFile(path.join(this.workspaceRoot, 'nx.json'));
+        return {
+            appsDir: nxJson?.workspaceLayout?.appsDir || 'apps',
+            libsDir: nxJson?.workspaceLayout?.libsDir || 'libs'
+        };
+    }
+
+    /**
+     * Recursively finds directories containing a project.json or a package.json,
+     * skipping directories excluded by the ignore files above them.
+     */
+    private async findProjectDirs(dirPath: string, ignoreRules: IgnoreRules, results: string[]): Promise<void> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        } catch (error) {
+            return;
+        }
+        
+        if (entries.some(entry => entry.isFile() && (entry.name === 'project.json' || entry.name === 'package.json'))) {
+            results.push(dirPath);
+        }
+        
+        // The root ignore files are already loaded
+        const relativeDir = path.relative(this.workspaceRoot, dirPath);
+        if (relativeDir) {
+            for (const entry of entries.filter(entry => entry.isFile() && IGNORE_FILES.includes(entry.name))) {
+                const content = await fs.promises.readFile(path.join(dirPath, entry.name), 'utf8');
+                ignoreRules = ignoreRules.extend(content.split(/\r?\n/), relativeDir);
+            }
+        }
+        
+        for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) {
+                continue;
+            }
+            
+            const fullPath = path.join(dirPath, entry.name);
+            if (!ignoreRules.isIgnored(path.relative(this.workspaceRoot, fullPath), true)) {
+                await this.findProjectDirs(fullPath, ignoreRules, results);
+            }
+        }
+    }
+
+    /**
+     * Reads a JSON file, returning null when it does not exist or cannot be parsed.
+     */
+    private readJsonFile(filePath: string): any {
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+        
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            console.error(`Error parsing ${filePath}:`, error);
+            return null;
+        }
+    }
+
     /**
      * Retrieves dependency information between projects.
+     * Uses the NX project graph cache when preferred and available, otherwise scans the sources
+     * of the given projects (as returned by getProjects), scanning the workspace only when none are given.
+     */
+    public async getDependencies(projects?: Map<string, ProjectInfo>): Promise<DependencyInfo[]> {
+        const cachedGraph = this.preferGraphCache ? this.graphLoader.load() : null;
+        if (cachedGraph) {
+            return cachedGraph.dependencies;
+        }
+        return this.scanDependencies(projects || await this.scanProjects());
+    }
+
+    /**
+     * Scans dependencies between projects.
+     * Edges come from the imports in each project's source files and from implicitDependencies.
+     * Files are read asynchronously and parsed one at a time so that the extension host stays responsive.
      */
-    public async getDependencies(): Promise<DependencyInfo[]> {
+    private async scanDependencies(projects: Map<string, ProjectInfo>): Promise<DependencyInfo[]> {
         try {
-            const dependencies: DependencyInfo[] = [];
-            const projects = await this.getProjects();
+            const dependencies = new Map<string, DependencyInfo>();
+            
+            const addDependency = (sourceProject: string, targetProject: string, type: DependencyType, source?: DependencySource) => {
+                const key = `${sourceProject}->${targetProject}:${type}`;
+                let dependency = dependencies.get(key);
+                if (!dependency) {
+                    dependency = { sourceProject, targetProject, type, sources: [] };
+                    dependencies.set(key, dependency);
+                }
+                if (source) {
+                    dependency.sources.push(source);
+                }
+            };
+            
+            this.resolver.clearCache();
+            this.resolver.setProjects(projects);
             
-            // Analyze package.json of each project to extract dependencies
             for (const [projectName, projectInfo] of projects.entries()) {
-                const packageJsonPath = path.join(this.workspaceRoot, projectInfo.root, 'package.json');
+                // Map each import of the project's sources to the project that owns the imported file
+                const sourceFiles: string[] = [];
+                await this.collectSourceFiles(path.join(this.workspaceRoot, projectInfo.sourceRoot || projectInfo.root), sourceFiles);
                 
-                if (fs.existsSync(packageJsonPath)) {
-                    const content = fs.readFileSync(packageJsonPath, 'utf8');
-                    const packageJson = JSON.parse(content);
-                    
-                    // Check dependencies
-                    const allDependencies = {
-                        ...packageJson.dependencies,
-                        ...packageJson.devDependencies
-                    };
+                for (const filePath of sourceFiles) {
+                    // Files of nested projects belong to those projects
+                    if (this.resolver.getProjectForFile(filePath) !== projectName) {
+                        continue;
+                    }
                     
-                    // Add inter-project dependencies
-                    for (const [depName, depVersion] of Object.entries<string>(allDependencies)) {
-                        if (projects.has(depName)) {
-                            dependencies.push({
-                                sourceProject: projectName,
-                                targetProject: depName
+                    for (const reference of await this.collectImportReferences(filePath)) {
+                        const resolved = this.resolver.resolve(reference.specifier, filePath);
+                        if (resolved?.project && resolved.project !== projectName) {
+                            addDependency(projectName, resolved.project, reference.dynamic ? 'dynamic' : 'static', {
+                                file: path.relative(this.workspaceRoot, filePath),
+                                line: reference.line
                             });
                         }
                     }
                 }
+                
+                // Add dependencies declared in the project configuration
+                for (const dependencyName of projectInfo.implicitDependencies || []) {
+                    if (!dependencyName.startsWith('!') && projects.has(dependencyName)) {
+                        addDependency(projectName, dependencyName, 'implicit');
+                    }
+                }
             }
             
-            return dependencies;
+            return Array.from(dependencies.values());
         } catch (error) {
             console.error('Error retrieving dependency information:', error);
             return [];
         }
     }
+
+    /**
+     * Recursively collects the source files of a directory.
+     */
+    private async collectSourceFiles(dirPath: string, results: string[]): Promise<void> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        } catch (error) {
+            // Missing source directories have no files
+            return;
+        }
+        
+        for (const entry of entries) {
+            const fullPath = path.join(dirPath, entry.name);
+            
+            if (entry.isDirectory()) {
+                // Skip node_modules and other excluded directories
+                if (entry.name !== 'node_modules' && entry.name !== 'dist' && !entry.name.startsWith('.')) {
+                    await this.collectSourceFiles(fullPath, results);
+                }
+            } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name))) {
+                results.push(fullPath);
+            }
+        }
+    }
+
+    /**
+     * Collects the module specifiers imported by a file (import, export from, require and import()).
+     */
+    private async collectImportReferences(filePath: string): Promise<ImportReference[]> {
+        const references: ImportReference[] = [];
+        
+        let ast: any;
+        try {
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            // Let pending events run between files, since parsing is synchronous
+            await new Promise(resolve => setImmediate(resolve));
+            ast = babelParser.parse(content, {
+                sourceType: 'module',
+                plugins: ['jsx', 'typescript', 'decorators-legacy'],
+                errorRecovery: true
+            });
+        } catch (error) {
+            console.log(`Failed to parse ${filePath}:`, error);
+            return references;
+        }
+        
+        const addReference = (node: any, dynamic: boolean) => {
+            if (node && node.type === 'StringLiteral') {
+                references.push({ specifier: node.value, line: node.loc ? node.loc.start.line : 0, dynamic });
+            }
+        };
+        
+        traverse(ast, {
+            ImportDeclaration: (path) => {
+                addReference(path.node.source, false);
+            },
+            ExportNamedDeclaration: (path) => {
+                addReference(path.node.source, false);
+            },
+            ExportAllDeclaration: (path) => {
+                addReference(path.node.source, false);
+            },
+            CallExpression: (path) => {
+                const callee = path.node.callee;
+                if (callee.type === 'Import') {
+                    addReference(path.node.arguments[0], true);
+                } else if (callee.type === 'Identifier' && callee.name === 'require') {
+                    addReference(path.node.arguments[0], false);
+                }
+            }
+        });
+        
+        return references;
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DependencyInfo, DependencyType, ProjectInfo } from './NxProjectAnalyzer';
+
+export interface LoadedProjectGraph {
+    filePath: string;
+    projects: Map<string, ProjectInfo>;
+    dependencies: DependencyInfo[];
+    modifiedTime: number;
+}
+
+// Locations of the project graph cache written by NX, newest first
+const CACHE_LOCATIONS = [
+    path.join('.nx', 'workspace-data', 'project-graph.json'),
+    path.join('node_modules', '.cache', 'nx', 'project-graph.json')
+];
+
+// File map written next to the project graph cache by newer NX versions
+const FILE_MAP_NAME = 'file-map.json';
+
+/**
+ * Loads NX project graphs from `nx graph --file=graph.json` output or the NX workspace cache.
+ */
+export class ProjectGraphLoader {
+    private workspaceRoot: string;
+    private graphFile?: string;
+    private loaded: LoadedProjectGraph | null = null;
+
+    constructor(workspaceRoot: string, graphFile?: string) {
+        this.workspaceRoot = workspaceRoot;
+        this.graphFile = graphFile;
+    }
+
+    /**
+     * Finds the project graph file to load: the configured graph file or the NX cache.
+     */
+    public findGraphFile(): string | null {
+        const candidates = this.graphFile ? [this.graphFile] : CACHE_LOCATIONS;
+
+        for (const candidate of candidates) {
+            const filePath = path.resolve(this.workspaceRoot, candidate);
+            if (fs.existsSync(filePath)) {
+                return filePath;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Loads the project graph, reusing the previous result while the file is unchanged.
+     * Returns null when no graph file exists or it cannot be parsed.
+     */
+    public load(): LoadedProjectGraph | null {
+        const filePath = this.findGraphFile();
+        if (!filePath) {
+            return null;
+        }
+
+        try {
+            const modifiedTime = fs.statSync(filePath).mtimeMs;
+            if (this.loaded && this.loaded.filePath === filePath && this.loaded.modifiedTime === modifiedTime) {
+                return this.loaded;
+            }
+
+            const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+            // graph.json wraps the graph in a "graph" property, the cache stores it at the top level
+            const graph = content.graph || content;
+            if (!graph.nodes || !graph.dependencies) {
+                console.error(`Unrecognized project graph format: ${filePath}`);
+                return null;
+            }
+
+            const projects = this.parseProjects(graph.nodes);
+            const dependencies = this.parseDependencies(graph.dependencies, projects);
+            this.addFileSources(dependencies, projects, this.readProjectFileMap(filePath, graph.nodes));
+
+            this.loaded = { filePath, projects, dependencies, modifiedTime };
+            return this.loaded;
+        } catch (error) {
+            console.error('Error loading project graph:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Converts project graph nodes into project information.
+     */
+    private parseProjects(nodes: Record<string, any>): Map<string, ProjectInfo> {
+        const projects = new Map<string, ProjectInfo>();
+
+        for (const [name, node] of Object.entries<any>(nodes)) {
+            const data = node.data || {};
+            projects.set(name, {
+                name,
+                root: data.root,
+                sourceRoot: data.sourceRoot || data.root,
+                projectType: data.projectType || (node.type === 'lib' ? 'library' : 'application'),
+                tags: data.tags || [],
+                targets: Object.entries<any>(data.targets || {}).map(([targetName, target]) => ({
+                    name: targetName,
+                    executor: target?.executor
+                })),
+                implicitDependencies: data.implicitDependencies
+            });
+        }
+
+        return projects;
+    }
+
+    /**
+     * Converts project graph dependencies between workspace projects, skipping npm packages.
+     */
+    private parseDependencies(dependencies: Record<string, any[]>, projects: Map<string, ProjectInfo>): DependencyInfo[] {
+        const results: DependencyInfo[] = [];
+
+        for (const [sourceProject, projectDependencies] of Object.entries<any[]>(dependencies)) {
+            for (const dependency of projectDependencies) {
+                if (!projects.has(dependency.target) || dependency.target === sourceProject) {
+                    continue;
+                }
+                results.push({
+                    sourceProject,
+                    targetProject: dependency.target,
+                    type: this.toDependencyType(dependency.type),
+                    sources: []
+                });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Reads the per-project file lists with their dependencies.
+     * Older graphs embed them in node.data.files, newer caches store them in file-map.json.
+     */
+    private readProjectFileMap(graphFilePath: string, nodes: Record<string, any>): Record<string, any[]> {
+        const fileMapPath = path.join(path.dirname(graphFilePath), FILE_MAP_NAME);
+        if (fs.existsSync(fileMapPath)) {
+            try {
+                const fileMap = JSON.parse(fs.readFileSync(fileMapPath, 'utf8'));
+                return fileMap.fileMap?.projectFileMap || fileMap.projectFileMap || {};
+            } catch (error) {
+                console.error('Error loading project file map:', error);
+            }
+        }
+
+        const projectFileMap: Record<string, any[]> = {};
+        for (const [name, node] of Object.entries<any>(nodes)) {
+            if (Array.isArray(node.data?.files)) {
+                projectFileMap[name] = node.data.files;
+            }
+        }
+        return projectFileMap;
+    }
+
+    /**
+     * Records the files that create each dependency.
+     */
+    private addFileSources(dependencies: DependencyInfo[], projects: Map<string, ProjectInfo>, projectFileMap: Record<string, any[]>): void {
+        const dependenciesByKey = new Map(dependencies.map(dependency =>
+            [`${dependency.sourceProject}->${dependency.targetProject}:${dependency.type}`, dependency]));
+
+        for (const [sourceProject, files] of Object.entries<any[]>(projectFileMap)) {
+            for (const fileData of files) {
+                for (const fileDependency of fileData.deps || []) {
+                    // Dependencies are "target", [target, type] or [source, target, type]
+                    let target: string;
+                    let type: string | undefined;
+                    if (typeof fileDependency === 'string') {
+                        target = fileDependency;
+                    } else if (fileDependency.length === 2) {
+                        [target, type] = fileDependency;
+                    } else {
+                        [, target, type] = fileDependency;
+                    }
+
+                    if (!projects.has(target)) {
+                        continue;
+                    }
+
+                    const dependencyType = this.toDependencyType(type);
+                    const dependency = dependenciesByKey.get(`${sourceProject}->${target}:${dependencyType}`);
+                    if (dependency && !dependency.sources.some(source => source.file === fileData.file)) {
+                        dependency.sources.push({ file: fileData.file });
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Normalizes an NX dependency type.
+     */
+    private toDependencyType(type: string | undefined): DependencyType {
+        return type === 'dynamic' || type === 'implicit' ? type : 'static';
+    }
+}
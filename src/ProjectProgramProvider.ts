@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as reactDocgenTypescript from 'react-docgen-typescript';
+import { ProjectInfo } from './NxProjectAnalyzer';
+
+interface ProjectProgram {
+    // The tsconfig the program is built from, or empty when the project has none
+    configPath: string;
+    options: ts.CompilerOptions;
+    rootNames: string[];
+    // Files outside the tsconfig that were added as roots
+    addedRootNames: string[];
+    // Set when roots were added since the program was built
+    rootsChanged: boolean;
+    host: ts.CompilerHost;
+    parser: reactDocgenTypescript.FileParser;
+    program?: ts.Program;
+    // Set when files may have changed since the program was built
+    stale: boolean;
+}
+
+interface ParsedConfig {
+    parsed: ts.ParsedCommandLine;
+    fileNames: Set<string>;
+}
+
+interface CachedSourceFile {
+    version: number;
+    sourceFile: ts.SourceFile;
+}
+
+// Project tsconfig files in order of preference; NX projects keep their sources in the app or lib config
+export const PROJECT_CONFIG_FILES = ['tsconfig.app.json', 'tsconfig.lib.json', 'tsconfig.json'];
+
+// Options used for files outside any tsconfig, matching react-docgen-typescript's defaults
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+    jsx: ts.JsxEmit.React,
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.Latest
+};
+
+/**
+ * Builds one TypeScript program per project from its tsconfig and reuses it to extract component docs,
+ * so that path aliases and compiler options apply and files are not type-checked again for every component file.
+ */
+export class ProjectProgramProvider {
+    private workspaceRoot: string;
+    private projects: ProjectInfo[] = [];
+    private programs = new Map<string, ProjectProgram>();
+    // Parsed files shared by every program, reused until the file changes on disk
+    private sourceFiles = new Map<string, CachedSourceFile>();
+    // Parsed tsconfig files, read again after invalidate()
+    private configs = new Map<string, ParsedConfig | null>();
+
+    constructor(workspaceRoot: string) {
+        this.workspaceRoot = workspaceRoot;
+    }
+
+    /**
+     * Sets the NX projects whose tsconfig files programs are built from.
+     */
+    public setProjects(projects: Map<string, ProjectInfo>): void {
+        // Longest roots first so nested projects win over their parents
+        this.projects = Array.from(projects.values()).sort((a, b) => b.root.length - a.root.length);
+    }
+
+    /**
+     * Marks every program stale so that changed files and tsconfig files are read again on next use.
+     */
+    public invalidate(): void {
+        this.configs.clear();
+        for (const project of this.programs.values()) {
+            project.stale = true;
+        }
+    }
+
+    /**
+     * Adds the files of an analysis run that their tsconfig does not include (new or excluded files) as roots,
+     * so that each program is rebuilt once for all of them instead of once per file.
+     */
+    public addRootFiles(filePaths: string[]): void {
+        for (const filePath of filePaths) {
+            const project = this.getProjectProgram(filePath);
+            const config = project.configPath ? this.parseConfig(project.configPath) : null;
+            if (!config?.fileNames.has(path.normalize(filePath)) && !project.addedRootNames.includes(filePath)) {
+                project.addedRootNames.push(filePath);
+                project.rootsChanged = true;
+            }
+        }
+    }
+
+    /**
+     * Extracts the docs of the components a file exports with the program of the project owning it.
+     */
+    public parseComponentDocs(filePath: string): reactDocgenTypescript.ComponentDoc[] {
+        const project = this.getProjectProgram(filePath);
+        return project.parser.parseWithProgramProvider(filePath, () => this.getProgram(project, filePath));
+    }
+
+    /**
+     * Gets the program state of the tsconfig that applies to a file, creating it on first use.
+     */
+    private getProjectProgram(filePath: string): ProjectProgram {
+        const configPath = this.findReferencedConfig(this.findConfigFile(filePath), filePath, new Set());
+        let project = this.programs.get(configPath);
+        if (!project) {
+            project = { configPath, ...this.readConfig(configPath), addedRootNames: [], rootsChanged: false, stale: false };
+            this.programs.set(configPath, project);
+        }
+        return project;
+    }
+
+    /**
+     * Gets the program of a project, rebuilding it when stale or when it does not contain the file.
+     */
+    private getProgram(project: ProjectProgram, filePath: string): ts.Program {
+        if (!project.program || project.stale || project.rootsChanged) {
+            this.createProgram(project);
+        }
+
+        // Files the tsconfig does not include that were not added up front are added one by one
+        if (!project.program!.getSourceFile(filePath) && !project.addedRootNames.includes(filePath)) {
+            project.addedRootNames.push(filePath);
+            this.createProgram(project);
+        }
+
+        return project.program!;
+    }
+
+    /**
+     * Builds a project's program from its current tsconfig, reusing unchanged files of the previous program.
+     */
+    private createProgram(project: ProjectProgram): void {
+        if (project.stale) {
+            Object.assign(project, this.readConfig(project.configPath));
+            project.addedRootNames = project.addedRootNames.filter(fileName => fs.existsSync(fileName));
+        }
+
+        project.program = ts.createProgram({
+            rootNames: [...project.rootNames, ...project.addedRootNames],
+            options: project.options,
+            host: project.host,
+            oldProgram: project.program
+        });
+        project.stale = false;
+        project.rootsChanged = false;
+    }
+
+    /**
+     * Finds the tsconfig that applies to a file: the one of the NX project owning it, or the nearest one.
+     */
+    private findConfigFile(filePath: string): string {
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        const owner = this.projects.find(project =>
+            project.root === '' || project.root === '.' || relativePath.startsWith(project.root + path.sep) || relativePath.startsWith(project.root + '/'));
+        if (owner) {
+            const configPath = this.findConfigInDirectory(path.join(this.workspaceRoot, owner.root));
+            if (configPath) {
+                return configPath;
+            }
+        }
+
+        for (let current = path.dirname(filePath); current.startsWith(this.workspaceRoot); current = path.dirname(current)) {
+            const configPath = this.findConfigInDirectory(current);
+            if (configPath || current === this.workspaceRoot) {
+                return configPath;
+            }
+        }
+        return '';
+    }
+
+    /**
+     * Follows the references of a solution-style tsconfig (one listing other configs instead of files)
+     * to the referenced config that includes the file.
+     */
+    private findReferencedConfig(configPath: string, filePath: string, visited: Set<string>): string {
+        const config = configPath ? this.parseConfig(configPath) : null;
+        if (!config || config.fileNames.has(path.normalize(filePath)) || visited.has(configPath)) {
+            return configPath;
+        }
+        visited.add(configPath);
+
+        for (const reference of config.parsed.projectReferences || []) {
+            const referencedPath = this.findReferencedConfig(ts.resolveProjectReferencePath(reference), filePath, visited);
+            if (this.parseConfig(referencedPath)?.fileNames.has(path.normalize(filePath))) {
+                return referencedPath;
+            }
+        }
+        return configPath;
+    }
+
+    /**
+     * Parses a tsconfig (following extends), caching the result until invalidate().
+     */
+    private parseConfig(configPath: string): ParsedConfig | null {
+        let config = this.configs.get(configPath);
+        if (config === undefined) {
+            config = null;
+            const { config: json, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+            if (error || !json) {
+                console.error(`Error reading ${configPath}:`, error?.messageText);
+            } else {
+                const parsed = ts.parseJsonConfigFileContent(json, ts.sys, path.dirname(configPath), undefined, configPath);
+                config = { parsed, fileNames: new Set(parsed.fileNames.map(fileName => path.normalize(fileName))) };
+            }
+            this.configs.set(configPath, config);
+        }
+        return config;
+    }
+
+    /**
+     * Finds the preferred tsconfig file in a directory.
+     */
+    private findConfigInDirectory(dirPath: string): string {
+        const configName = PROJECT_CONFIG_FILES.find(name => fs.existsSync(path.join(dirPath, name)));
+        return configName ? path.join(dirPath, configName) : '';
+    }
+
+    /**
+     * Reads a tsconfig (following extends) into compiler options and root files.
+     */
+    private readConfig(configPath: string): Pick<ProjectProgram, 'options' | 'rootNames' | 'host' | 'parser'> {
+        let options = DEFAULT_COMPILER_OPTIONS;
+        let rootNames: string[] = [];
+
+        const config = configPath ? this.parseConfig(configPath) : null;
+        if (config) {
+            options = { ...config.parsed.options, noEmit: true };
+            rootNames = config.parsed.fileNames;
+        }
+
+        return {
+            options,
+            rootNames,
+            host: this.createHost(options),
+            // The export symbol of each doc tells which component it belongs to in files exporting several
+            parser: reactDocgenTypescript.withCompilerOptions(options, { shouldIncludeExpression: true })
+        };
+    }
+
+    /**
+     * Creates a compiler host that takes parsed files from the shared cache while they are unchanged.
+     */
+    private createHost(options: ts.CompilerOptions): ts.CompilerHost {
+        const host = ts.createCompilerHost(options, true);
+        const getSourceFile = host.getSourceFile;
+
+        host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+            const cacheKey = `${fileName}:${JSON.stringify(languageVersion)}`;
+            const version = this.getFileVersion(fileName);
+            const cached = this.sourceFiles.get(cacheKey);
+            if (cached && cached.version === version && !shouldCreateNewSourceFile) {
+                return cached.sourceFile;
+            }
+
+            const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+            if (sourceFile) {
+                this.sourceFiles.set(cacheKey, { version, sourceFile });
+            }
+            return sourceFile;
+        };
+
+        return host;
+    }
+
+    /**
+     * Gets the modification time of a file, or -1 when it does not exist.
+     */
+    private getFileVersion(fileName: string): number {
+        try {
+            return fs.statSync(fileName).mtimeMs;
+        } catch (error) {
+            return -1;
+        }
+    }
+}
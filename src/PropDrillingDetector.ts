@@ -0,0 +1,135 @@
+import { ComponentInfo, PropDrillingInfo, PropDrillingStep } from './ReactComponentAnalyzer';
+import { RenderGraph } from './ComponentRenderGraph';
+
+interface PropHop {
+    componentId: string;
+    prop: string;
+}
+
+// Chains with at least this many forwarding components are better served by a context
+const CONTEXT_SUGGESTION_DEPTH = 3;
+
+/**
+ * Detects props that are passed through components that only forward them to a child.
+ */
+export class PropDrillingDetector {
+    private minDepth: number;
+
+    constructor(minDepth: number = 2) {
+        this.minDepth = minDepth;
+    }
+
+    /**
+     * Finds prop drilling chains in the render graph and records them on every component of each chain.
+     */
+    public detect(renderGraph: RenderGraph): PropDrillingInfo[] {
+        for (const component of renderGraph.components.values()) {
+            component.propDrilling = [];
+        }
+
+        const chains: PropDrillingInfo[] = [];
+        for (const [componentId, component] of renderGraph.components) {
+            for (const [index, renderInfo] of (component.renders || []).entries()) {
+                const childId = renderGraph.targets.get(renderInfo);
+                if (!childId) {
+                    continue;
+                }
+
+                for (const prop of renderInfo.props) {
+                    // Chains start where the value originates, not at a component that only forwards it
+                    if (this.isForwardOnly(component, index, prop)) {
+                        continue;
+                    }
+
+                    const start: PropHop = { componentId, prop: this.getSourceProp(component, index, prop) };
+                    for (const hops of this.followForwards({ componentId: childId, prop }, renderGraph, [start])) {
+                        const forwardingCount = this.countForwarders(hops, renderGraph);
+                        if (forwardingCount >= this.minDepth) {
+                            chains.push(this.createChain(hops, forwardingCount, renderGraph));
+                        }
+                    }
+                }
+            }
+        }
+
+        for (const chain of chains) {
+            const names = new Set(chain.chain.map(step => `${step.filePath}#${step.componentName}`));
+            for (const id of names) {
+                renderGraph.components.get(id)?.propDrilling!.push(chain);
+            }
+        }
+
+        return chains;
+    }
+
+    /**
+     * Follows a prop through the components that only forward it, returning every complete path.
+     * A path whose prop is forwarded to a component outside the graph stops at the last component in the graph.
+     */
+    private followForwards(hop: PropHop, renderGraph: RenderGraph, path: PropHop[]): PropHop[][] {
+        const component = renderGraph.components.get(hop.componentId)!;
+        const forwarded = component.forwardedProps?.find(p => p.name === hop.prop);
+        const visited = path.some(previous => previous.componentId === hop.componentId && previous.prop === hop.prop);
+
+        // The chain ends where the prop is read, not forwarded, or loops back
+        if (!forwarded || forwarded.readLocally || visited) {
+            return [[...path, hop]];
+        }
+
+        const paths: PropHop[][] = [];
+        for (const target of forwarded.targets) {
+            const childId = renderGraph.targets.get(component.renders![target.renderIndex]);
+            if (childId) {
+                paths.push(...this.followForwards({ componentId: childId, prop: target.childProp }, renderGraph, [...path, hop]));
+            }
+        }
+        return paths.length > 0 ? paths : [[...path, hop]];
+    }
+
+    /**
+     * Counts the components of a path that forward the prop without reading it. The origin is not counted,
+     * and neither is the consumer, unless the path stops at a forwarding component.
+     */
+    private countForwarders(hops: PropHop[], renderGraph: RenderGraph): number {
+        const forwarders = new Set(hops.slice(1)
+            .filter(hop => renderGraph.components.get(hop.componentId)!.forwardedProps?.some(p => p.name === hop.prop && !p.readLocally))
+            .map(hop => `${hop.componentId}:${hop.prop}`));
+        return forwarders.size;
+    }
+
+    /**
+     * Checks if an attribute of a rendered element forwards a prop the component never reads.
+     */
+    private isForwardOnly(component: ComponentInfo, renderIndex: number, attribute: string): boolean {
+        return (component.forwardedProps || []).some(forwarded => !forwarded.readLocally &&
+            forwarded.targets.some(target => target.renderIndex === renderIndex && target.childProp === attribute));
+    }
+
+    /**
+     * Gets the prop an attribute value comes from, or the attribute name for local values.
+     */
+    private getSourceProp(component: ComponentInfo, renderIndex: number, attribute: string): string {
+        const forwarded = (component.forwardedProps || []).find(p =>
+            p.targets.some(target => target.renderIndex === renderIndex && target.childProp === attribute));
+        return forwarded ? forwarded.name : attribute;
+    }
+
+    /**
+     * Describes a chain with a suggested fix.
+     */
+    private createChain(hops: PropHop[], forwardingCount: number, renderGraph: RenderGraph): PropDrillingInfo {
+        const chain: PropDrillingStep[] = hops.map(hop => {
+            const component = renderGraph.components.get(hop.componentId)!;
+            return { componentName: component.name, filePath: component.filePath, prop: hop.prop };
+        });
+
+        const origin = chain[0].componentName;
+        const consumer = chain[chain.length - 1].componentName;
+        const prop = chain[1].prop;
+        const suggestion = forwardingCount >= CONTEXT_SUGGESTION_DEPTH
+            ? `Provide "${prop}" through a context from ${origin} and read it in ${consumer} with useContext.`
+            : `Use composition: let ${origin} render ${consumer} and pass it down as children, so the components in between no longer need "${prop}".`;
+
+        return { prop, chain, forwardingCount, suggestion };
+    }
+}
@@ -0,0 +1,98 @@
+import { ComponentInfo, QueryKeyInfo } from './ReactComponentAnalyzer';
+import { HookGraph, getReachableHooks } from './HookCompositionGraph';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface QueryCacheSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    hook: string;
+    // The key of an invalidation, which may only be a prefix of the cache key
+    key?: string;
+    // The custom hook the cache is accessed through
+    via?: string;
+    line: number;
+}
+
+export interface QueryCacheNode {
+    id: string;
+    library: QueryKeyInfo['library'];
+    key: string;
+    segments: string[];
+    queries: QueryCacheSite[];
+    mutations: QueryCacheSite[];
+    invalidations: QueryCacheSite[];
+}
+
+/**
+ * Returns the workspace-unique id of a cache key.
+ */
+export function getQueryCacheId(library: QueryKeyInfo['library'], key: string): string {
+    return `${library}:${key}`;
+}
+
+/**
+ * Groups TanStack Query and SWR calls by cache key, so that components sharing a cache entry
+ * and the mutations invalidating it can be found.
+ */
+export class QueryCacheGraphBuilder {
+    /**
+     * Records the query keys each component uses, directly or through custom hooks, and builds the cache key graph.
+     */
+    public build(components: ComponentInfo[], hookGraph: HookGraph | null): Map<string, QueryCacheNode> {
+        const nodes = new Map<string, QueryCacheNode>();
+        const invalidations: { queryKey: QueryKeyInfo; site: QueryCacheSite }[] = [];
+
+        for (const component of components) {
+            const ownKeys = (component.queryKeys || []).filter(queryKey => !queryKey.via);
+            const hookKeys = (hookGraph ? getReachableHooks(hookGraph, getComponentId(component)) : [])
+                .flatMap(hook => (hook.queryKeys || []).map(queryKey => ({ ...queryKey, via: hook.name })));
+            component.queryKeys = [...ownKeys, ...hookKeys];
+
+            for (const queryKey of component.queryKeys) {
+                const site: QueryCacheSite = {
+                    componentId: getComponentId(component),
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    hook: queryKey.hook,
+                    via: queryKey.via,
+                    line: queryKey.location.line
+                };
+
+                if (queryKey.kind === 'invalidation') {
+                    invalidations.push({ queryKey, site: { ...site, key: queryKey.key } });
+                } else if (queryKey.key !== undefined) {
+                    const node = this.getNode(nodes, queryKey.library, queryKey.key, queryKey.segments);
+                    (queryKey.kind === 'query' ? node.queries : node.mutations).push(site);
+                }
+            }
+        }
+
+        // TanStack Query invalidates every key starting with the given one, SWR only the exact key
+        for (const { queryKey, site } of invalidations) {
+            const matches = Array.from(nodes.values()).filter(node => node.library === queryKey.library && (
+                queryKey.library === 'react-query'
+                    ? queryKey.segments.every((segment, index) => node.segments[index] === segment)
+                    : node.key === queryKey.key));
+            if (matches.length === 0 && queryKey.key !== undefined) {
+                matches.push(this.getNode(nodes, queryKey.library, queryKey.key, queryKey.segments));
+            }
+            for (const node of matches) {
+                node.invalidations.push(site);
+            }
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Gets the node of a cache key, creating it on first use.
+     */
+    private getNode(nodes: Map<string, QueryCacheNode>, library: QueryKeyInfo['library'], key: string, segments: string[]): QueryCacheNode {
+        const id = getQueryCacheId(library, key);
+        if (!nodes.has(id)) {
+            nodes.set(id, { id, library, key, segments, queries: [], mutations: [], invalidations: [] });
+        }
+        return nodes.get(id)!;
+    }
+}
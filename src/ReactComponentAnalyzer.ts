@@ -1,9 +1,9 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as babelParser from '@babel/parser';
 import traverse from '@babel/traverse';
 import * as reactDocgenTypescript from 'react-docgen-typescript';
+import { ProjectProgramProvider } from './ProjectProgramProvider';
 
 export interface ComponentInfo {
     name: string;
@@ -14,12 +14,403 @@ export interface ComponentInfo {
     props: PropInfo[];
     description?: string;
     storeUsage?: StoreInfo[];
+    wrappers?: string[];
+    displayName?: string;
+    lazySource?: string;
+    kind?: 'function' | 'class';
+    classInfo?: ClassComponentInfo;
+    exportNames?: string[];
+    renders?: RenderInfo[];
+    children?: RenderRelationInfo[];
+    parents?: RenderRelationInfo[];
+    hookCalls?: HookCallInfo[];
+    hookAccess?: HookAccessInfo;
+    hookCounts?: Record<string, number>;
+    providers?: ContextProviderInfo[];
+    childrenParents?: number[];
+    missingProviders?: string[];
+    forwardedProps?: ForwardedPropInfo[];
+    propDrilling?: PropDrillingInfo[];
+    hookRuleViolations?: HookRuleViolation[];
+    unstableSelectors?: UnstableValueInfo[];
+    rerenderRisks?: RerenderRisk[];
+    reduxUsage?: ReduxUsageInfo;
+    reduxAccess?: ReduxSliceAccessInfo[];
+    zustandUsage?: ZustandUsageInfo[];
+    mobxUsage?: MobxUsageInfo[];
+    queryKeys?: QueryKeyInfo[];
+    atomUsage?: AtomUsageInfo[];
+}
+
+export interface UnstableValueInfo {
+    // The prop, or the selector hook
+    name: string;
+    kind: 'object' | 'array' | 'function' | 'element';
+    // Written inline in JSX or the selector, rather than a variable created during render
+    inline: boolean;
+    value?: string;
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface RerenderRisk {
+    kind: 'memo-prop' | 'context-value' | 'selector';
+    message: string;
+    weight: number;
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface HookRuleViolation {
+    rule: 'conditional' | 'loop' | 'early-return' | 'nested-function' | 'class-component' | 'non-component' | 'top-level';
+    hook: string;
+    message: string;
+    filePath: string;
+    // The component or custom hook the call belongs to, if any
+    owner?: string;
+    range: {
+        start: { line: number; column: number };
+        end: { line: number; column: number };
+    };
+}
+
+export interface ForwardedPropInfo {
+    name: string;
+    readLocally: boolean;
+    targets: {
+        renderIndex: number;
+        childProp: string;
+    }[];
+}
+
+export interface PropDrillingInfo {
+    prop: string;
+    chain: PropDrillingStep[];
+    forwardingCount: number;
+    suggestion: string;
+}
+
+export interface PropDrillingStep {
+    componentName: string;
+    filePath: string;
+    prop: string;
+}
+
+export interface ContextDefinitionInfo {
+    name: string;
+    filePath: string;
+    defaultValue?: string;
+    exportNames?: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ContextProviderInfo {
+    name: string;
+    source?: string;
+    importedName?: string;
+    value?: string;
+    renderIndex: number;
+    callLocation: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface CustomHookInfo {
+    name: string;
+    filePath: string;
+    params: string[];
+    returnShape?: string;
+    hooks: HookInfo[];
+    states: StateInfo[];
+    effects: HookInfo[];
+    contexts: ContextInfo[];
+    storeUsage?: StoreInfo[];
+    queryKeys?: QueryKeyInfo[];
+    atomUsage?: AtomUsageInfo[];
+    hookCalls: HookCallInfo[];
+    exportNames?: string[];
+}
+
+export interface HookCallInfo {
+    name: string;
+    source?: string;
+    importedName?: string;
+    callLocation: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface HookAccessInfo {
+    hooks: string[];
+    states: HookAccessItem[];
+    contexts: HookAccessItem[];
+    stores: HookAccessItem[];
+}
+
+export interface HookAccessItem {
+    name: string;
+    hook: string;
+}
+
+export interface FileAnalysis {
+    components: ComponentInfo[];
+    hooks: CustomHookInfo[];
+    contexts: ContextDefinitionInfo[];
+    hookRuleViolations: HookRuleViolation[];
+    redux: ReduxDefinitions;
+    zustandStores: ZustandStoreInfo[];
+    mobxStores: MobxStoreInfo[];
+    atoms: AtomInfo[];
+}
+
+export interface ZustandStoreInfo {
+    name: string;
+    filePath: string;
+    // create() returns a hook, createStore() a vanilla store read through useStore(store, selector)
+    kind: 'hook' | 'vanilla';
+    stateKeys: string[];
+    actions: string[];
+    middlewares: string[];
+    exportNames?: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ZustandUsageInfo {
+    // The store hook called (useCartStore), or the vanilla store passed to useStore
+    reference: string;
+    source?: string;
+    importedName?: string;
+    // Selected state keys and actions (items, user.name), or '*' when the whole store is used
+    keys: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface MobxStoreInfo {
+    name: string;
+    filePath: string;
+    // Classes made observable in their constructor or with decorators, or objects passed to makeAutoObservable/observable
+    kind: 'class' | 'object';
+    observables: string[];
+    computeds: string[];
+    actions: string[];
+    // Instances of a class store created at the top level (export const cartStore = new CartStore())
+    instances: string[];
+    exportNames?: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface MobxUsageInfo {
+    // The store read (cartStore)
+    reference: string;
+    source?: string;
+    importedName?: string;
+    // Observables, computeds and actions accessed on the store
+    members: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface QueryKeyInfo {
+    library: 'react-query' | 'swr';
+    hook: string;
+    kind: 'query' | 'mutation' | 'invalidation';
+    // The key as written (["todos", id], "/api/user"), absent for mutations without a key
+    key?: string;
+    segments: string[];
+    // The custom hook the key is used through
+    via?: string;
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface AtomReferenceInfo {
+    name: string;
+    source?: string;
+    importedName?: string;
+}
+
+export interface AtomInfo {
+    name: string;
+    filePath: string;
+    library: 'recoil' | 'jotai';
+    // Derived state (selector(), atom((get) => ...)) is a selector
+    kind: 'atom' | 'selector';
+    // atomFamily and selectorFamily create an atom or selector per parameter
+    family?: boolean;
+    key?: string;
+    // Atoms and selectors read with get() and written with set()
+    dependencies: AtomReferenceInfo[];
+    writes: AtomReferenceInfo[];
+    exportNames?: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface AtomUsageInfo {
+    // The atom, selector or family passed to the hook
+    reference: string;
+    source?: string;
+    importedName?: string;
+    library: 'recoil' | 'jotai';
+    hook: string;
+    access: 'read' | 'write' | 'read-write';
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ReduxDefinitions {
+    slices: ReduxSliceInfo[];
+    thunks: ReduxThunkInfo[];
+    selectors: ReduxSelectorInfo[];
+}
+
+export interface ReduxSliceInfo {
+    name: string;
+    // The name option of createSlice, which is also its key in the root state
+    sliceName: string;
+    filePath: string;
+    stateShape: string[];
+    reducers: string[];
+    extraReducers: string[];
+    exportNames?: string[];
+    // Action creators destructured from slice.actions, by local name
+    actionExports?: Record<string, string>;
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ReduxThunkInfo {
+    name: string;
+    typePrefix: string;
+    filePath: string;
+    exportNames?: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ReduxSelectorInfo {
+    name: string;
+    filePath: string;
+    // Root state paths the selector reads (cart.items)
+    statePaths: string[];
+    memoized: boolean;
+    exportNames?: string[];
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ReduxUsageInfo {
+    reads: ReduxReadInfo[];
+    dispatches: ReduxDispatchInfo[];
+}
+
+export interface ReduxReadInfo {
+    // State paths read by an inline selector
+    statePaths: string[];
+    // Selector function passed by name (useSelector(selectCartItems))
+    selector?: string;
+    source?: string;
+    importedName?: string;
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ReduxDispatchInfo {
+    // Action creator or thunk name (add, fetchUser), or the type of a plain action object
+    action: string;
+    // Local name the action creator is reached through (cartSlice in cartSlice.actions.add, add in add())
+    reference?: string;
+    viaSliceActions?: boolean;
+    source?: string;
+    importedName?: string;
+    location: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface ReduxSliceAccessInfo {
+    slice: string;
+    filePath: string;
+    reads: string[];
+    actions: string[];
+}
+
+export interface RenderInfo {
+    name: string;
+    source?: string;
+    importedName?: string;
+    props: string[];
+    unstableProps?: UnstableValueInfo[];
+    parentIndex?: number;
+    callLocation: {
+        line: number;
+        column: number;
+    };
+}
+
+export interface RenderRelationInfo {
+    name: string;
+    filePath: string;
+    usageCount: number;
+}
+
+export interface ClassComponentInfo {
+    superClass: string;
+    lifecycleMethods: string[];
+    setStateCalls: SetStateCallInfo[];
+    contextType?: string;
+    defaultProps?: string[];
+    propTypes?: string[];
+}
+
+export interface SetStateCallInfo {
+    fields: string[];
+    callLocation: {
+        line: number;
+        column: number;
+    };
 }
 
 export interface StateInfo {
     name: string;
     initialValue?: string;
-    setter: string;
+    // Missing when the state is read without destructuring a setter
+    setter?: string;
     usageCount?: number;
 }
 
@@ -45,6 +436,9 @@ export interface HookInfo {
 
 export interface ContextInfo {
     name: string;
+    source?: string;
+    importedName?: string;
+    kind?: 'useContext' | 'consumer' | 'contextType';
     type?: string;
     usageLocations: {
         line: number;
@@ -54,16 +448,164 @@ export interface ContextInfo {
 }
 
 export interface StoreInfo {
-    type: 'redux' | 'mobx' | 'recoil' | 'zustand' | 'jotai' | 'other';
+    type: 'redux' | 'mobx' | 'recoil' | 'zustand' | 'jotai' | 'react-query' | 'swr' | 'other';
     actions: string[];
     selectors: string[];
 }
 
+export interface AnalyzerOptions {
+    hocNames?: string[];
+    // Shared with the caller so that it can set the NX projects and invalidate programs after changes.
+    // Props are only extracted when a provider is given.
+    programProvider?: ProjectProgramProvider;
+}
+
+interface ImportBinding {
+    source: string;
+    importedName: string;
+}
+
+interface ComponentDefinition {
+    name: string;
+    path: any;
+    exportNames?: string[];
+    wrappers?: string[];
+    wrappedComponent?: string;
+    lazySource?: string;
+}
+
+interface UnwrappedComponent {
+    wrappers: string[];
+    functionPath?: any;
+    reference?: string;
+    lazySource?: string;
+}
+
+// Bump whenever the analysis output of unchanged files changes, so that cached results are discarded
+export const ANALYZER_VERSION = 1;
+
+// Lifecycle methods reported for class components
+const LIFECYCLE_METHODS = [
+    'componentDidMount',
+    'componentDidUpdate',
+    'componentWillUnmount',
+    'shouldComponentUpdate',
+    'getSnapshotBeforeUpdate',
+    'getDerivedStateFromProps',
+    'getDerivedStateFromError',
+    'componentDidCatch',
+    'componentWillMount',
+    'componentWillReceiveProps',
+    'componentWillUpdate',
+    'UNSAFE_componentWillMount',
+    'UNSAFE_componentWillReceiveProps',
+    'UNSAFE_componentWillUpdate'
+];
+
+// Hooks provided by React, which are not analyzed as custom hooks
+const REACT_HOOKS = [
+    'useState',
+    'useEffect',
+    'useContext',
+    'useReducer',
+    'useCallback',
+    'useMemo',
+    'useRef',
+    'useImperativeHandle',
+    'useLayoutEffect',
+    'useInsertionEffect',
+    'useDebugValue',
+    'useDeferredValue',
+    'useTransition',
+    'useId',
+    'useSyncExternalStore',
+    'useOptimistic',
+    'useActionState',
+    'useFormStatus'
+];
+
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect'];
+
+// Hooks taking a dependency array, with the index of the array argument
+export const DEPENDENCY_HOOKS: Record<string, number> = {
+    useEffect: 1,
+    useLayoutEffect: 1,
+    useInsertionEffect: 1,
+    useMemo: 1,
+    useCallback: 1,
+    useImperativeHandle: 2
+};
+
+// Selector hooks that re-render the component when the selected value changes by reference
+const SELECTOR_HOOKS = ['useSelector', 'useAppSelector'];
+
+// Hooks returning the Redux dispatch function
+const DISPATCH_HOOKS = ['useDispatch', 'useAppDispatch'];
+
+// Array methods that return a new array
+const ARRAY_DERIVING_METHODS = ['map', 'filter', 'slice', 'concat', 'flatMap', 'sort', 'toSorted', 'reverse'];
+
+// Server-state hooks and the kind of cache access they make
+const QUERY_HOOKS: Record<string, QueryKeyInfo['kind']> = {
+    useQuery: 'query',
+    useSuspenseQuery: 'query',
+    useInfiniteQuery: 'query',
+    useSuspenseInfiniteQuery: 'query',
+    useMutation: 'mutation',
+    useSWR: 'query',
+    useSWRImmutable: 'query',
+    useSWRInfinite: 'query',
+    useSWRMutation: 'mutation'
+};
+
+// Packages providing server-state hooks, with the hook their default export is
+const QUERY_LIBRARIES: Record<string, { library: QueryKeyInfo['library']; defaultExport?: string }> = {
+    '@tanstack/react-query': { library: 'react-query' },
+    'react-query': { library: 'react-query' },
+    'swr': { library: 'swr', defaultExport: 'useSWR' },
+    'swr/immutable': { library: 'swr', defaultExport: 'useSWRImmutable' },
+    'swr/infinite': { library: 'swr', defaultExport: 'useSWRInfinite' },
+    'swr/mutation': { library: 'swr', defaultExport: 'useSWRMutation' }
+};
+
+// QueryClient methods that invalidate or overwrite cached queries
+const QUERY_CLIENT_METHODS = ['invalidateQueries', 'refetchQueries', 'resetQueries', 'removeQueries', 'cancelQueries', 'setQueryData'];
+
+// Recoil and Jotai hooks and the access they give to an atom or selector
+const ATOM_HOOKS: Record<string, { library: AtomInfo['library']; access: AtomUsageInfo['access'] }> = {
+    useRecoilState: { library: 'recoil', access: 'read-write' },
+    useRecoilStateLoadable: { library: 'recoil', access: 'read-write' },
+    useRecoilValue: { library: 'recoil', access: 'read' },
+    useRecoilValueLoadable: { library: 'recoil', access: 'read' },
+    useSetRecoilState: { library: 'recoil', access: 'write' },
+    useResetRecoilState: { library: 'recoil', access: 'write' },
+    useAtom: { library: 'jotai', access: 'read-write' },
+    useAtomValue: { library: 'jotai', access: 'read' },
+    useSetAtom: { library: 'jotai', access: 'write' },
+    useResetAtom: { library: 'jotai', access: 'write' }
+};
+
+// Jotai utilities deriving an atom from the atom passed first
+const JOTAI_DERIVING_UTILS = ['selectAtom', 'loadable', 'unwrap', 'splitAtom'];
+
+// MobX functions that make a class instance or an object observable
+const MOBX_OBSERVABLE_FUNCTIONS = ['makeAutoObservable', 'makeObservable', 'observable'];
+
+// Wrappers that are always unwrapped, in addition to the user-configured HOC names
+const KNOWN_WRAPPERS = ['memo', 'forwardRef', 'lazy', 'styled', 'observer', 'connect'];
+
+// HOC factories whose first call takes options and returns the HOC (connect(mapState)(Component))
+const CURRIED_WRAPPERS = ['connect'];
+
 export class ReactComponentAnalyzer {
     private workspaceRoot: string;
+    private wrapperNames: Set<string>;
+    private programProvider?: ProjectProgramProvider;
 
-    constructor(workspaceRoot: string) {
+    constructor(workspaceRoot: string, options: AnalyzerOptions = {}) {
         this.workspaceRoot = workspaceRoot;
+        this.wrapperNames = new Set([...KNOWN_WRAPPERS, ...(options.hocNames || [])]);
+        this.programProvider = options.programProvider;
     }
 
     /**
@@ -82,6 +624,19 @@ export class ReactComponentAnalyzer {
         }
     }
 
+    /**
+     * Checks if a file is one findReactComponents would return for the project.
+     */
+    public isAnalyzedFile(filePath: string, projectPath: string): boolean {
+        const relativePath = path.relative(path.join(this.workspaceRoot, projectPath), filePath);
+        if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        const directories = relativePath.split(path.sep).slice(0, -1);
+        return !directories.some(name => this.isExcludedDirectory(name)) && this.isReactComponentFile(path.basename(filePath));
+    }
+
     /**
      * Recursively traverses directories to find React component files.
      */
@@ -90,14 +645,15 @@ export class ReactComponentAnalyzer {
             return;
         }
 
-        const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+        // Read asynchronously so that scanning large workspaces does not block the extension host
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
 
         for (const entry of entries) {
             const fullPath = path.join(dirPath, entry.name);
             
             if (entry.isDirectory()) {
                 // Skip node_modules and other excluded directories
-                if (entry.name !== 'node_modules' && entry.name !== 'dist' && !entry.name.startsWith('.')) {
+                if (!this.isExcludedDirectory(entry.name)) {
                     await this.findComponentFilesRecursively(fullPath, results);
                 }
             } else if (this.isReactComponentFile(entry.name)) {
@@ -106,6 +662,13 @@ export class ReactComponentAnalyzer {
         }
     }
 
+    /**
+     * Checks if a directory is skipped when searching for component files.
+     */
+    private isExcludedDirectory(name: string): boolean {
+        return name === 'node_modules' || name === 'dist' || name.startsWith('.');
+    }
+
     /**
      * Checks if a file is a React component.
      */
@@ -117,19 +680,21 @@ export class ReactComponentAnalyzer {
             return false;
         }
         
-        // Check specific naming conventions (optional)
-        // const baseName = path.basename(fileName, ext);
-        // if (baseName.startsWith('use')) {
-        //     return false; // Exclude hook files
-        // }
-        
+        // Hook files (useCart.ts) are included so that their custom hooks are analyzed
         return true;
     }
 
     /**
-     * Analyzes a component file to extract information.
+     * Analyzes a component file and returns one entry per component it defines.
+     */
+    public async analyzeComponent(filePath: string): Promise<ComponentInfo[]> {
+        return (await this.analyzeFile(filePath)).components;
+    }
+
+    /**
+     * Analyzes a file and returns the components and custom hooks it defines.
      */
-    public async analyzeComponent(filePath: string): Promise<ComponentInfo | null> {
+    public async analyzeFile(filePath: string): Promise<FileAnalysis> {
         try {
             const relativePath = path.relative(this.workspaceRoot, filePath);
             const content = fs.readFileSync(filePath, 'utf8');
@@ -140,168 +705,2038 @@ export class ReactComponentAnalyzer {
                 plugins: ['jsx', 'typescript', 'decorators-legacy'],
             });
             
-            // Initialize basic component info
-            const componentName = this.extractComponentName(filePath, ast);
+            // Find every component and custom hook definition in the file
+            const definitions = this.findComponentDefinitions(filePath, ast);
+            const hookDefinitions = this.findHookDefinitions(filePath, ast);
+            const contextDefinitions = this.findContextDefinitions(ast);
+            const definitionNodes = new Set([...definitions, ...hookDefinitions].map(definition => definition.path.node));
             
-            if (!componentName) {
-                return null; // If component name cannot be found
+            // Hooks can break the rules outside of components too, so the whole file is checked
+            const definitionNames = new Map([...definitions, ...hookDefinitions].map(definition => [definition.path.node, definition.name]));
+            const hookRuleViolations = this.findHookRuleViolations(ast, relativePath, definitionNames);
+            const redux = this.findReduxDefinitions(ast, relativePath);
+            const imports = this.collectImports(ast);
+            const zustandStores = this.findZustandStores(ast, relativePath, imports);
+            const mobxStores = this.findMobxStores(ast, relativePath, imports);
+            const atoms = this.findAtoms(ast, relativePath, imports);
+            
+            if (definitions.length === 0 && hookDefinitions.length === 0 && contextDefinitions.length === 0) {
+                return { components: [], hooks: [], contexts: [], hookRuleViolations, redux, zustandStores, mobxStores, atoms }; // If no component, hook or context can be found
             }
             
-            const componentInfo: ComponentInfo = {
-                name: componentName,
-                filePath: relativePath,
-                hooks: [],
-                states: [],
-                contexts: [],
-                props: []
-            };
+            this.collectExportNames(ast, [...definitions, ...hookDefinitions, ...contextDefinitions]);
+            
+            const components: ComponentInfo[] = definitions.map(definition => {
+                const componentInfo: ComponentInfo = {
+                    name: definition.name,
+                    filePath: relativePath,
+                    hooks: [],
+                    states: [],
+                    contexts: [],
+                    props: [],
+                    kind: this.isClassNode(definition.path.node) ? 'class' : 'function'
+                };
+                
+                if (definition.wrappers && definition.wrappers.length > 0) {
+                    componentInfo.wrappers = definition.wrappers;
+                    componentInfo.displayName = definition.wrappedComponent
+                        ? `${definition.name} = ${this.getWrappedDisplayName(definition.wrappedComponent, definition.wrappers)}`
+                        : this.getWrappedDisplayName(definition.name, definition.wrappers);
+                }
+                if (definition.lazySource) {
+                    componentInfo.lazySource = definition.lazySource;
+                }
+                if (definition.exportNames) {
+                    componentInfo.exportNames = definition.exportNames;
+                }
+                
+                // Traverse the component body to extract hooks, states, contexts, etc.
+                this.extractComponentDetails(definition.path, componentInfo, definitionNodes, imports);
+                componentInfo.hookRuleViolations = hookRuleViolations.filter(violation => violation.owner === definition.name);
+                
+                // observer() components re-render when the MobX observables they read change
+                if (definition.wrappers?.includes('observer')) {
+                    this.addStoreType(componentInfo, 'mobx');
+                }
+                
+                return componentInfo;
+            });
             
-            // Traverse AST to extract hooks, states, contexts, etc.
-            this.extractComponentDetails(ast, componentInfo);
+            const hooks = hookDefinitions.map(definition =>
+                this.extractCustomHookInfo(definition, relativePath, definitionNodes, imports));
             
             // Extract Props information using react-docgen-typescript
-            try {
-                const parser = reactDocgenTypescript.withDefaultConfig();
-                const propInfo = parser.parse(filePath);
-                if (propInfo.length > 0) {
-                    const props = propInfo[0].props;
-                    for (const propName in props) {
-                        const prop = props[propName];
-                        componentInfo.props.push({
-                            name: propName,
-                            type: prop.type?.name || 'unknown',
-                            required: prop.required || false,
-                            defaultValue: prop.defaultValue?.value,
-                            description: prop.description
-                        });
-                    }
-                    
-                    componentInfo.description = propInfo[0].description;
-                }
-            } catch (docgenError) {
-                console.log(`Failed to analyze props for ${componentName}:`, docgenError);
+            if (components.length > 0) {
+                this.extractProps(filePath, components);
             }
             
-            return componentInfo;
+            const contexts: ContextDefinitionInfo[] = contextDefinitions.map(definition => {
+                const node = definition.path.node;
+                return {
+                    name: definition.name,
+                    filePath: relativePath,
+                    defaultValue: node.init.arguments.length > 0 ? this.describeExpression(node.init.arguments[0]) : undefined,
+                    exportNames: definition.exportNames,
+                    location: {
+                        line: node.loc ? node.loc.start.line : 0,
+                        column: node.loc ? node.loc.start.column : 0
+                    }
+                };
+            });
+            
+            return { components, hooks, contexts, hookRuleViolations, redux, zustandStores, mobxStores, atoms };
         } catch (error) {
             console.error('Component analysis error:', error);
-            return null;
+            return {
+                components: [],
+                hooks: [],
+                contexts: [],
+                hookRuleViolations: [],
+                redux: { slices: [], thunks: [], selectors: [] },
+                zustandStores: [],
+                mobxStores: [],
+                atoms: []
+            };
         }
     }
 
     /**
-     * Extracts component name from AST.
+     * Finds hook calls that break the rules of hooks: calls in conditions, loops, nested functions,
+     * after early returns, or outside components and custom hooks.
      */
-    private extractComponentName(filePath: string, ast: any): string | null {
-        let componentName: string | null = null;
-        let foundInAST = false;
-        
-        // Extract component name from filename
-        const pathParts = filePath.split(/[\/\\]/);
-        const fileName = pathParts[pathParts.length - 1];
-        const fileNameWithoutExt = fileName.split('.')[0];
-        
+    private findHookRuleViolations(ast: any, relativePath: string, definitionNames: Map<any, string>): HookRuleViolation[] {
+        const violations: HookRuleViolation[] = [];
+        const earlyReturns = new Map<any, any[]>();
+
+        // Components and hooks the analyzer found, or functions named like one
+        const getOwnerName = (functionPath: any): string | undefined => {
+            const name = definitionNames.get(functionPath.node) || this.getFunctionName(functionPath);
+            return name && (definitionNames.has(functionPath.node) || this.isPascalCase(name) || this.isHookName(name)) ? name : undefined;
+        };
+
         traverse(ast, {
-            FunctionDeclaration: (path) => {
-                // Function declaration style component (function MyComponent(){})
-                if (path.node.id && this.isPascalCase(path.node.id.name)) {
-                    componentName = path.node.id.name;
-                    foundInAST = true;
+            CallExpression: (path: any) => {
+                const hook = this.getHookName(path.node.callee);
+                if (!hook || !this.isHookName(hook)) {
+                    return;
                 }
-            },
-            VariableDeclarator: (path) => {
-                // Variable declaration style component (const MyComponent = () => {})
-                if (path.node.id.type === 'Identifier' && 
-                    this.isPascalCase(path.node.id.name) &&
-                    (path.node.init?.type === 'ArrowFunctionExpression' || 
-                     path.node.init?.type === 'FunctionExpression')) {
-                    componentName = path.node.id.name;
-                    foundInAST = true;
+
+                const addViolation = (rule: HookRuleViolation['rule'], message: string, owner?: string) => {
+                    violations.push({
+                        rule,
+                        hook,
+                        message: `React Hook "${hook}" ${message}`,
+                        filePath: relativePath,
+                        owner,
+                        range: {
+                            start: { line: path.node.loc.start.line, column: path.node.loc.start.column },
+                            end: { line: path.node.loc.end.line, column: path.node.loc.end.column }
+                        }
+                    });
+                };
+
+                const functionPath = path.getFunctionParent();
+                if (!functionPath) {
+                    if (!path.findParent((parent: any) => parent.isClass())) {
+                        addViolation('top-level', 'is called at the top level of the module. Hooks must be called in a component or custom hook.');
+                        return;
+                    }
                 }
-            },
-            ExportDefaultDeclaration: (path) => {
-                // Use filename for anonymous function default exports
-                if (!foundInAST && path.node.declaration && (
-                    path.node.declaration.type === 'ArrowFunctionExpression' || 
-                    path.node.declaration.type === 'FunctionExpression' ||
-                    (path.node.declaration.type === 'FunctionDeclaration' && !path.node.declaration.id)
-                )) {
-                    if (this.isPascalCase(fileNameWithoutExt)) {
-                        componentName = fileNameWithoutExt;
-                        foundInAST = true;
+
+                const owner = functionPath ? getOwnerName(functionPath) : undefined;
+                if (!owner) {
+                    const ownerPath = functionPath?.findParent((parent: any) => parent.isFunction() && getOwnerName(parent));
+                    const classPath = path.findParent((parent: any) => parent.isClass());
+                    if (ownerPath) {
+                        addViolation('nested-function', 'is called in a nested function. Hooks must be called at the top level of a component or custom hook.', getOwnerName(ownerPath));
+                    } else if (classPath) {
+                        const className = classPath.node.id?.name || definitionNames.get(classPath.node);
+                        addViolation('class-component', `is called in the class "${className || 'anonymous'}". Hooks only work in function components.`, className);
+                    } else {
+                        const functionName = this.getFunctionName(functionPath);
+                        addViolation('non-component', `is called in ${functionName ? `function "${functionName}"` : 'a function'} that is neither a React component nor a custom hook. Component names must start with an uppercase letter and hook names with "use".`);
                     }
+                    return;
+                }
+
+                // Walk up to the component body looking for conditions and loops
+                for (let current = path; current.parentPath && current !== functionPath; current = current.parentPath) {
+                    const parent = current.parentPath;
+                    const isBranch = (parent.isIfStatement() && current.key !== 'test') ||
+                        (parent.isConditionalExpression() && current.key !== 'test') ||
+                        (parent.isLogicalExpression() && current.key === 'right') ||
+                        (parent.isSwitchCase() && current.listKey === 'consequent') ||
+                        parent.isOptionalCallExpression() || parent.isCatchClause();
+                    if (isBranch) {
+                        addViolation('conditional', `is called conditionally in "${owner}". Hooks must be called in the exact same order in every render.`, owner);
+                        return;
+                    }
+                    const isLoopBody = parent.isLoop() && !['init', 'right'].includes(current.key);
+                    if (isLoopBody) {
+                        addViolation('loop', `is called in a loop in "${owner}". Hooks must be called in the exact same order in every render.`, owner);
+                        return;
+                    }
+                }
+
+                // Returns of the component itself, not of its callbacks
+                if (!earlyReturns.has(functionPath.node)) {
+                    const returns: any[] = [];
+                    functionPath.traverse({
+                        Function: (innerPath: any) => innerPath.skip(),
+                        ReturnStatement: (returnPath: any) => {
+                            returns.push(returnPath.node);
+                        }
+                    });
+                    earlyReturns.set(functionPath.node, returns);
+                }
+                const earlyReturn = earlyReturns.get(functionPath.node)!.find(node => node.end <= path.node.start);
+                if (earlyReturn) {
+                    addViolation('early-return', `is called after the early return on line ${earlyReturn.loc.start.line} in "${owner}". Hooks must be called before any return.`, owner);
+                }
+            }
+        });
+
+        return violations;
+    }
+
+    /**
+     * Gets the name of a function from its declaration, variable, property or method key.
+     */
+    private getFunctionName(functionPath: any): string | undefined {
+        if (functionPath.node.id) {
+            return functionPath.node.id.name;
+        }
+        if ((functionPath.isClassMethod() || functionPath.isObjectMethod()) && functionPath.node.key.type === 'Identifier') {
+            return functionPath.node.key.name;
+        }
+
+        // Skip wrapper calls such as memo(() => ...) or forwardRef(...) to reach the declarator
+        let current = functionPath.parentPath;
+        while (current && current.isCallExpression()) {
+            current = current.parentPath;
+        }
+        if (current && (current.isVariableDeclarator() || current.isObjectProperty() || current.isClassProperty())) {
+            const id = current.isVariableDeclarator() ? current.node.id : current.node.key;
+            return id.type === 'Identifier' ? id.name : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the contexts created at the top level of a file (const ThemeContext = createContext('light')).
+     */
+    private findContextDefinitions(ast: any): ComponentDefinition[] {
+        const definitions: ComponentDefinition[] = [];
+        
+        traverse(ast, {
+            Program: (programPath) => {
+                for (let statementPath of programPath.get('body') as any[]) {
+                    if (statementPath.node.type === 'ExportNamedDeclaration') {
+                        statementPath = statementPath.get('declaration');
+                    }
+                    if (statementPath.node?.type !== 'VariableDeclaration') {
+                        continue;
+                    }
+                    
+                    for (const declaratorPath of statementPath.get('declarations')) {
+                        const declarator = declaratorPath.node;
+                        if (declarator.id.type === 'Identifier' && declarator.init?.type === 'CallExpression' &&
+                            this.getExpressionName(declarator.init.callee) === 'createContext') {
+                            definitions.push({ name: declarator.id.name, path: declaratorPath });
+                        }
+                    }
+                }
+                programPath.stop();
+            }
+        });
+        
+        return definitions;
+    }
+
+    /**
+     * Finds the Redux Toolkit slices, thunks and selectors declared at the top level of a file.
+     */
+    private findReduxDefinitions(ast: any, relativePath: string): ReduxDefinitions {
+        const redux: ReduxDefinitions = { slices: [], thunks: [], selectors: [] };
+        const definitions: ComponentDefinition[] = [];
+        const actionDestructures: { local: string; action: string; slice: string }[] = [];
+        
+        traverse(ast, {
+            Program: (programPath) => {
+                for (let statementPath of programPath.get('body') as any[]) {
+                    if (statementPath.node.type === 'ExportNamedDeclaration') {
+                        statementPath = statementPath.get('declaration');
+                    }
+                    if (statementPath.node?.type !== 'VariableDeclaration') {
+                        continue;
+                    }
+                    
+                    for (const declaratorPath of statementPath.get('declarations')) {
+                        const declarator = declaratorPath.node;
+                        const init = declarator.init;
+                        
+                        // const { add, remove } = cartSlice.actions
+                        if (declarator.id.type === 'ObjectPattern' && init?.type === 'MemberExpression' &&
+                            init.object.type === 'Identifier' && init.property.type === 'Identifier' && init.property.name === 'actions') {
+                            for (const property of declarator.id.properties) {
+                                if (property.type === 'ObjectProperty' && property.key.type === 'Identifier' && property.value.type === 'Identifier') {
+                                    actionDestructures.push({ local: property.value.name, action: property.key.name, slice: init.object.name });
+                                    definitions.push({ name: property.value.name, path: declaratorPath });
+                                }
+                            }
+                            continue;
+                        }
+                        
+                        if (declarator.id.type !== 'Identifier' || !init) {
+                            continue;
+                        }
+                        const name = declarator.id.name;
+                        const location = {
+                            line: declarator.loc ? declarator.loc.start.line : 0,
+                            column: declarator.loc ? declarator.loc.start.column : 0
+                        };
+                        const calleeName = init.type === 'CallExpression' ? this.getExpressionName(init.callee) : undefined;
+                        
+                        if (calleeName === 'createSlice' && init.arguments[0]?.type === 'ObjectExpression') {
+                            redux.slices.push(this.extractSliceInfo(name, declaratorPath.get('init.arguments.0'), relativePath, location));
+                        } else if (calleeName === 'createAsyncThunk') {
+                            const typeArgument = init.arguments[0];
+                            redux.thunks.push({
+                                name,
+                                typePrefix: typeArgument?.type === 'StringLiteral' ? typeArgument.value : name,
+                                filePath: relativePath,
+                                location
+                            });
+                        } else if (calleeName === 'createSelector' && init.arguments.length > 0) {
+                            redux.selectors.push({
+                                name,
+                                filePath: relativePath,
+                                statePaths: this.getSelectorInputPaths(declaratorPath.get('init'), redux.selectors),
+                                memoized: true,
+                                location
+                            });
+                        } else if (/^select[A-Z]/.test(name) && this.isFunctionNode(init)) {
+                            // Plain selector functions (const selectItems = (state) => state.cart.items)
+                            redux.selectors.push({
+                                name,
+                                filePath: relativePath,
+                                statePaths: this.getStatePaths(declaratorPath.get('init')),
+                                memoized: false,
+                                location
+                            });
+                        } else {
+                            continue;
+                        }
+                        definitions.push({ name, path: declaratorPath });
+                    }
+                }
+                programPath.stop();
+            }
+        });
+        
+        this.collectExportNames(ast, definitions);
+        const exportNames = new Map(definitions.map(definition => [definition.name, definition.exportNames]));
+        for (const info of [...redux.slices, ...redux.thunks, ...redux.selectors]) {
+            info.exportNames = exportNames.get(info.name);
+        }
+        for (const destructure of actionDestructures) {
+            const slice = redux.slices.find(s => s.name === destructure.slice);
+            if (slice) {
+                slice.actionExports = { ...(slice.actionExports || {}), [destructure.local]: destructure.action };
+            }
+        }
+        
+        return redux;
+    }
+
+    /**
+     * Finds the Zustand stores created at the top level of a file (const useCartStore = create((set) => ({ ... }))).
+     */
+    private findZustandStores(ast: any, relativePath: string, imports: Map<string, ImportBinding>): ZustandStoreInfo[] {
+        const stores: ZustandStoreInfo[] = [];
+        const definitions: ComponentDefinition[] = [];
+        
+        traverse(ast, {
+            Program: (programPath) => {
+                for (let statementPath of programPath.get('body') as any[]) {
+                    if (statementPath.node.type === 'ExportNamedDeclaration') {
+                        statementPath = statementPath.get('declaration');
+                    }
+                    if (statementPath.node?.type !== 'VariableDeclaration') {
+                        continue;
+                    }
+                    
+                    for (const declarator of statementPath.node.declarations) {
+                        const creator = declarator.id.type === 'Identifier' && declarator.init
+                            ? this.findZustandCreator(declarator.init, imports)
+                            : null;
+                        if (!creator) {
+                            continue;
+                        }
+                        
+                        const store: ZustandStoreInfo = {
+                            name: declarator.id.name,
+                            filePath: relativePath,
+                            kind: creator.kind,
+                            stateKeys: [],
+                            actions: [],
+                            middlewares: creator.middlewares,
+                            location: {
+                                line: declarator.loc ? declarator.loc.start.line : 0,
+                                column: declarator.loc ? declarator.loc.start.column : 0
+                            }
+                        };
+                        
+                        // State keys and actions of the object returned by the state creator
+                        let state = creator.stateCreator?.body;
+                        if (state?.type === 'BlockStatement') {
+                            state = state.body.find((statement: any) => statement.type === 'ReturnStatement')?.argument;
+                        }
+                        for (const property of state?.type === 'ObjectExpression' ? state.properties : []) {
+                            const key = property.key?.type === 'Identifier' ? property.key.name : property.key?.value;
+                            if (typeof key !== 'string') {
+                                continue;
+                            }
+                            const isAction = property.type === 'ObjectMethod' || this.isFunctionNode(property.value);
+                            (isAction ? store.actions : store.stateKeys).push(key);
+                        }
+                        
+                        stores.push(store);
+                        definitions.push({ name: store.name, path: statementPath });
+                    }
+                }
+                programPath.stop();
+            }
+        });
+        
+        this.collectExportNames(ast, definitions);
+        for (const store of stores) {
+            store.exportNames = definitions.find(definition => definition.name === store.name)?.exportNames;
+        }
+        return stores;
+    }
+
+    /**
+     * Finds the state creator of a Zustand create or createStore call, unwrapping curried calls (create<State>()(...))
+     * and middlewares (devtools(persist((set) => ...))).
+     */
+    private findZustandCreator(
+        node: any,
+        imports: Map<string, ImportBinding>
+    ): { kind: 'hook' | 'vanilla'; stateCreator?: any; middlewares: string[] } | null {
+        if (node.type !== 'CallExpression') {
+            return null;
+        }
+        
+        // create<State>()((set) => ...) calls the result of create()
+        const callee = node.callee.type === 'CallExpression' && node.callee.arguments.length === 0 ? node.callee.callee : node.callee;
+        const binding = callee.type === 'Identifier' ? imports.get(callee.name) : undefined;
+        if (!binding || !binding.source.startsWith('zustand') ||
+            !['create', 'createStore', 'default'].includes(binding.importedName)) {
+            return null;
+        }
+        
+        const middlewares: string[] = [];
+        let argument = node.arguments[0];
+        while (argument?.type === 'CallExpression') {
+            const middleware = this.getExpressionName(argument.callee);
+            if (middleware) {
+                middlewares.push(middleware);
+            }
+            argument = argument.arguments[0];
+        }
+        
+        return {
+            kind: binding.importedName === 'createStore' ? 'vanilla' : 'hook',
+            stateCreator: argument && this.isFunctionNode(argument) ? argument : undefined,
+            middlewares
+        };
+    }
+
+    /**
+     * Checks if a called hook reads a Zustand store: useStore, hooks named like useCartStore
+     * or hooks created with create() in the same file.
+     */
+    private isZustandHook(path: any, name: string, imports: Map<string, ImportBinding>): boolean {
+        // react-redux exports a useStore hook of its own
+        if (imports.get(name)?.source === 'react-redux') {
+            return false;
+        }
+        if (name === 'useStore' || /^use[A-Z]\w*Store$/.test(name)) {
+            return true;
+        }
+        const binding = path.scope.getBinding(name);
+        const init = binding?.path.isVariableDeclarator() ? binding.path.node.init : null;
+        return !!init && !!this.findZustandCreator(init, imports);
+    }
+
+    /**
+     * Extracts the store a Zustand hook call reads and the keys its selector picks.
+     */
+    private extractZustandUsage(path: any, imports: Map<string, ImportBinding>): ZustandUsageInfo {
+        const calleeName = path.node.callee.name;
+        const args = path.node.arguments;
+        
+        // useStore(cartStore, selector) reads a vanilla store
+        const readsVanillaStore = calleeName === 'useStore' && args[0]?.type === 'Identifier';
+        const reference = readsVanillaStore ? args[0].name : calleeName;
+        const usage: ZustandUsageInfo = {
+            reference,
+            keys: [],
+            location: {
+                line: path.node.loc ? path.node.loc.start.line : 0,
+                column: path.node.loc ? path.node.loc.start.column : 0
+            }
+        };
+        const binding = imports.get(reference);
+        if (binding) {
+            usage.source = binding.source;
+            usage.importedName = binding.importedName;
+        }
+        
+        // The selector may be wrapped for shallow comparison (useShallow((s) => ...))
+        let selectorPath = path.get(`arguments.${readsVanillaStore ? 1 : 0}`);
+        while (selectorPath?.node?.type === 'CallExpression' && selectorPath.node.arguments.length > 0) {
+            selectorPath = selectorPath.get('arguments.0');
+        }
+        
+        if (selectorPath?.node && this.isFunctionNode(selectorPath.node)) {
+            usage.keys = this.getStatePaths(selectorPath);
+        } else if (path.parent.type === 'VariableDeclarator' && path.parent.id.type === 'ObjectPattern') {
+            // const { items, addItem } = useCartStore()
+            usage.keys = this.getObjectKeys(path.parent.id);
+        }
+        if (usage.keys.length === 0) {
+            usage.keys = ['*'];
+        }
+        return usage;
+    }
+
+    /**
+     * Finds the MobX stores defined at the top level of a file: classes calling makeAutoObservable(this) or
+     * makeObservable(this) in their constructor or using MobX decorators, objects passed to makeAutoObservable
+     * or observable, and the top-level instances of those classes.
+     */
+    private findMobxStores(ast: any, relativePath: string, imports: Map<string, ImportBinding>): MobxStoreInfo[] {
+        const stores: MobxStoreInfo[] = [];
+        const definitions: ComponentDefinition[] = [];
+        const isMobxCall = (node: any): boolean => node?.type === 'CallExpression' && node.callee.type === 'Identifier' &&
+            imports.get(node.callee.name)?.source === 'mobx' && MOBX_OBSERVABLE_FUNCTIONS.includes(imports.get(node.callee.name)!.importedName);
+        const getLocation = (node: any) => ({
+            line: node.loc ? node.loc.start.line : 0,
+            column: node.loc ? node.loc.start.column : 0
+        });
+        
+        traverse(ast, {
+            Program: (programPath) => {
+                const statements = (programPath.get('body') as any[]).map(statementPath =>
+                    ['ExportNamedDeclaration', 'ExportDefaultDeclaration'].includes(statementPath.node.type)
+                        ? statementPath.get('declaration')
+                        : statementPath);
+                
+                for (const statementPath of statements) {
+                    const node = statementPath.node;
+                    if (node?.type === 'ClassDeclaration' && node.id) {
+                        const members = this.getMobxClassMembers(node, isMobxCall);
+                        if (members) {
+                            stores.push({ name: node.id.name, filePath: relativePath, kind: 'class', ...members, instances: [], location: getLocation(node) });
+                            definitions.push({ name: node.id.name, path: statementPath });
+                        }
+                    } else if (node?.type === 'VariableDeclaration') {
+                        for (const declarator of node.declarations) {
+                            const init = declarator.init;
+                            if (declarator.id.type !== 'Identifier' || !isMobxCall(init) || init.arguments[0]?.type !== 'ObjectExpression') {
+                                continue;
+                            }
+                            stores.push({
+                                name: declarator.id.name,
+                                filePath: relativePath,
+                                kind: 'object',
+                                ...this.getObservableMembers(init.arguments[0].properties),
+                                instances: [],
+                                location: getLocation(declarator)
+                            });
+                            definitions.push({ name: declarator.id.name, path: statementPath });
+                        }
+                    }
+                }
+                
+                // Instances of class stores (export const cartStore = new CartStore())
+                for (const statementPath of statements) {
+                    for (const declarator of statementPath.node?.type === 'VariableDeclaration' ? statementPath.node.declarations : []) {
+                        const init = declarator.init;
+                        const store = declarator.id.type === 'Identifier' && init?.type === 'NewExpression' && init.callee.type === 'Identifier'
+                            ? stores.find(s => s.kind === 'class' && s.name === init.callee.name)
+                            : undefined;
+                        if (store) {
+                            store.instances.push(declarator.id.name);
+                            definitions.push({ name: declarator.id.name, path: statementPath });
+                        }
+                    }
+                }
+                programPath.stop();
+            }
+        });
+        
+        // A store is referenced through its class or any of its instances
+        this.collectExportNames(ast, definitions);
+        for (const store of stores) {
+            const exportNames = definitions
+                .filter(definition => definition.name === store.name || store.instances.includes(definition.name))
+                .flatMap(definition => definition.exportNames || []);
+            if (exportNames.length > 0) {
+                store.exportNames = exportNames;
+            }
+        }
+        return stores;
+    }
+
+    /**
+     * Gets the observables, computeds and actions of a MobX store class, or null when the class is not observable.
+     * makeObservable(this, { items: observable, add: action }) annotations take precedence over the class members.
+     */
+    private getMobxClassMembers(
+        classNode: any,
+        isMobxCall: (node: any) => boolean
+    ): { observables: string[]; computeds: string[]; actions: string[] } | null {
+        const members = { observables: [] as string[], computeds: [] as string[], actions: [] as string[] };
+        const getAnnotation = (node: any): string | undefined => {
+            // observable.ref, action.bound, computed({ equals }), @observable
+            let expression = node?.type === 'CallExpression' ? node.callee : node;
+            while (expression?.type === 'MemberExpression') {
+                expression = expression.object;
+            }
+            return expression?.type === 'Identifier' ? expression.name : undefined;
+        };
+        const addMember = (name: string, annotation: string | undefined) => {
+            if (annotation === 'computed') {
+                members.computeds.push(name);
+            } else if (annotation === 'action' || annotation === 'flow') {
+                members.actions.push(name);
+            } else if (annotation?.startsWith('observable')) {
+                members.observables.push(name);
+            }
+        };
+        
+        const constructor = classNode.body.body.find((member: any) => member.type === 'ClassMethod' && member.kind === 'constructor');
+        const observableCall = constructor?.body.body
+            .map((statement: any) => statement.type === 'ExpressionStatement' ? statement.expression : null)
+            .find((expression: any) => isMobxCall(expression) && expression.arguments[0]?.type === 'ThisExpression');
+        const annotations = observableCall?.arguments[1]?.type === 'ObjectExpression' ? observableCall.arguments[1] : null;
+        const decorated = classNode.body.body.filter((member: any) => member.decorators && member.decorators.length > 0);
+        
+        if (annotations) {
+            for (const property of annotations.properties) {
+                const name = property.key?.type === 'Identifier' ? property.key.name : property.key?.value;
+                if (typeof name === 'string' && property.type === 'ObjectProperty') {
+                    addMember(name, getAnnotation(property.value));
+                }
+            }
+        } else if (decorated.length > 0) {
+            for (const member of decorated) {
+                const name = member.key?.type === 'Identifier' ? member.key.name : undefined;
+                if (name) {
+                    addMember(name, getAnnotation(member.decorators[0].expression));
+                }
+            }
+        } else if (observableCall) {
+            // makeAutoObservable makes fields observable, getters computed and methods actions
+            const fields = classNode.body.body.filter((member: any) => member.type !== 'ClassMethod' || member.kind !== 'constructor');
+            Object.assign(members, this.getObservableMembers(fields));
+        }
+        
+        const isStore = members.observables.length + members.computeds.length + members.actions.length > 0;
+        return isStore || observableCall ? members : null;
+    }
+
+    /**
+     * Splits object or class members the way makeAutoObservable annotates them:
+     * getters are computeds, functions are actions and everything else is observable.
+     */
+    private getObservableMembers(properties: any[]): { observables: string[]; computeds: string[]; actions: string[] } {
+        const members = { observables: [] as string[], computeds: [] as string[], actions: [] as string[] };
+        for (const property of properties) {
+            if (property.static || property.computed) {
+                continue;
+            }
+            const name = property.key?.type === 'Identifier' ? property.key.name : property.key?.value;
+            if (typeof name !== 'string') {
+                continue;
+            }
+            
+            const isMethod = property.type === 'ObjectMethod' || property.type === 'ClassMethod';
+            if (isMethod && property.kind === 'get') {
+                members.computeds.push(name);
+            } else if (isMethod || (property.value && this.isFunctionNode(property.value))) {
+                if (!(isMethod && property.kind === 'set')) {
+                    members.actions.push(name);
+                }
+            } else {
+                members.observables.push(name);
+            }
+        }
+        return members;
+    }
+
+    /**
+     * Finds the Recoil and Jotai atoms, selectors and families defined at the top level of a file,
+     * with the atoms each of them reads and writes.
+     */
+    private findAtoms(ast: any, relativePath: string, imports: Map<string, ImportBinding>): AtomInfo[] {
+        const atoms: AtomInfo[] = [];
+        const definitions: ComponentDefinition[] = [];
+        
+        traverse(ast, {
+            Program: (programPath) => {
+                for (let statementPath of programPath.get('body') as any[]) {
+                    if (statementPath.node.type === 'ExportNamedDeclaration') {
+                        statementPath = statementPath.get('declaration');
+                    }
+                    if (statementPath.node?.type !== 'VariableDeclaration') {
+                        continue;
+                    }
+                    
+                    for (const declaratorPath of statementPath.get('declarations')) {
+                        const declarator = declaratorPath.node;
+                        const definition = declarator.id.type === 'Identifier' && declarator.init
+                            ? this.getAtomDefinition(declarator.init, imports)
+                            : null;
+                        if (!definition) {
+                            continue;
+                        }
+                        
+                        atoms.push({
+                            name: declarator.id.name,
+                            filePath: relativePath,
+                            ...definition,
+                            ...this.getAtomReferences(declaratorPath.get('init'), imports),
+                            location: {
+                                line: declarator.loc ? declarator.loc.start.line : 0,
+                                column: declarator.loc ? declarator.loc.start.column : 0
+                            }
+                        });
+                        definitions.push({ name: declarator.id.name, path: statementPath });
+                    }
+                }
+                programPath.stop();
+            }
+        });
+        
+        this.collectExportNames(ast, definitions);
+        for (const atom of atoms) {
+            atom.exportNames = definitions.find(definition => definition.name === atom.name)?.exportNames;
+        }
+        return atoms;
+    }
+
+    /**
+     * Gets the library, kind and key of an atom definition call: Recoil atom, selector, atomFamily and selectorFamily,
+     * Jotai atom (derived when it takes a read function), atomFamily, atomWithStorage and the deriving utilities.
+     */
+    private getAtomDefinition(
+        node: any,
+        imports: Map<string, ImportBinding>
+    ): Pick<AtomInfo, 'library' | 'kind' | 'family' | 'key'> | null {
+        const binding = node.type === 'CallExpression' && node.callee.type === 'Identifier' ? imports.get(node.callee.name) : undefined;
+        if (!binding) {
+            return null;
+        }
+        const args = node.arguments;
+        
+        if (binding.source === 'recoil' && ['atom', 'selector', 'atomFamily', 'selectorFamily'].includes(binding.importedName)) {
+            const keyProperty = args[0]?.type === 'ObjectExpression' ? args[0].properties.find((property: any) =>
+                property.type === 'ObjectProperty' && property.key.type === 'Identifier' && property.key.name === 'key') : undefined;
+            return {
+                library: 'recoil',
+                kind: binding.importedName.startsWith('selector') ? 'selector' : 'atom',
+                family: binding.importedName.endsWith('Family') || undefined,
+                key: keyProperty?.value.type === 'StringLiteral' ? keyProperty.value.value : undefined
+            };
+        }
+        
+        if (!binding.source.startsWith('jotai')) {
+            return null;
+        }
+        if (binding.importedName === 'atom') {
+            return { library: 'jotai', kind: args[0] && this.isFunctionNode(args[0]) ? 'selector' : 'atom' };
+        }
+        if (binding.importedName === 'atomFamily') {
+            // atomFamily((id) => atom(...)) takes the kind of the atom it creates
+            const body = args[0] && this.isFunctionNode(args[0]) ? args[0].body : null;
+            const member = body ? this.getAtomDefinition(body, imports) : null;
+            return { library: 'jotai', kind: member?.kind || 'atom', family: true };
+        }
+        if (JOTAI_DERIVING_UTILS.includes(binding.importedName)) {
+            return { library: 'jotai', kind: 'selector' };
+        }
+        if (binding.importedName.startsWith('atomWith')) {
+            // atomWithStorage('theme', 'light') persists under its key
+            return { library: 'jotai', kind: 'atom', key: args[0]?.type === 'StringLiteral' ? args[0].value : undefined };
+        }
+        return null;
+    }
+
+    /**
+     * Collects the atoms an atom definition reads with get(), writes with set() or reset(), or derives from (selectAtom(todosAtom, ...)).
+     */
+    private getAtomReferences(initPath: any, imports: Map<string, ImportBinding>): Pick<AtomInfo, 'dependencies' | 'writes'> {
+        const dependencies: AtomReferenceInfo[] = [];
+        const writes: AtomReferenceInfo[] = [];
+        const addReference = (references: AtomReferenceInfo[], node: any) => {
+            // Family members (todoFamily(id)) refer to their family
+            const target = node?.type === 'CallExpression' ? node.callee : node;
+            if (target?.type !== 'Identifier' || references.some(reference => reference.name === target.name)) {
+                return;
+            }
+            const reference: AtomReferenceInfo = { name: target.name };
+            const binding = imports.get(target.name);
+            if (binding) {
+                reference.source = binding.source;
+                reference.importedName = binding.importedName;
+            }
+            references.push(reference);
+        };
+        
+        const callee = initPath.node.callee;
+        if (callee?.type === 'Identifier' && JOTAI_DERIVING_UTILS.includes(imports.get(callee.name)?.importedName || '')) {
+            addReference(dependencies, initPath.node.arguments[0]);
+        }
+        initPath.traverse({
+            CallExpression: (path: any) => {
+                const name = path.node.callee.type === 'Identifier' ? path.node.callee.name : undefined;
+                if (name === 'get') {
+                    addReference(dependencies, path.node.arguments[0]);
+                } else if (name === 'set' || name === 'reset') {
+                    addReference(writes, path.node.arguments[0]);
+                }
+            }
+        });
+        return { dependencies, writes };
+    }
+
+    /**
+     * Extracts the atom a Recoil or Jotai hook accesses and whether it reads, writes or does both.
+     */
+    private extractAtomUsage(path: any, imports: Map<string, ImportBinding>): AtomUsageInfo {
+        const hook = path.node.callee.name;
+        const argument = path.node.arguments[0];
+        const target = argument?.type === 'CallExpression' ? argument.callee : argument;
+        const usage: AtomUsageInfo = {
+            reference: target?.type === 'Identifier' ? target.name : 'Anonymous argument',
+            library: ATOM_HOOKS[hook].library,
+            hook,
+            access: ATOM_HOOKS[hook].access,
+            location: {
+                line: path.node.loc ? path.node.loc.start.line : 0,
+                column: path.node.loc ? path.node.loc.start.column : 0
+            }
+        };
+        const binding = imports.get(usage.reference);
+        if (binding) {
+            usage.source = binding.source;
+            usage.importedName = binding.importedName;
+        }
+        return usage;
+    }
+
+    /**
+     * Extracts the name, state shape and reducers of a createSlice call.
+     */
+    private extractSliceInfo(name: string, optionsPath: any, relativePath: string, location: { line: number; column: number }): ReduxSliceInfo {
+        const slice: ReduxSliceInfo = {
+            name,
+            sliceName: name,
+            filePath: relativePath,
+            stateShape: [],
+            reducers: [],
+            extraReducers: [],
+            location
+        };
+        
+        for (const propertyPath of optionsPath.get('properties')) {
+            const property = propertyPath.node;
+            const key = property.key?.type === 'Identifier' ? property.key.name : property.key?.value;
+            const value = property.type === 'ObjectProperty' ? property.value : null;
+            
+            if (key === 'name' && value?.type === 'StringLiteral') {
+                slice.sliceName = value.value;
+            } else if (key === 'initialState' && value) {
+                // initialState may be declared as a separate variable
+                let stateNode = value;
+                if (stateNode.type === 'Identifier') {
+                    const binding = propertyPath.scope.getBinding(stateNode.name);
+                    stateNode = binding?.path.isVariableDeclarator() ? binding.path.node.init : null;
+                }
+                while (stateNode && (stateNode.type === 'TSAsExpression' || stateNode.type === 'TSSatisfiesExpression')) {
+                    stateNode = stateNode.expression;
+                }
+                slice.stateShape = stateNode?.type === 'ObjectExpression' ? this.getObjectKeys(stateNode) : [];
+            } else if (key === 'reducers' && value) {
+                // reducers: { add() {} } or reducers: (create) => ({ add: create.reducer(...) })
+                const reducers = this.isFunctionNode(value) && value.body.type === 'ObjectExpression' ? value.body : value;
+                slice.reducers = reducers.type === 'ObjectExpression' ? this.getObjectKeys(reducers) : [];
+            } else if (key === 'extraReducers') {
+                slice.extraReducers = this.getExtraReducerCases(propertyPath.get(property.type === 'ObjectMethod' ? 'body' : 'value'));
+            }
+        }
+        
+        return slice;
+    }
+
+    /**
+     * Lists the actions handled in extraReducers, in builder (builder.addCase(fetchUser.fulfilled)) or object form.
+     */
+    private getExtraReducerCases(valuePath: any): string[] {
+        if (valuePath.isObjectExpression()) {
+            return valuePath.node.properties
+                .filter((property: any) => property.key)
+                .map((property: any) => property.computed ? this.describeExpression(property.key) || '?' : property.key.name || property.key.value);
+        }
+        
+        // Chained calls are visited outermost first, so cases are ordered by where their method is named
+        const cases: { start: number; name: string }[] = [];
+        valuePath.traverse({
+            CallExpression: (callPath: any) => {
+                const callee = callPath.node.callee;
+                if (callee.type !== 'MemberExpression' || callee.property.type !== 'Identifier') {
+                    return;
+                }
+                const firstArgument = callPath.node.arguments[0];
+                const start = callee.property.start;
+                if (callee.property.name === 'addCase' && firstArgument) {
+                    cases.push({ start, name: firstArgument.type === 'StringLiteral' ? firstArgument.value : this.describeExpression(firstArgument) || '?' });
+                } else if (callee.property.name === 'addMatcher' && firstArgument) {
+                    cases.push({ start, name: `matcher: ${this.describeExpression(firstArgument) || '?'}` });
+                } else if (callee.property.name === 'addDefaultCase') {
+                    cases.push({ start, name: 'default' });
+                }
+            }
+        });
+        return cases.sort((a, b) => a.start - b.start).map(extraReducer => extraReducer.name);
+    }
+
+    /**
+     * Collects the state paths read by the input selectors of a createSelector call.
+     */
+    private getSelectorInputPaths(callPath: any, localSelectors: ReduxSelectorInfo[]): string[] {
+        const argumentPaths = callPath.get('arguments') as any[];
+        // The last argument is the result function, inputs may also be passed as an array
+        let inputPaths = argumentPaths.slice(0, -1);
+        if (inputPaths.length === 1 && inputPaths[0].isArrayExpression()) {
+            inputPaths = inputPaths[0].get('elements');
+        }
+        
+        const paths = new Set<string>();
+        for (const inputPath of inputPaths) {
+            if (inputPath.isIdentifier()) {
+                localSelectors.find(selector => selector.name === inputPath.node.name)?.statePaths.forEach(p => paths.add(p));
+            } else if (this.isFunctionNode(inputPath.node)) {
+                this.getStatePaths(inputPath).forEach(p => paths.add(p));
+            }
+        }
+        return Array.from(paths).sort();
+    }
+
+    /**
+     * Collects the root state paths a selector function reads (state => state.cart.items reads cart.items).
+     */
+    private getStatePaths(functionPath: any): string[] {
+        const param = functionPath.node.params[0];
+        if (!param) {
+            return [];
+        }
+        
+        // Local names of the state and of destructured slices (({ cart }) => cart.items)
+        const prefixes = new Map<string, string>();
+        if (param.type === 'Identifier') {
+            prefixes.set(param.name, '');
+        } else if (param.type === 'ObjectPattern') {
+            for (const property of param.properties) {
+                if (property.type === 'ObjectProperty' && property.key.type === 'Identifier' && property.value.type === 'Identifier') {
+                    prefixes.set(property.value.name, property.key.name);
+                }
+            }
+        }
+        
+        const paths = new Set<string>();
+        functionPath.traverse({
+            Identifier: (refPath: any) => {
+                const prefix = prefixes.get(refPath.node.name);
+                if (prefix === undefined || !refPath.isReferencedIdentifier() ||
+                    refPath.scope.getBinding(refPath.node.name)?.scope !== functionPath.scope) {
+                    return;
+                }
+                
+                // Follow property reads, stopping before method calls (state.todos.filter())
+                const segments = prefix ? [prefix] : [];
+                let current = refPath;
+                while (current.parentPath.isMemberExpression() && current.parent.object === current.node &&
+                    !current.parent.computed && current.parent.property.type === 'Identifier') {
+                    const member = current.parentPath;
+                    if (member.parentPath.isCallExpression() && member.parent.callee === member.node) {
+                        break;
+                    }
+                    segments.push(member.node.property.name);
+                    current = member;
+                }
+                if (segments.length > 0) {
+                    paths.add(segments.join('.'));
+                }
+            }
+        });
+        return Array.from(paths).sort();
+    }
+
+    /**
+     * Finds the custom hooks (functions named useXxx) defined at the top level of a file.
+     */
+    private findHookDefinitions(filePath: string, ast: any): ComponentDefinition[] {
+        const definitions: ComponentDefinition[] = [];
+        const fileNameWithoutExt = path.basename(filePath).split('.')[0];
+        
+        traverse(ast, {
+            Program: (programPath) => {
+                for (let statementPath of programPath.get('body') as any[]) {
+                    const isDefaultExport = statementPath.node.type === 'ExportDefaultDeclaration';
+                    if (statementPath.node.type === 'ExportNamedDeclaration' || isDefaultExport) {
+                        statementPath = statementPath.get('declaration');
+                    }
+                    const node = statementPath.node;
+                    if (!node) {
+                        continue;
+                    }
+                    
+                    if (node.type === 'FunctionDeclaration' && node.id && this.isHookName(node.id.name)) {
+                        // function useCart() {}
+                        definitions.push({ name: node.id.name, path: statementPath });
+                    } else if (isDefaultExport && this.isFunctionNode(node) && !node.id && this.isHookName(fileNameWithoutExt)) {
+                        // export default function () {} in useCart.ts
+                        definitions.push({ name: fileNameWithoutExt, path: statementPath });
+                    } else if (node.type === 'VariableDeclaration') {
+                        // const useCart = () => {}
+                        for (const declaratorPath of statementPath.get('declarations')) {
+                            const declarator = declaratorPath.node;
+                            if (declarator.id.type === 'Identifier' && this.isHookName(declarator.id.name) &&
+                                declarator.init && this.isFunctionNode(declarator.init)) {
+                                definitions.push({ name: declarator.id.name, path: declaratorPath.get('init') });
+                            }
+                        }
+                    }
+                }
+                programPath.stop();
+            }
+        });
+        
+        return definitions;
+    }
+
+    /**
+     * Extracts the parameters, return shape and internal hook usage of a custom hook.
+     */
+    private extractCustomHookInfo(
+        definition: ComponentDefinition,
+        relativePath: string,
+        definitionNodes: Set<any>,
+        imports: Map<string, ImportBinding>
+    ): CustomHookInfo {
+        // Hook bodies are traversed like component bodies
+        const details: ComponentInfo = {
+            name: definition.name,
+            filePath: relativePath,
+            hooks: [],
+            states: [],
+            contexts: [],
+            props: []
+        };
+        this.extractComponentDetails(definition.path, details, definitionNodes, imports);
+        
+        return {
+            name: definition.name,
+            filePath: relativePath,
+            params: definition.path.node.params.map((param: any) => this.formatParam(param)),
+            returnShape: this.extractReturnShape(definition.path),
+            hooks: details.hooks,
+            states: details.states,
+            effects: details.hooks.filter(hook => EFFECT_HOOKS.includes(hook.name)),
+            contexts: details.contexts,
+            storeUsage: details.storeUsage,
+            queryKeys: details.queryKeys,
+            atomUsage: details.atomUsage,
+            hookCalls: details.hookCalls || [],
+            exportNames: definition.exportNames
+        };
+    }
+
+    /**
+     * Formats a function parameter (id, { a, b }, options = {}, ...rest).
+     */
+    private formatParam(param: any): string {
+        switch (param.type) {
+            case 'Identifier':
+                return param.name;
+            case 'ObjectPattern':
+                return `{ ${param.properties.map((prop: any) =>
+                    prop.type === 'RestElement' ? `...${prop.argument.name}` : prop.key?.name || '?').join(', ')} }`;
+            case 'ArrayPattern':
+                return `[${param.elements.filter(Boolean).map((element: any) => this.formatParam(element)).join(', ')}]`;
+            case 'AssignmentPattern':
+                return `${this.formatParam(param.left)} = ${this.formatInitialValue(param.right) || '...'}`;
+            case 'RestElement':
+                return `...${this.formatParam(param.argument)}`;
+            case 'TSParameterProperty':
+                return this.formatParam(param.parameter);
+            default:
+                return '?';
+        }
+    }
+
+    /**
+     * Describes what a custom hook returns ({ items, addItem }, [value, setValue], user).
+     * Returns of nested functions are ignored.
+     */
+    private extractReturnShape(functionPath: any): string | undefined {
+        const body = functionPath.node.body;
+        if (body.type !== 'BlockStatement') {
+            return this.describeExpression(body);
+        }
+        
+        let shape: string | undefined;
+        functionPath.traverse({
+            Function: (path: any) => {
+                path.skip();
+            },
+            ReturnStatement: (path: any) => {
+                if (!shape && path.node.argument) {
+                    shape = this.describeExpression(path.node.argument);
+                }
+            }
+        });
+        return shape;
+    }
+
+    /**
+     * Describes an expression briefly ({ items, addItem }, [value, setValue], user.name, fetchUser()).
+     */
+    private describeExpression(node: any): string | undefined {
+        switch (node.type) {
+            case 'ObjectExpression':
+                return `{ ${node.properties.map((prop: any) => {
+                    if (prop.type === 'SpreadElement') {
+                        return `...${this.describeExpression(prop.argument) || 'spread'}`;
+                    }
+                    return prop.key?.type === 'Identifier' ? prop.key.name : prop.key?.value ?? '?';
+                }).join(', ')} }`;
+            case 'ArrayExpression':
+                return `[${node.elements.map((element: any) => element ? this.describeExpression(element) || '?' : '').join(', ')}]`;
+            case 'Identifier':
+                return node.name;
+            case 'MemberExpression':
+                return node.property.type === 'Identifier' ? `${this.describeExpression(node.object) || '?'}.${node.property.name}` : undefined;
+            case 'CallExpression':
+                return `${this.describeExpression(node.callee) || 'function'}()`;
+            case 'TSAsExpression':
+            case 'TSSatisfiesExpression':
+                return this.describeExpression(node.expression);
+            default:
+                return this.formatInitialValue(node);
+        }
+    }
+
+    /**
+     * Checks if a name follows the hook naming convention (useCart).
+     */
+    private isHookName(name: string): boolean {
+        return /^use[A-Z0-9]/.test(name);
+    }
+
+    /**
+     * Checks if a node is a function expression, arrow function or function declaration.
+     */
+    private isFunctionNode(node: any): boolean {
+        return node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression' || node.type === 'FunctionDeclaration';
+    }
+
+    /**
+     * Extracts Props information for the components of a file.
+     */
+    public extractProps(filePath: string, components: ComponentInfo[]): void {
+        if (!this.programProvider) {
+            return;
+        }
+        
+        try {
+            const docs = this.programProvider.parseComponentDocs(filePath);
+            
+            for (const componentInfo of components) {
+                const doc = this.findComponentDoc(docs, componentInfo, components.length);
+                
+                if (!doc) {
+                    continue;
+                }
+                
+                for (const propName in doc.props) {
+                    const prop = doc.props[propName];
+                    const propInfo: PropInfo = {
+                        name: propName,
+                        type: prop.type?.name || 'unknown',
+                        required: prop.required || false,
+                        defaultValue: prop.defaultValue?.value,
+                        description: prop.description
+                    };
+                    
+                    // Docgen information replaces props already collected from propTypes
+                    const index = componentInfo.props.findIndex(p => p.name === propName);
+                    if (index >= 0) {
+                        componentInfo.props[index] = propInfo;
+                    } else {
+                        componentInfo.props.push(propInfo);
+                    }
+                }
+                
+                componentInfo.description = doc.description;
+            }
+        } catch (docgenError) {
+            console.log(`Failed to analyze props for ${filePath}:`, docgenError);
+        }
+    }
+
+    /**
+     * Finds the documentation of a component: by the name it is exported under, then by display name,
+     * falling back to the only entry of single-component files.
+     */
+    private findComponentDoc(docs: reactDocgenTypescript.ComponentDoc[], componentInfo: ComponentInfo, componentCount: number): reactDocgenTypescript.ComponentDoc | undefined {
+        return docs.find(doc => doc.expression && componentInfo.exportNames?.includes(doc.expression.getName())) ||
+            docs.find(doc => doc.displayName === componentInfo.name) ||
+            (docs.length === 1 && componentCount === 1 ? docs[0] : undefined);
+    }
+
+    /**
+     * Finds the component definitions of a file along with the paths of their bodies.
+     */
+    private findComponentDefinitions(filePath: string, ast: any): ComponentDefinition[] {
+        const definitions: ComponentDefinition[] = [];
+        const references: UnwrappedComponent[] = [];
+        let programPath: any = null;
+        
+        // Extract component name from filename
+        const pathParts = filePath.split(/[\/\\]/);
+        const fileName = pathParts[pathParts.length - 1];
+        const fileNameWithoutExt = fileName.split('.')[0];
+        
+        traverse(ast, {
+            Program: (path) => {
+                programPath = path;
+            },
+            FunctionDeclaration: (path) => {
+                // Function declaration style component (function MyComponent(){})
+                if (path.node.id && this.isPascalCase(path.node.id.name)) {
+                    definitions.push({ name: path.node.id.name, path });
+                }
+            },
+            ClassDeclaration: (path) => {
+                // Class component (class MyComponent extends React.Component {})
+                if (!this.isReactComponentClass(path.node)) {
+                    return;
+                }
+                if (path.node.id && this.isPascalCase(path.node.id.name)) {
+                    definitions.push({ name: path.node.id.name, path });
+                } else if (!path.node.id && this.isPascalCase(fileNameWithoutExt)) {
+                    definitions.push({ name: fileNameWithoutExt, path });
+                }
+            },
+            VariableDeclarator: (path) => {
+                // Variable declaration style component (const MyComponent = () => {})
+                if (path.node.id.type !== 'Identifier' || !this.isPascalCase(path.node.id.name)) {
+                    return;
+                }
+                
+                const name = path.node.id.name;
+                if (path.node.init?.type === 'ArrowFunctionExpression' || 
+                    path.node.init?.type === 'FunctionExpression' ||
+                    (path.node.init?.type === 'ClassExpression' && this.isReactComponentClass(path.node.init))) {
+                    definitions.push({ name, path: path.get('init') });
+                    return;
+                }
+                
+                // Wrapped component (const MyComponent = memo(forwardRef(() => {})))
+                const unwrapped = this.unwrapComponent(path.get('init'));
+                if (unwrapped) {
+                    this.addWrappedDefinition(name, path.get('init'), unwrapped, definitions);
+                }
+            },
+            ExportDefaultDeclaration: (path) => {
+                const declaration = path.node.declaration;
+                
+                // Use filename for anonymous function default exports
+                if ((declaration.type === 'ArrowFunctionExpression' || 
+                     declaration.type === 'FunctionExpression' ||
+                     (declaration.type === 'FunctionDeclaration' && !declaration.id)) &&
+                    this.isPascalCase(fileNameWithoutExt)) {
+                    definitions.push({ name: fileNameWithoutExt, path: path.get('declaration') });
+                    return;
+                }
+                
+                // Wrapped default export (export default withRouter(connect(mapState)(Profile)))
+                const unwrapped = this.unwrapComponent(path.get('declaration'));
+                if (unwrapped?.reference) {
+                    // Wrappers around a component defined elsewhere in the file are applied to it afterwards
+                    references.push(unwrapped);
+                } else if (unwrapped) {
+                    const innerName = unwrapped.functionPath?.node.id?.name;
+                    const name = innerName && this.isPascalCase(innerName) ? innerName : fileNameWithoutExt;
+                    if (this.isPascalCase(name)) {
+                        this.addWrappedDefinition(name, path.get('declaration'), unwrapped, definitions);
+                    }
+                }
+            }
+        });
+        
+        // Apply wrappers around components that are defined separately (export default memo(Button))
+        for (const reference of references) {
+            const definition = definitions.find(d => d.name === reference.reference);
+            if (definition) {
+                definition.wrappers = [...reference.wrappers, ...(definition.wrappers || [])];
+            }
+        }
+        
+        // Treat the whole file as the component when no definition is found but the filename looks like one
+        if (definitions.length === 0 && programPath && this.isPascalCase(fileNameWithoutExt)) {
+            definitions.push({ name: fileNameWithoutExt, path: programPath });
+        }
+        
+        return definitions;
+    }
+
+    /**
+     * Collects the local bindings created by import declarations.
+     */
+    private collectImports(ast: any): Map<string, ImportBinding> {
+        const imports = new Map<string, ImportBinding>();
+        
+        for (const statement of ast.program.body) {
+            if (statement.type !== 'ImportDeclaration') {
+                continue;
+            }
+            
+            for (const specifier of statement.specifiers) {
+                let importedName = '*';
+                if (specifier.type === 'ImportDefaultSpecifier') {
+                    importedName = 'default';
+                } else if (specifier.type === 'ImportSpecifier') {
+                    importedName = specifier.imported.type === 'Identifier' ? specifier.imported.name : specifier.imported.value;
+                }
+                imports.set(specifier.local.name, { source: statement.source.value, importedName });
+            }
+        }
+        
+        return imports;
+    }
+
+    /**
+     * Records the names under which each component definition is exported.
+     */
+    private collectExportNames(ast: any, definitions: ComponentDefinition[]): void {
+        const exportsByLocal = new Map<string, string[]>();
+        const addExport = (localName: string, exportedName: string) => {
+            exportsByLocal.set(localName, [...(exportsByLocal.get(localName) || []), exportedName]);
+        };
+        
+        for (const statement of ast.program.body) {
+            if (statement.type === 'ExportNamedDeclaration' && !statement.source) {
+                const declaration = statement.declaration;
+                if (declaration?.type === 'VariableDeclaration') {
+                    for (const declarator of declaration.declarations) {
+                        if (declarator.id.type === 'Identifier') {
+                            addExport(declarator.id.name, declarator.id.name);
+                        }
+                    }
+                } else if (declaration?.id) {
+                    addExport(declaration.id.name, declaration.id.name);
+                }
+                
+                for (const specifier of statement.specifiers) {
+                    if (specifier.type === 'ExportSpecifier') {
+                        const exportedName = specifier.exported.type === 'Identifier' ? specifier.exported.name : specifier.exported.value;
+                        addExport(specifier.local.name, exportedName);
+                    }
+                }
+            } else if (statement.type === 'ExportDefaultDeclaration') {
+                const declaration = statement.declaration;
+                
+                // Components defined inside the default export (export default memo(() => {}))
+                const inlineDefinition = definitions.find(definition =>
+                    definition.path.node.start >= declaration.start && definition.path.node.end <= declaration.end);
+                if (inlineDefinition && !declaration.id) {
+                    inlineDefinition.exportNames = [...(inlineDefinition.exportNames || []), 'default'];
+                    continue;
+                }
+                
+                // Default export of a named component, possibly wrapped (export default connect(mapState)(Profile))
+                let node = declaration;
+                while (node && (node.type === 'CallExpression' || node.type === 'TaggedTemplateExpression')) {
+                    node = node.type === 'CallExpression' ? node.arguments[0] : node.tag;
+                }
+                if (node?.type === 'Identifier') {
+                    addExport(node.name, 'default');
+                } else if (declaration.id) {
+                    addExport(declaration.id.name, 'default');
+                }
+            }
+        }
+        
+        for (const definition of definitions) {
+            const exportNames = exportsByLocal.get(definition.name);
+            if (exportNames) {
+                definition.exportNames = [...(definition.exportNames || []), ...exportNames];
+            }
+        }
+    }
+
+    /**
+     * Records a component created by wrapping a function or another component.
+     */
+    private addWrappedDefinition(name: string, wrapperPath: any, unwrapped: UnwrappedComponent, definitions: ComponentDefinition[]): void {
+        definitions.push({
+            name,
+            // Components without their own body (lazy, styled.div``) are analyzed through the wrapper call
+            path: unwrapped.functionPath || wrapperPath,
+            wrappers: unwrapped.wrappers,
+            wrappedComponent: unwrapped.reference,
+            lazySource: unwrapped.lazySource
+        });
+    }
+
+    /**
+     * Unwraps known wrapper calls around a component, collecting the wrapper chain from the outside in.
+     */
+    private unwrapComponent(path: any, wrappers: string[] = []): UnwrappedComponent | null {
+        const node = path.node;
+        if (!node) {
+            return null;
+        }
+        
+        if (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression' ||
+            (node.type === 'ClassExpression' && this.isReactComponentClass(node))) {
+            return wrappers.length > 0 ? { wrappers, functionPath: path } : null;
+        }
+        
+        // Only capitalized names can be components (memo(Card), not connect(mapState))
+        if (node.type === 'Identifier') {
+            return wrappers.length > 0 && /^[A-Z]/.test(node.name) ? { wrappers, reference: node.name } : null;
+        }
+        
+        // Styled components (styled.div`...`, styled(Button)`...`)
+        if (node.type === 'TaggedTemplateExpression') {
+            const unwrapped = this.unwrapComponent(path.get('tag'), wrappers);
+            if (unwrapped) {
+                return unwrapped;
+            }
+            return this.getWrapperName(node.tag) === 'styled' ? { wrappers: [...wrappers, 'styled'] } : null;
+        }
+        
+        if (node.type === 'CallExpression') {
+            const wrapperName = this.getWrapperName(node.callee);
+            if (!wrapperName) {
+                return null;
+            }
+            
+            // connect(mapState) alone is not a component, only the HOC it returns
+            if (CURRIED_WRAPPERS.includes(wrapperName) && node.callee.type !== 'CallExpression') {
+                return null;
+            }
+            
+            const chain = [...wrappers, wrapperName];
+            if (wrapperName === 'lazy') {
+                return { wrappers: chain, lazySource: this.findDynamicImportSource(path) };
+            }
+            
+            const unwrapped = this.unwrapComponent(path.get('arguments.0'), chain);
+            if (unwrapped) {
+                return unwrapped;
+            }
+            return wrapperName === 'styled' ? { wrappers: chain } : null;
+        }
+        
+        return null;
+    }
+
+    /**
+     * Gets the wrapper name of a callee (memo, React.memo, connect(mapState), styled.div).
+     */
+    private getWrapperName(node: any): string | null {
+        if (!node) {
+            return null;
+        }
+        
+        if (node.type === 'Identifier') {
+            return this.wrapperNames.has(node.name) ? node.name : null;
+        }
+        
+        if (node.type === 'MemberExpression') {
+            if (node.property.type === 'Identifier' && this.wrapperNames.has(node.property.name)) {
+                return node.property.name;
+            }
+            return this.getWrapperName(node.object);
+        }
+        
+        // Curried HOCs (connect(mapState)(Component))
+        if (node.type === 'CallExpression') {
+            return this.getWrapperName(node.callee);
+        }
+        
+        return null;
+    }
+
+    /**
+     * Finds the module loaded by a lazy() call (lazy(() => import('./Page'))).
+     */
+    private findDynamicImportSource(path: any): string | undefined {
+        let source: string | undefined;
+        
+        path.traverse({
+            CallExpression: (innerPath: any) => {
+                const args = innerPath.node.arguments;
+                if (innerPath.node.callee.type === 'Import' && args.length > 0 && args[0].type === 'StringLiteral') {
+                    source = args[0].value;
+                    innerPath.stop();
+                }
+            }
+        });
+        
+        return source;
+    }
+
+    /**
+     * Builds a display name showing the wrapper chain (memo(forwardRef(Button))).
+     */
+    private getWrappedDisplayName(name: string, wrappers: string[]): string {
+        return wrappers.reduceRight((inner, wrapper) => `${wrapper}(${inner})`, name);
+    }
+
+    /**
+     * Checks if a class extends React.Component or React.PureComponent.
+     */
+    private isReactComponentClass(node: any): boolean {
+        const superClassName = this.getSuperClassName(node.superClass);
+        return superClassName === 'Component' || superClassName === 'PureComponent';
+    }
+
+    /**
+     * Gets the name of a super class (Component, React.PureComponent).
+     */
+    private getSuperClassName(node: any): string | null {
+        if (!node) {
+            return null;
+        }
+        if (node.type === 'Identifier') {
+            return node.name;
+        }
+        if (node.type === 'MemberExpression' && node.property.type === 'Identifier') {
+            return node.property.name;
+        }
+        return null;
+    }
+
+    /**
+     * Checks if a node is a class declaration or expression.
+     */
+    private isClassNode(node: any): boolean {
+        return node.type === 'ClassDeclaration' || node.type === 'ClassExpression';
+    }
+
+    /**
+     * Checks if a string is in PascalCase.
+     */
+    private isPascalCase(str: string): boolean {
+        return /^[A-Z][A-Za-z0-9]*$/.test(str);
+    }
+
+    /**
+     * Traverses a component body to extract component details.
+     * Nested component definitions are skipped so that each component only owns its own hooks.
+     */
+    private extractComponentDetails(
+        componentPath: any,
+        componentInfo: ComponentInfo,
+        definitionNodes: Set<any>,
+        imports: Map<string, ImportBinding>
+    ): void {
+        // Initialize
+        componentInfo.hooks = [];
+        componentInfo.states = [];
+        componentInfo.contexts = [];
+        componentInfo.storeUsage = [];
+        componentInfo.renders = [];
+        componentInfo.hookCalls = [];
+        componentInfo.providers = [];
+        componentInfo.childrenParents = [];
+        componentInfo.unstableSelectors = [];
+        componentInfo.queryKeys = [];
+        
+        // Index of each rendered component element in componentInfo.renders
+        const renderIndexes = new Map<any, number>();
+
+        if (this.isClassNode(componentPath.node)) {
+            this.extractClassDetails(componentPath, componentInfo, imports);
+        }
+
+        componentPath.traverse({
+            'Function|Class': (path: any) => {
+                // Hooks of nested components belong to those components
+                if (definitionNodes.has(path.node)) {
+                    path.skip();
+                }
+            },
+            CallExpression: (path: any) => {
+                const hookName = this.getHookName(path.node.callee);
+                
+                // Detect React hook usage (useState, useEffect, React.useMemo, etc.)
+                if (hookName) {
+                    // Record custom hook calls, resolved to their definitions when the hook graph is built
+                    if (this.isHookName(hookName) && !REACT_HOOKS.includes(hookName)) {
+                        componentInfo.hookCalls!.push(this.extractHookCallInfo(path, imports));
+                    }
+                    
+                    // Every call site is recorded, so repeated hooks each keep their own location and value
+                    componentInfo.hooks.push(this.extractHookInfo(path));
+                    
+                    // Extract state info when useState hook is detected
+                    if (hookName === 'useState') {
+                        const stateInfo = this.extractStateFromUseState(path);
+                        if (stateInfo) {
+                            componentInfo.states.push(stateInfo);
+                        }
+                    }
+                    
+                    // Extract context info when useContext hook is detected
+                    if (hookName === 'useContext') {
+                        const contextInfo = this.extractContextInfo(path, imports);
+                        const existing = contextInfo && componentInfo.contexts.find(c => c.name === contextInfo.name);
+                        if (existing) {
+                            existing.usageLocations.push(...contextInfo!.usageLocations);
+                        } else if (contextInfo) {
+                            componentInfo.contexts.push(contextInfo);
+                        }
+                    }
+                }
+                
+                // Detect state management library usage
+                this.detectStoreUsage(path, componentInfo, imports);
+                
+                const unstableSelector = this.extractUnstableSelector(path);
+                if (unstableSelector) {
+                    componentInfo.unstableSelectors!.push(unstableSelector);
+                }
+            },
+            MemberExpression: (path: any) => {
+                // Reads of MobX store instances (cartStore.items), resolved to their stores later
+                this.detectMobxRead(path, componentInfo, imports);
+            },
+            JSXOpeningElement: (path: any) => {
+                // Detect rendered components (<UserAvatar user={user} />)
+                const renderInfo = this.extractRenderInfo(path, imports);
+                if (!renderInfo) {
+                    return;
+                }
+                
+                const parentIndex = this.findEnclosingRenderIndex(path.parentPath, renderIndexes);
+                if (parentIndex !== undefined) {
+                    renderInfo.parentIndex = parentIndex;
+                }
+                renderIndexes.set(path.parent, componentInfo.renders!.length);
+                componentInfo.renders!.push(renderInfo);
+                
+                // Context providers (<ThemeContext.Provider value={theme}>) and consumers (<ThemeContext.Consumer>)
+                this.extractContextElement(path, renderInfo, componentInfo, imports);
+            },
+            JSXExpressionContainer: (path: any) => {
+                // Elements wrapping {children} pass their providers on to the children of this component
+                if (this.isChildrenReference(path.node.expression)) {
+                    const parentIndex = this.findEnclosingRenderIndex(path, renderIndexes);
+                    if (parentIndex !== undefined && !componentInfo.childrenParents!.includes(parentIndex)) {
+                        componentInfo.childrenParents!.push(parentIndex);
+                    }
+                }
+            }
+        });
+
+        componentInfo.hookCounts = this.countHooks(componentInfo.hooks);
+        componentInfo.forwardedProps = this.extractForwardedProps(componentPath, renderIndexes);
+    }
+
+    /**
+     * Finds the props a function component passes on to rendered components (<Child user={user} />),
+     * and whether it also reads them itself.
+     */
+    private extractForwardedProps(functionPath: any, renderIndexes: Map<any, number>): ForwardedPropInfo[] {
+        const param = this.isFunctionNode(functionPath.node) ? functionPath.node.params[0] : null;
+        if (!param) {
+            return [];
+        }
+        
+        // Local bindings of destructured props ({ user, theme: t }) and the props object name
+        const propBindings: { local: string; prop: string; scope: any }[] = [];
+        const addPattern = (pattern: any, scope: any) => {
+            for (const property of pattern.properties) {
+                if (property.type !== 'ObjectProperty' || property.key.type !== 'Identifier') {
+                    continue;
+                }
+                const value = property.value.type === 'AssignmentPattern' ? property.value.left : property.value;
+                if (value.type === 'Identifier') {
+                    propBindings.push({ local: value.name, prop: property.key.name, scope });
+                }
+            }
+        };
+        
+        const pattern = param.type === 'AssignmentPattern' ? param.left : param;
+        const propsName = pattern.type === 'Identifier' ? pattern.name : null;
+        if (pattern.type === 'ObjectPattern') {
+            addPattern(pattern, functionPath.scope);
+        }
+        
+        const usages = new Map<string, ForwardedPropInfo>();
+        const recordUsage = (prop: string, referencePath: any) => {
+            const usage = usages.get(prop) || { name: prop, readLocally: false, targets: [] };
+            usages.set(prop, usage);
+            
+            // Forwarded as an attribute value of a rendered component (<Child user={user} />)
+            const container = referencePath.parentPath;
+            const attribute = container?.parentPath;
+            if (container?.node.type === 'JSXExpressionContainer' && attribute?.node.type === 'JSXAttribute' &&
+                attribute.node.name.type === 'JSXIdentifier') {
+                const renderIndex = renderIndexes.get(attribute.parentPath.parent);
+                if (renderIndex !== undefined) {
+                    usage.targets.push({ renderIndex, childProp: attribute.node.name.name });
+                    return;
+                }
+            }
+            usage.readLocally = true;
+        };
+        
+        if (propsName) {
+            const binding = functionPath.scope.getBinding(propsName);
+            for (const referencePath of binding?.referencePaths || []) {
+                const parent = referencePath.parent;
+                if (parent.type === 'MemberExpression' && parent.object === referencePath.node && !parent.computed &&
+                    parent.property.type === 'Identifier') {
+                    // props.user
+                    recordUsage(parent.property.name, referencePath.parentPath);
+                } else if (referencePath.parentPath.node.type === 'VariableDeclarator' && parent.id.type === 'ObjectPattern') {
+                    // const { user } = props
+                    addPattern(parent.id, referencePath.parentPath.scope);
+                }
+            }
+        }
+        
+        for (const { local, prop, scope } of propBindings) {
+            for (const referencePath of scope.getBinding(local)?.referencePaths || []) {
+                recordUsage(prop, referencePath);
+            }
+        }
+        
+        return Array.from(usages.values()).filter(usage => usage.targets.length > 0);
+    }
+
+    /**
+     * Finds the index of the nearest enclosing component element of a JSX path.
+     */
+    private findEnclosingRenderIndex(path: any, renderIndexes: Map<any, number>): number | undefined {
+        const parentElement = path.findParent((parentPath: any) => renderIndexes.has(parentPath.node));
+        return parentElement ? renderIndexes.get(parentElement.node) : undefined;
+    }
+
+    /**
+     * Checks if an expression reads the children prop (children, props.children, this.props.children).
+     */
+    private isChildrenReference(node: any): boolean {
+        if (node.type === 'Identifier') {
+            return node.name === 'children';
+        }
+        return node.type === 'MemberExpression' && node.property.type === 'Identifier' && node.property.name === 'children';
+    }
+
+    /**
+     * Records context providers and Consumer render props rendered by a component.
+     */
+    private extractContextElement(path: any, renderInfo: RenderInfo, componentInfo: ComponentInfo, imports: Map<string, ImportBinding>): void {
+        const nameNode = path.node.name;
+        if (nameNode.type !== 'JSXMemberExpression' || nameNode.object.type !== 'JSXIdentifier' ||
+            (nameNode.property.name !== 'Provider' && nameNode.property.name !== 'Consumer')) {
+            return;
+        }
+        
+        const contextName = nameNode.object.name;
+        const binding = imports.get(contextName);
+        const reference = {
+            name: contextName,
+            source: binding?.source,
+            importedName: binding?.importedName
+        };
+        
+        if (nameNode.property.name === 'Provider') {
+            const valueAttribute = path.node.attributes.find((attribute: any) =>
+                attribute.type === 'JSXAttribute' && attribute.name.name === 'value');
+            const valueExpression = valueAttribute?.value?.type === 'JSXExpressionContainer'
+                ? valueAttribute.value.expression
+                : valueAttribute?.value;
+            
+            componentInfo.providers!.push({
+                ...reference,
+                value: valueExpression ? this.describeExpression(valueExpression) : undefined,
+                renderIndex: componentInfo.renders!.length - 1,
+                callLocation: renderInfo.callLocation
+            });
+            return;
+        }
+        
+        const existing = componentInfo.contexts.find(c => c.name === contextName);
+        if (existing) {
+            existing.usageLocations.push(renderInfo.callLocation);
+        } else {
+            componentInfo.contexts.push({
+                ...reference,
+                kind: 'consumer',
+                usageLocations: [renderInfo.callLocation],
+                value: `render prop (from ${contextName}.Consumer)`
+            });
+        }
+    }
+
+    /**
+     * Gets the hook name of a callee (useState, React.useState), or null when it is not a hook.
+     */
+    private getHookName(callee: any): string | null {
+        if (callee.type === 'Identifier' && callee.name.startsWith('use')) {
+            return callee.name;
+        }
+        if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier' && callee.object.name === 'React' &&
+            callee.property.type === 'Identifier' && callee.property.name.startsWith('use')) {
+            return callee.property.name;
+        }
+        return null;
+    }
+
+    /**
+     * Counts the calls of each hook.
+     */
+    private countHooks(hooks: HookInfo[]): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const hook of hooks) {
+            counts[hook.name] = (counts[hook.name] || 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * Extracts a custom hook call along with the import it comes from.
+     */
+    private extractHookCallInfo(path: any, imports: Map<string, ImportBinding>): HookCallInfo {
+        const name = this.getHookName(path.node.callee)!;
+        const hookCallInfo: HookCallInfo = {
+            name,
+            callLocation: {
+                line: path.node.loc ? path.node.loc.start.line : 0,
+                column: path.node.loc ? path.node.loc.start.column : 0
+            }
+        };
+        
+        const binding = imports.get(name);
+        if (binding) {
+            hookCallInfo.source = binding.source;
+            hookCallInfo.importedName = binding.importedName;
+        }
+        
+        return hookCallInfo;
+    }
+
+    /**
+     * Extracts information about a component rendered by a JSX element.
+     */
+    private extractRenderInfo(path: any, imports: Map<string, ImportBinding>): RenderInfo | null {
+        const nameNode = path.node.name;
+        let name: string;
+        let rootName: string;
+        let memberName: string | undefined;
+        
+        if (nameNode.type === 'JSXIdentifier') {
+            // Intrinsic elements (<div>) are not components
+            if (!/^[A-Z]/.test(nameNode.name)) {
+                return null;
+            }
+            name = nameNode.name;
+            rootName = nameNode.name;
+        } else if (nameNode.type === 'JSXMemberExpression') {
+            // Member elements (<UI.Button>, <ThemeContext.Provider>)
+            let object = nameNode.object;
+            while (object.type === 'JSXMemberExpression') {
+                object = object.object;
+            }
+            if (object.type !== 'JSXIdentifier') {
+                return null;
+            }
+            rootName = object.name;
+            memberName = nameNode.property.name;
+            name = this.getJsxElementName(nameNode);
+        } else {
+            return null;
+        }
+        
+        const renderInfo: RenderInfo = {
+            name,
+            props: path.node.attributes.map((attribute: any) => {
+                if (attribute.type === 'JSXSpreadAttribute') {
+                    return `...${attribute.argument.type === 'Identifier' ? attribute.argument.name : 'spread'}`;
                 }
+                return attribute.name.type === 'JSXIdentifier' ? attribute.name.name : `${attribute.name.namespace.name}:${attribute.name.name.name}`;
+            }),
+            callLocation: {
+                line: path.node.loc ? path.node.loc.start.line : 0,
+                column: path.node.loc ? path.node.loc.start.column : 0
             }
-        });
+        };
         
-        // Add filename info if component name not found or different from filename
-        if (!componentName) {
-            if (this.isPascalCase(fileNameWithoutExt)) {
-                return fileNameWithoutExt;
+        // Props that get a new value on every render (style={{ color }}, onClick={() => ...})
+        const unstableProps: UnstableValueInfo[] = [];
+        for (const attribute of path.node.attributes) {
+            if (attribute.type !== 'JSXAttribute' || attribute.name.type !== 'JSXIdentifier' ||
+                !attribute.value || attribute.value.type !== 'JSXExpressionContainer') {
+                continue;
+            }
+            const unstable = this.getUnstableValue(attribute.value.expression, path.scope);
+            if (unstable) {
+                unstableProps.push({
+                    name: attribute.name.name,
+                    ...unstable,
+                    location: {
+                        line: attribute.loc ? attribute.loc.start.line : 0,
+                        column: attribute.loc ? attribute.loc.start.column : 0
+                    }
+                });
+            }
+        }
+        if (unstableProps.length > 0) {
+            renderInfo.unstableProps = unstableProps;
+        }
+        
+        // Resolve the element through the file's imports
+        const binding = imports.get(rootName);
+        if (binding) {
+            renderInfo.source = binding.source;
+            if (!memberName) {
+                renderInfo.importedName = binding.importedName;
+            } else if (binding.importedName === '*' && nameNode.object.type === 'JSXIdentifier') {
+                renderInfo.importedName = memberName;
             }
-            return null;
-        } else if (componentName !== fileNameWithoutExt && this.isPascalCase(fileNameWithoutExt)) {
-            // Show both component name and filename when they differ
-            return `${componentName} (${fileNameWithoutExt})`;
         }
         
-        return componentName;
+        return renderInfo;
     }
 
     /**
-     * Checks if a string is in PascalCase.
+     * Checks if an expression creates a new object, array, function or element on every render,
+     * either inline or through a variable declared in the component body.
      */
-    private isPascalCase(str: string): boolean {
-        return /^[A-Z][A-Za-z0-9]*$/.test(str);
+    private getUnstableValue(node: any, scope: any): { kind: UnstableValueInfo['kind']; inline: boolean; value?: string } | null {
+        const kind = this.getUnstableKind(node);
+        if (kind) {
+            return { kind, inline: true };
+        }
+        if (node.type !== 'Identifier') {
+            return null;
+        }
+
+        // Module-level values are created once
+        const binding = scope.getBinding(node.name);
+        if (!binding || binding.scope.path.isProgram()) {
+            return null;
+        }
+        if (binding.path.isFunctionDeclaration()) {
+            return { kind: 'function', inline: false, value: node.name };
+        }
+        const referenceKind = binding.path.isVariableDeclarator() && binding.path.node.id.type === 'Identifier' && binding.path.node.init
+            ? this.getUnstableKind(binding.path.node.init)
+            : null;
+        return referenceKind ? { kind: referenceKind, inline: false, value: node.name } : null;
     }
 
     /**
-     * Analyzes AST to extract component details.
+     * Gets the kind of value a literal expression creates, or null when it is not a literal.
      */
-    private extractComponentDetails(ast: any, componentInfo: ComponentInfo): void {
-        // Initialize
-        componentInfo.hooks = [];
-        componentInfo.states = [];
-        componentInfo.contexts = [];
-        componentInfo.storeUsage = [];
+    private getUnstableKind(node: any): UnstableValueInfo['kind'] | null {
+        switch (node.type) {
+            case 'ObjectExpression':
+                return 'object';
+            case 'ArrayExpression':
+                return 'array';
+            case 'ArrowFunctionExpression':
+            case 'FunctionExpression':
+                return 'function';
+            case 'JSXElement':
+            case 'JSXFragment':
+                return 'element';
+            case 'CallExpression':
+                // handler.bind(this) creates a new function
+                return node.callee.type === 'MemberExpression' && node.callee.property.type === 'Identifier' &&
+                    node.callee.property.name === 'bind' ? 'function' : null;
+            default:
+                return null;
+        }
+    }
 
-        traverse(ast, {
-            CallExpression: (path) => {
-                const callee = path.node.callee;
-                
-                // Detect React hook usage (useState, useEffect, etc.)
-                if (callee.type === 'Identifier' && 
-                    callee.name.startsWith('use')) {
-                    const hookName = callee.name;
-                    
-                    // Check if hook is already registered
-                    if (!componentInfo.hooks.some(h => h.name === hookName)) {
-                        // Extract hook information
-                        const hookInfo = this.extractHookInfo(path);
-                        componentInfo.hooks.push(hookInfo);
-                        
-                        // Extract state info when useState hook is detected
-                        if (hookName === 'useState') {
-                            const stateInfo = this.extractStateFromUseState(path);
-                            if (stateInfo) {
-                                componentInfo.states.push(stateInfo);
-                            }
-                        }
-                        
-                        // Extract context info when useContext hook is detected
-                        if (hookName === 'useContext') {
-                            const contextInfo = this.extractContextInfo(path);
-                            if (contextInfo && !componentInfo.contexts.some(c => c.name === contextInfo.name)) {
-                                componentInfo.contexts.push(contextInfo);
-                            }
-                        }
-                    }
-                }
-                
-                // Detect state management library usage
-                this.detectStoreUsage(path, componentInfo);
+    /**
+     * Finds a useSelector call whose selector returns a new object or array and has no equality function.
+     */
+    private extractUnstableSelector(path: any): UnstableValueInfo | null {
+        const hookName = this.getHookName(path.node.callee);
+        const args = path.node.arguments;
+        if (!hookName || !SELECTOR_HOOKS.includes(hookName) || args.length !== 1 || !this.isFunctionNode(args[0])) {
+            return null;
+        }
+
+        const selector = args[0];
+        let returned = selector.body;
+        if (returned.type === 'BlockStatement') {
+            const returnStatement = returned.body.find((statement: any) => statement.type === 'ReturnStatement');
+            returned = returnStatement?.argument;
+        }
+        if (!returned) {
+            return null;
+        }
+
+        let kind: UnstableValueInfo['kind'] | null = null;
+        if (returned.type === 'ObjectExpression') {
+            kind = 'object';
+        } else if (returned.type === 'ArrayExpression') {
+            kind = 'array';
+        } else if (returned.type === 'CallExpression' && returned.callee.type === 'MemberExpression' &&
+            returned.callee.property.type === 'Identifier' && ARRAY_DERIVING_METHODS.includes(returned.callee.property.name)) {
+            // state.items.filter(...) returns a new array on every call
+            kind = 'array';
+        }
+        if (!kind) {
+            return null;
+        }
+
+        return {
+            name: hookName,
+            kind,
+            inline: true,
+            value: this.describeExpression(returned),
+            location: {
+                line: path.node.loc ? path.node.loc.start.line : 0,
+                column: path.node.loc ? path.node.loc.start.column : 0
             }
-        });
+        };
+    }
+
+    /**
+     * Gets the full name of a JSX element name (UI.Button).
+     */
+    private getJsxElementName(node: any): string {
+        if (node.type === 'JSXMemberExpression') {
+            return `${this.getJsxElementName(node.object)}.${node.property.name}`;
+        }
+        return node.name;
     }
 
     /**
@@ -313,12 +2748,12 @@ export class ReactComponentAnalyzer {
         
         // Extract state variable name (destructuring assignment form)
         let stateName: string | null = null;
-        let setterName: string | null = null;
+        let setterName: string | undefined;
         const parent = path.parent;
         
         if (parent.type === 'VariableDeclarator' && 
             parent.id.type === 'ArrayPattern' && 
-            parent.id.elements.length >= 2) {
+            parent.id.elements.length >= 1) {
             const stateElement = parent.id.elements[0];
             const setterElement = parent.id.elements[1];
             
@@ -331,30 +2766,12 @@ export class ReactComponentAnalyzer {
             }
         }
         
-        if (!stateName || !setterName) {
+        if (!stateName) {
             return null;
         }
         
         // Extract initial value (if present)
-        let initialValue: string | undefined;
-        if (args.length > 0) {
-            const initArg = args[0];
-            
-            // Handle basic JavaScript values
-            if (initArg.type === 'StringLiteral') {
-                initialValue = `"${initArg.value}"`;
-            } else if (initArg.type === 'NumericLiteral') {
-                initialValue = initArg.value.toString();
-            } else if (initArg.type === 'BooleanLiteral') {
-                initialValue = initArg.value.toString();
-            } else if (initArg.type === 'NullLiteral') {
-                initialValue = 'null';
-            } else if (initArg.type === 'ArrayExpression') {
-                initialValue = '[]';
-            } else if (initArg.type === 'ObjectExpression') {
-                initialValue = '{}';
-            }
-        }
+        const initialValue = args.length > 0 ? this.formatInitialValue(args[0]) : undefined;
         
         return {
             name: stateName,
@@ -364,6 +2781,221 @@ export class ReactComponentAnalyzer {
         };
     }
 
+    /**
+     * Formats a basic JavaScript value used as an initial value.
+     */
+    private formatInitialValue(node: any): string | undefined {
+        if (node.type === 'StringLiteral') {
+            return `"${node.value}"`;
+        } else if (node.type === 'NumericLiteral') {
+            return node.value.toString();
+        } else if (node.type === 'BooleanLiteral') {
+            return node.value.toString();
+        } else if (node.type === 'NullLiteral') {
+            return 'null';
+        } else if (node.type === 'ArrayExpression') {
+            return '[]';
+        } else if (node.type === 'ObjectExpression') {
+            return '{}';
+        }
+        return undefined;
+    }
+
+    /**
+     * Extracts state, lifecycle and context information from a class component.
+     */
+    private extractClassDetails(classPath: any, componentInfo: ComponentInfo, imports: Map<string, ImportBinding>): void {
+        const classInfo: ClassComponentInfo = {
+            superClass: this.getSuperClassName(classPath.node.superClass) || 'Component',
+            lifecycleMethods: [],
+            setStateCalls: []
+        };
+        let stateObject: any = null;
+        
+        for (const member of classPath.node.body.body) {
+            const memberName = member.key && member.key.type === 'Identifier' ? member.key.name : null;
+            if (!memberName) {
+                continue;
+            }
+            
+            if (member.type === 'ClassMethod' && member.kind === 'constructor') {
+                // Constructor state (this.state = { ... })
+                for (const statement of member.body.body) {
+                    const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+                    if (expression && expression.type === 'AssignmentExpression' &&
+                        this.isThisStateMember(expression.left) &&
+                        expression.right.type === 'ObjectExpression') {
+                        stateObject = expression.right;
+                    }
+                }
+            } else if (member.type === 'ClassMethod' && LIFECYCLE_METHODS.includes(memberName)) {
+                classInfo.lifecycleMethods.push(memberName);
+            } else if (member.type === 'ClassProperty' && !member.static && memberName === 'state' &&
+                member.value?.type === 'ObjectExpression') {
+                // Class property state (state = { ... })
+                stateObject = member.value;
+            } else if (member.type === 'ClassProperty' && member.static && member.value) {
+                if (memberName === 'contextType') {
+                    classInfo.contextType = this.getExpressionName(member.value);
+                } else if (memberName === 'defaultProps' && member.value.type === 'ObjectExpression') {
+                    classInfo.defaultProps = this.getObjectKeys(member.value);
+                } else if (memberName === 'propTypes' && member.value.type === 'ObjectExpression') {
+                    classInfo.propTypes = this.getObjectKeys(member.value);
+                    this.addPropsFromPropTypes(member.value, componentInfo);
+                }
+            }
+        }
+        
+        // Collect setState call sites and this.state reads
+        const stateReads = new Map<string, number>();
+        classPath.traverse({
+            CallExpression: (path: any) => {
+                const callee = path.node.callee;
+                if (callee.type === 'MemberExpression' && callee.object.type === 'ThisExpression' &&
+                    callee.property.type === 'Identifier' && callee.property.name === 'setState') {
+                    classInfo.setStateCalls.push({
+                        fields: this.getSetStateFields(path.node.arguments[0]),
+                        callLocation: {
+                            line: path.node.loc ? path.node.loc.start.line : 0,
+                            column: path.node.loc ? path.node.loc.start.column : 0
+                        }
+                    });
+                }
+            },
+            MemberExpression: (path: any) => {
+                // this.state.field
+                if (this.isThisStateMember(path.node.object) && path.node.property.type === 'Identifier') {
+                    const field = path.node.property.name;
+                    stateReads.set(field, (stateReads.get(field) || 0) + 1);
+                }
+            },
+            VariableDeclarator: (path: any) => {
+                // const { field } = this.state
+                if (path.node.init && this.isThisStateMember(path.node.init) && path.node.id.type === 'ObjectPattern') {
+                    for (const field of this.getObjectKeys(path.node.id)) {
+                        stateReads.set(field, (stateReads.get(field) || 0) + 1);
+                    }
+                }
+            }
+        });
+        
+        if (stateObject) {
+            for (const property of stateObject.properties) {
+                if (property.type !== 'ObjectProperty' || property.key.type !== 'Identifier') {
+                    continue;
+                }
+                componentInfo.states.push({
+                    name: property.key.name,
+                    initialValue: this.formatInitialValue(property.value),
+                    setter: 'setState',
+                    usageCount: stateReads.get(property.key.name) || 0
+                });
+            }
+        }
+        
+        // Expose static contextType like a consumed context
+        if (classInfo.contextType) {
+            const contextProperty = classPath.node.body.body.find((member: any) =>
+                member.type === 'ClassProperty' && member.static && member.key.name === 'contextType');
+            const binding = imports.get(classInfo.contextType);
+            componentInfo.contexts.push({
+                name: classInfo.contextType,
+                source: binding?.source,
+                importedName: binding?.importedName,
+                kind: 'contextType',
+                usageLocations: [{
+                    line: contextProperty?.loc ? contextProperty.loc.start.line : 0,
+                    column: contextProperty?.loc ? contextProperty.loc.start.column : 0
+                }],
+                value: `this.context (from ${classInfo.contextType})`
+            });
+        }
+        
+        componentInfo.classInfo = classInfo;
+    }
+
+    /**
+     * Adds props declared through static propTypes (PropTypes.string.isRequired).
+     */
+    private addPropsFromPropTypes(propTypes: any, componentInfo: ComponentInfo): void {
+        for (const property of propTypes.properties) {
+            if (property.type !== 'ObjectProperty' || property.key.type !== 'Identifier') {
+                continue;
+            }
+            
+            let typeNode = property.value;
+            let required = false;
+            if (typeNode.type === 'MemberExpression' && typeNode.property.type === 'Identifier' &&
+                typeNode.property.name === 'isRequired') {
+                required = true;
+                typeNode = typeNode.object;
+            }
+            if (typeNode.type === 'CallExpression') {
+                typeNode = typeNode.callee;
+            }
+            
+            componentInfo.props.push({
+                name: property.key.name,
+                type: this.getExpressionName(typeNode) || 'unknown',
+                required
+            });
+        }
+    }
+
+    /**
+     * Gets the fields updated by a setState call (setState({ a }) or setState(prev => ({ a }))).
+     */
+    private getSetStateFields(arg: any): string[] {
+        if (!arg) {
+            return [];
+        }
+        if (arg.type === 'ObjectExpression') {
+            return this.getObjectKeys(arg);
+        }
+        if ((arg.type === 'ArrowFunctionExpression' || arg.type === 'FunctionExpression')) {
+            if (arg.body.type === 'ObjectExpression') {
+                return this.getObjectKeys(arg.body);
+            }
+            const returnStatement = arg.body.type === 'BlockStatement'
+                ? arg.body.body.find((statement: any) => statement.type === 'ReturnStatement')
+                : null;
+            if (returnStatement?.argument?.type === 'ObjectExpression') {
+                return this.getObjectKeys(returnStatement.argument);
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Gets the identifier keys of an object expression or object pattern.
+     */
+    private getObjectKeys(node: any): string[] {
+        return node.properties
+            .filter((prop: any) => prop.key && prop.key.type === 'Identifier')
+            .map((prop: any) => prop.key.name);
+    }
+
+    /**
+     * Gets the trailing name of an identifier or member expression (ThemeContext, PropTypes.string).
+     */
+    private getExpressionName(node: any): string | undefined {
+        if (node.type === 'Identifier') {
+            return node.name;
+        }
+        if (node.type === 'MemberExpression' && node.property.type === 'Identifier') {
+            return node.property.name;
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks if a node is this.state.
+     */
+    private isThisStateMember(node: any): boolean {
+        return node.type === 'MemberExpression' && node.object.type === 'ThisExpression' &&
+            node.property.type === 'Identifier' && node.property.name === 'state';
+    }
+
     /**
      * Counts variable usage occurrences.
      */
@@ -371,8 +3003,8 @@ export class ReactComponentAnalyzer {
         let count = 0;
         
         // Variable usage counting logic
-        traverse(path.scope.block, {
-            Identifier: (innerPath) => {
+        path.scope.path.traverse({
+            Identifier: (innerPath: any) => {
                 if (innerPath.node.name === variableName && 
                     innerPath.parent.type !== 'VariableDeclarator') {
                     count++;
@@ -387,9 +3019,9 @@ export class ReactComponentAnalyzer {
      * Extracts hook information.
      */
     private extractHookInfo(path: any): HookInfo {
-        const callee = path.node.callee;
+        const hookName = this.getHookName(path.node.callee)!;
         const hookInfo: HookInfo = {
-            name: callee.name,
+            name: hookName,
             callLocation: {
                 line: path.node.loc ? path.node.loc.start.line : 0,
                 column: path.node.loc ? path.node.loc.start.column : 0
@@ -397,10 +3029,11 @@ export class ReactComponentAnalyzer {
         };
 
         // Extract dependency array
-        if (callee.name === 'useEffect' || callee.name === 'useMemo' || callee.name === 'useCallback') {
+        const dependencyIndex = DEPENDENCY_HOOKS[hookName];
+        if (dependencyIndex !== undefined) {
             const args = path.node.arguments;
-            if (args.length > 1 && args[1].type === 'ArrayExpression') {
-                const deps = args[1].elements;
+            if (args.length > dependencyIndex && args[dependencyIndex].type === 'ArrayExpression') {
+                const deps = args[dependencyIndex].elements;
                 hookInfo.dependencies = deps.map((dep: any) => {
                     if (dep && dep.type === 'Identifier') {
                         return dep.name;
@@ -461,7 +3094,7 @@ export class ReactComponentAnalyzer {
     /**
      * Extracts Context information.
      */
-    private extractContextInfo(path: any): ContextInfo | null {
+    private extractContextInfo(path: any, imports: Map<string, ImportBinding>): ContextInfo | null {
         const args = path.node.arguments;
         if (args.length === 0 || !args[0]) {
             return null;
@@ -472,8 +3105,12 @@ export class ReactComponentAnalyzer {
             return null;
         }
         
+        const binding = imports.get(contextArg.name);
         const contextInfo: ContextInfo = {
             name: contextArg.name,
+            source: binding?.source,
+            importedName: binding?.importedName,
+            kind: 'useContext',
             usageLocations: [{
                 line: path.node.loc ? path.node.loc.start.line : 0,
                 column: path.node.loc ? path.node.loc.start.column : 0
@@ -519,7 +3156,7 @@ export class ReactComponentAnalyzer {
     /**
      * Detects state management library usage.
      */
-    private detectStoreUsage(path: any, componentInfo: ComponentInfo): void {
+    private detectStoreUsage(path: any, componentInfo: ComponentInfo, imports: Map<string, ImportBinding>): void {
         if (!componentInfo.storeUsage) {
             componentInfo.storeUsage = [];
         }
@@ -528,7 +3165,7 @@ export class ReactComponentAnalyzer {
         const parent = path.parent;
         
         // Redux 감지
-        if (callee.type === 'Identifier' && callee.name === 'useSelector') {
+        if (callee.type === 'Identifier' && SELECTOR_HOOKS.includes(callee.name)) {
             let selectorProps: string[] = [];
             
             // 구조 분해 할당 추출 (ex: const { user, settings } = useSelector(state => state))
@@ -538,52 +3175,330 @@ export class ReactComponentAnalyzer {
                     .map((prop: any) => prop.key.name);
             }
             
-            const selectorName = this.getCalleeArgumentName(path);
+            const read = this.extractReduxRead(path, imports);
+            const selectorName = read.selector || (read.statePaths.length > 0
+                ? read.statePaths.map(statePath => `state.${statePath}`).join(', ')
+                : this.getCalleeArgumentName(path));
             const selectorInfo = selectorProps.length > 0 
                 ? `${selectorName} -> { ${selectorProps.join(', ')} }`
                 : selectorName;
                 
             this.addStoreInfo(componentInfo, 'redux', 'selectors', selectorInfo);
-        } else if (callee.type === 'Identifier' && callee.name === 'useDispatch') {
-            this.addStoreInfo(componentInfo, 'redux', 'actions', '디스패치');
+            this.getReduxUsage(componentInfo).reads.push(read);
+        } else if (callee.type === 'Identifier' && DISPATCH_HOOKS.includes(callee.name)) {
+            // The dispatched actions are recorded at each dispatch call
+            this.addStoreType(componentInfo, 'redux');
+        } else if (callee.type === 'Identifier' && this.isDispatchFunction(path, callee.name)) {
+            const dispatch = this.extractReduxDispatch(path, imports);
+            if (dispatch) {
+                this.addStoreInfo(componentInfo, 'redux', 'actions', dispatch.viaSliceActions ? `${dispatch.reference}.actions.${dispatch.action}` : dispatch.action);
+                this.getReduxUsage(componentInfo).dispatches.push(dispatch);
+            }
         }
         
-        // Recoil 감지
-        else if (callee.type === 'Identifier' && callee.name === 'useRecoilState') {
-            this.addStoreInfo(componentInfo, 'recoil', 'selectors', this.getCalleeArgumentName(path));
-        } else if (callee.type === 'Identifier' && callee.name === 'useRecoilValue') {
-            this.addStoreInfo(componentInfo, 'recoil', 'selectors', this.getCalleeArgumentName(path));
+        // Recoil, Jotai 감지
+        else if (callee.type === 'Identifier' && ATOM_HOOKS[callee.name]) {
+            const usage = this.extractAtomUsage(path, imports);
+            const argument = path.node.arguments[0];
+            
+            // Family members are shown as calls (todoFamily())
+            const name = argument?.type === 'CallExpression' ? this.describeExpression(argument) || usage.reference : usage.reference;
+            if (usage.access !== 'write') {
+                this.addStoreInfo(componentInfo, usage.library, 'selectors', name);
+            }
+            if (usage.access !== 'read') {
+                this.addStoreInfo(componentInfo, usage.library, 'actions', name);
+            }
+            componentInfo.atomUsage = [...(componentInfo.atomUsage || []), usage];
         }
         
         // Zustand 감지
-        else if (callee.type === 'Identifier' && callee.name === 'useStore') {
-            let storeProps: string[] = [];
+        else if (callee.type === 'Identifier' && this.isZustandHook(path, callee.name, imports)) {
+            const usage = this.extractZustandUsage(path, imports);
             
-            // 구조 분해 할당 추출
-            if (parent.type === 'VariableDeclarator' && parent.id.type === 'ObjectPattern') {
-                storeProps = parent.id.properties
-                    .filter((prop: any) => prop.key && prop.key.type === 'Identifier')
-                    .map((prop: any) => prop.key.name);
+            // Selected keys are split into state and actions once the store definition is resolved
+            for (const key of usage.keys) {
+                this.addStoreInfo(componentInfo, 'zustand', 'selectors', key === '*' ? `${usage.reference} (entire store)` : `${usage.reference}.${key}`);
+            }
+            componentInfo.zustandUsage = [...(componentInfo.zustandUsage || []), usage];
+        }
+        
+        // MobX 감지
+        else if (callee.type === 'Identifier' && callee.name === 'useLocalObservable') {
+            const name = parent.type === 'VariableDeclarator' && parent.id.type === 'Identifier' ? parent.id.name : 'localObservable';
+            let state = path.node.arguments[0] && this.isFunctionNode(path.node.arguments[0]) ? path.node.arguments[0].body : null;
+            if (state?.type === 'BlockStatement') {
+                state = state.body.find((statement: any) => statement.type === 'ReturnStatement')?.argument;
             }
             
-            const storeName = this.getCalleeArgumentName(path);
-            const storeInfo = storeProps.length > 0 
-                ? `${storeName} -> { ${storeProps.join(', ')} }`
-                : storeName;
-                
-            this.addStoreInfo(componentInfo, 'zustand', 'selectors', storeInfo);
+            const members = state?.type === 'ObjectExpression' ? this.getObservableMembers(state.properties) : null;
+            this.addStoreType(componentInfo, 'mobx');
+            for (const member of [...(members?.observables || []), ...(members?.computeds || [])]) {
+                this.addStoreInfo(componentInfo, 'mobx', 'selectors', `${name}.${member}`);
+            }
+            for (const action of members?.actions || []) {
+                this.addStoreInfo(componentInfo, 'mobx', 'actions', `${name}.${action}`);
+            }
+        }
+        
+        // TanStack Query, SWR 감지
+        const queryKey = this.extractQueryKey(path, imports);
+        if (queryKey) {
+            const description = queryKey.key !== undefined ? `${queryKey.hook} ${queryKey.key}` : queryKey.hook;
+            this.addStoreInfo(componentInfo, queryKey.library, queryKey.kind === 'query' ? 'selectors' : 'actions', description);
+            componentInfo.queryKeys = [...(componentInfo.queryKeys || []), queryKey];
+        }
+    }
+
+    /**
+     * Extracts the cache key a TanStack Query or SWR hook reads, a mutation writes with,
+     * or a queryClient method or SWR mutate call invalidates.
+     */
+    private extractQueryKey(path: any, imports: Map<string, ImportBinding>): QueryKeyInfo | null {
+        const callee = path.node.callee;
+        const args = path.node.arguments;
+        const location = {
+            line: path.node.loc ? path.node.loc.start.line : 0,
+            column: path.node.loc ? path.node.loc.start.column : 0
+        };
+        
+        // queryClient.invalidateQueries({ queryKey: ['todos'] }) or invalidateQueries(['todos'])
+        if (callee.type === 'MemberExpression' && callee.property.type === 'Identifier' && QUERY_CLIENT_METHODS.includes(callee.property.name)) {
+            const importsReactQuery = Array.from(imports.values()).some(binding => QUERY_LIBRARIES[binding.source]?.library === 'react-query');
+            return importsReactQuery
+                ? this.createQueryKey('react-query', callee.property.name, 'invalidation', this.getQueryOption(args[0], 'queryKey'), location)
+                : null;
+        }
+        if (callee.type !== 'Identifier') {
+            return null;
+        }
+        
+        // mutate('/api/user'), imported from swr or taken from useSWRConfig()
+        if (callee.name === 'mutate') {
+            const binding = path.scope.getBinding(callee.name);
+            const init = binding?.path.isVariableDeclarator() ? binding.path.node.init : null;
+            const isGlobalMutate = imports.get(callee.name)?.source === 'swr' && imports.get(callee.name)?.importedName === 'mutate';
+            const isConfigMutate = init?.type === 'CallExpression' && init.callee.type === 'Identifier' &&
+                imports.get(init.callee.name)?.importedName === 'useSWRConfig';
+            return isGlobalMutate || isConfigMutate ? this.createQueryKey('swr', 'mutate', 'invalidation', args[0], location) : null;
+        }
+        
+        const binding = imports.get(callee.name);
+        const library = binding ? QUERY_LIBRARIES[binding.source] : undefined;
+        const hook = library && (binding!.importedName === 'default' ? library.defaultExport : binding!.importedName);
+        const kind = hook ? QUERY_HOOKS[hook] : undefined;
+        if (!library || !hook || !kind) {
+            return null;
+        }
+        
+        // TanStack Query takes an options object (useQuery({ queryKey })), or the key first in older versions
+        const keyNode = library.library === 'react-query'
+            ? this.getQueryOption(args[0], kind === 'mutation' ? 'mutationKey' : 'queryKey')
+            : args[0];
+        return this.createQueryKey(library.library, hook, kind, keyNode, location);
+    }
+
+    /**
+     * Gets an option of a TanStack Query call, which older versions take as the first argument instead.
+     */
+    private getQueryOption(node: any, name: string): any {
+        if (!node || this.isFunctionNode(node)) {
+            return undefined;
+        }
+        if (node.type !== 'ObjectExpression') {
+            return node;
+        }
+        const property = node.properties.find((prop: any) =>
+            prop.type === 'ObjectProperty' && prop.key.type === 'Identifier' && prop.key.name === name);
+        return property?.value;
+    }
+
+    /**
+     * Creates the query key info of a cache access, splitting array keys into their segments.
+     */
+    private createQueryKey(
+        library: QueryKeyInfo['library'],
+        hook: string,
+        kind: QueryKeyInfo['kind'],
+        node: any,
+        location: { line: number; column: number }
+    ): QueryKeyInfo {
+        const queryKey: QueryKeyInfo = { library, hook, kind, segments: [], location };
+        if (node) {
+            queryKey.key = this.describeQueryKey(node);
+            queryKey.segments = node.type === 'ArrayExpression'
+                ? node.elements.map((element: any) => element ? this.describeQueryKey(element) : '')
+                : [queryKey.key];
+        }
+        return queryKey;
+    }
+
+    /**
+     * Describes a query key or key segment ("todos", `/api/users/${id}`, ["todos", { status }]).
+     */
+    private describeQueryKey(node: any): string {
+        if (node.type === 'TemplateLiteral') {
+            return `\`${node.quasis.map((quasi: any, index: number) =>
+                quasi.value.cooked + (index < node.expressions.length ? `\${${this.describeExpression(node.expressions[index]) || '?'}}` : '')).join('')}\``;
+        }
+        if (node.type === 'ArrayExpression') {
+            return `[${node.elements.map((element: any) => element ? this.describeQueryKey(element) : '').join(', ')}]`;
+        }
+        if (this.isFunctionNode(node)) {
+            return 'key function';
+        }
+        return this.describeExpression(node) || '?';
+    }
+
+    /**
+     * Records a member read on a MobX store candidate: an imported or top-level binding read by an observer
+     * component, or one named like a store (cartStore).
+     */
+    private detectMobxRead(path: any, componentInfo: ComponentInfo, imports: Map<string, ImportBinding>): void {
+        const node = path.node;
+        if (node.computed || node.object.type !== 'Identifier' || node.property.type !== 'Identifier') {
+            return;
+        }
+        
+        const reference = node.object.name;
+        const binding = path.scope.getBinding(reference);
+        if (!binding || !binding.scope.path.isProgram() || reference === 'React') {
+            return;
+        }
+        if (!componentInfo.wrappers?.includes('observer') && !/store$/i.test(reference)) {
+            return;
+        }
+        
+        if (!componentInfo.mobxUsage) {
+            componentInfo.mobxUsage = [];
+        }
+        let usage = componentInfo.mobxUsage.find(item => item.reference === reference);
+        if (!usage) {
+            usage = {
+                reference,
+                members: [],
+                location: {
+                    line: node.loc ? node.loc.start.line : 0,
+                    column: node.loc ? node.loc.start.column : 0
+                }
+            };
+            const importBinding = imports.get(reference);
+            if (importBinding) {
+                usage.source = importBinding.source;
+                usage.importedName = importBinding.importedName;
+            }
+            componentInfo.mobxUsage.push(usage);
+        }
+        if (!usage.members.includes(node.property.name)) {
+            usage.members.push(node.property.name);
+        }
+    }
+
+    /**
+     * Gets the Redux usage of a component, creating it on first use.
+     */
+    private getReduxUsage(componentInfo: ComponentInfo): ReduxUsageInfo {
+        if (!componentInfo.reduxUsage) {
+            componentInfo.reduxUsage = { reads: [], dispatches: [] };
+        }
+        return componentInfo.reduxUsage;
+    }
+
+    /**
+     * Extracts what a useSelector call reads: the state paths of an inline selector or the selector it is passed.
+     */
+    private extractReduxRead(path: any, imports: Map<string, ImportBinding>): ReduxReadInfo {
+        const read: ReduxReadInfo = {
+            statePaths: [],
+            location: {
+                line: path.node.loc ? path.node.loc.start.line : 0,
+                column: path.node.loc ? path.node.loc.start.column : 0
+            }
+        };
+        
+        const selectorPath = path.get('arguments.0');
+        if (!selectorPath || !selectorPath.node) {
+            return read;
+        }
+        if (this.isFunctionNode(selectorPath.node)) {
+            read.statePaths = this.getStatePaths(selectorPath);
+        } else if (selectorPath.isIdentifier()) {
+            read.selector = selectorPath.node.name;
+            const binding = imports.get(selectorPath.node.name);
+            if (binding) {
+                read.source = binding.source;
+                read.importedName = binding.importedName;
+            }
+        }
+        return read;
+    }
+
+    /**
+     * Checks if a called identifier is the dispatch function returned by useDispatch in the component.
+     */
+    private isDispatchFunction(path: any, name: string): boolean {
+        const binding = path.scope.getBinding(name);
+        const init = binding?.path.isVariableDeclarator() ? binding.path.node.init : null;
+        return !!init && init.type === 'CallExpression' && init.callee.type === 'Identifier' && DISPATCH_HOOKS.includes(init.callee.name);
+    }
+
+    /**
+     * Extracts the action dispatched at a dispatch call: dispatch(cartSlice.actions.add(item)), dispatch(fetchUser(id))
+     * or dispatch({ type: 'cart/clear' }).
+     */
+    private extractReduxDispatch(path: any, imports: Map<string, ImportBinding>): ReduxDispatchInfo | null {
+        const argument = path.node.arguments[0];
+        if (!argument) {
+            return null;
+        }
+        const location = {
+            line: path.node.loc ? path.node.loc.start.line : 0,
+            column: path.node.loc ? path.node.loc.start.column : 0
+        };
+        
+        if (argument.type === 'ObjectExpression') {
+            const typeProperty = argument.properties.find((property: any) =>
+                property.type === 'ObjectProperty' && property.key.type === 'Identifier' && property.key.name === 'type');
+            return typeProperty?.value.type === 'StringLiteral' ? { action: typeProperty.value.value, location } : null;
+        }
+        if (argument.type !== 'CallExpression') {
+            return null;
+        }
+        
+        const callee = argument.callee;
+        let dispatch: ReduxDispatchInfo | null = null;
+        if (callee.type === 'Identifier') {
+            dispatch = { action: callee.name, reference: callee.name, location };
+        } else if (callee.type === 'MemberExpression' && callee.property.type === 'Identifier' &&
+            callee.object.type === 'MemberExpression' && callee.object.object.type === 'Identifier' &&
+            callee.object.property.type === 'Identifier' && callee.object.property.name === 'actions') {
+            dispatch = { action: callee.property.name, reference: callee.object.object.name, viaSliceActions: true, location };
         }
         
-        // Jotai 감지
-        else if (callee.type === 'Identifier' && callee.name === 'useAtom') {
-            this.addStoreInfo(componentInfo, 'jotai', 'selectors', this.getCalleeArgumentName(path));
+        const binding = dispatch?.reference ? imports.get(dispatch.reference) : undefined;
+        if (dispatch && binding) {
+            dispatch.source = binding.source;
+            dispatch.importedName = binding.importedName;
+        }
+        return dispatch;
+    }
+
+    /**
+     * Records that a component uses a state management library, even before any action or selector is found.
+     */
+    private addStoreType(componentInfo: ComponentInfo, type: StoreInfo['type']): void {
+        if (!componentInfo.storeUsage) {
+            componentInfo.storeUsage = [];
+        }
+        if (!componentInfo.storeUsage.some(store => store.type === type)) {
+            componentInfo.storeUsage.push({ type, actions: [], selectors: [] });
         }
     }
 
     /**
      * Adds state management library information.
      */
-    private addStoreInfo(componentInfo: ComponentInfo, type: 'redux' | 'mobx' | 'recoil' | 'zustand' | 'jotai' | 'other', category: 'actions' | 'selectors', name: string): void {
+    private addStoreInfo(componentInfo: ComponentInfo, type: StoreInfo['type'], category: 'actions' | 'selectors', name: string): void {
         if (!componentInfo.storeUsage) {
             componentInfo.storeUsage = [];
         }
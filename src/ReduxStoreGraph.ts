@@ -0,0 +1,239 @@
+import * as path from 'path';
+import {
+    ComponentInfo,
+    ReduxDefinitions,
+    ReduxDispatchInfo,
+    ReduxSelectorInfo,
+    ReduxSliceAccessInfo,
+    ReduxSliceInfo,
+    ReduxThunkInfo
+} from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface ReduxAccessSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    // The state path read or the action dispatched
+    detail: string;
+    line: number;
+}
+
+export interface ReduxSliceNode {
+    id: string;
+    slice: ReduxSliceInfo;
+    readers: ReduxAccessSite[];
+    writers: ReduxAccessSite[];
+    thunks: string[];
+}
+
+export interface ReduxThunkNode {
+    id: string;
+    thunk: ReduxThunkInfo;
+    dispatchers: ReduxAccessSite[];
+    // Slices handling the thunk's lifecycle actions in extraReducers
+    handledBy: string[];
+}
+
+export interface ReduxStoreGraph {
+    slices: Map<string, ReduxSliceNode>;
+    thunks: Map<string, ReduxThunkNode>;
+}
+
+interface ReduxReference {
+    name: string;
+    source?: string;
+    importedName?: string;
+}
+
+/**
+ * Returns the workspace-unique id of a slice, thunk or selector.
+ */
+export function getReduxId(definition: { filePath: string; name: string }): string {
+    return `${definition.filePath}#${definition.name}`;
+}
+
+/**
+ * Links components to the Redux Toolkit slices whose state they read and whose actions and thunks they dispatch.
+ */
+export class ReduxStoreGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Builds the store graph and records the slices each component accesses.
+     */
+    public build(definitions: ReduxDefinitions, components: ComponentInfo[]): ReduxStoreGraph {
+        const slices = new Map<string, ReduxSliceNode>();
+        const thunks = new Map<string, ReduxThunkNode>();
+
+        for (const slice of definitions.slices) {
+            slices.set(getReduxId(slice), { id: getReduxId(slice), slice, readers: [], writers: [], thunks: [] });
+        }
+        for (const thunk of definitions.thunks) {
+            // Thunks are matched to extraReducers cases (fetchUser.fulfilled) by name
+            const handledBy = definitions.slices
+                .filter(slice => slice.extraReducers.some(extraReducer => extraReducer.startsWith(`${thunk.name}.`)))
+                .map(slice => slice.sliceName);
+            thunks.set(getReduxId(thunk), { id: getReduxId(thunk), thunk, dispatchers: [], handledBy });
+            for (const slice of definitions.slices.filter(s => handledBy.includes(s.sliceName))) {
+                slices.get(getReduxId(slice))!.thunks.push(thunk.name);
+            }
+        }
+
+        // State is keyed by slice name in the root reducer
+        const slicesByStateKey = new Map<string, ReduxSliceNode[]>();
+        for (const node of slices.values()) {
+            slicesByStateKey.set(node.slice.sliceName, [...(slicesByStateKey.get(node.slice.sliceName) || []), node]);
+        }
+
+        for (const component of components) {
+            const usage = component.reduxUsage;
+            if (!usage) {
+                continue;
+            }
+            const componentId = getComponentId(component);
+            const access = new Map<string, ReduxSliceAccessInfo>();
+            const getAccess = (node: ReduxSliceNode): ReduxSliceAccessInfo => {
+                if (!access.has(node.id)) {
+                    access.set(node.id, { slice: node.slice.sliceName, filePath: node.slice.filePath, reads: [], actions: [] });
+                }
+                return access.get(node.id)!;
+            };
+            const createSite = (detail: string, line: number): ReduxAccessSite =>
+                ({ componentId, componentName: component.name, filePath: component.filePath, detail, line });
+
+            for (const read of usage.reads) {
+                let statePaths = read.statePaths;
+                if (read.selector) {
+                    const selector = this.resolveDefinition(component.filePath, { name: read.selector, ...read }, definitions.selectors);
+                    statePaths = selector ? selector.statePaths : [];
+                }
+
+                for (const statePath of statePaths) {
+                    for (const node of slicesByStateKey.get(statePath.split('.')[0]) || []) {
+                        node.readers.push(createSite(read.selector ? `${statePath} (${read.selector})` : statePath, read.location.line));
+                        const sliceAccess = getAccess(node);
+                        if (!sliceAccess.reads.includes(statePath)) {
+                            sliceAccess.reads.push(statePath);
+                        }
+                    }
+                }
+            }
+
+            for (const dispatch of usage.dispatches) {
+                const thunk = !dispatch.viaSliceActions && dispatch.reference
+                    ? this.resolveDefinition(component.filePath, { name: dispatch.reference, ...dispatch }, definitions.thunks)
+                    : null;
+                const addWrite = (node: ReduxSliceNode, action: string) => {
+                    node.writers.push(createSite(action, dispatch.location.line));
+                    const sliceAccess = getAccess(node);
+                    if (!sliceAccess.actions.includes(action)) {
+                        sliceAccess.actions.push(action);
+                    }
+                };
+
+                // Thunks write to the slices handling their lifecycle actions
+                if (thunk) {
+                    const thunkNode = thunks.get(getReduxId(thunk))!;
+                    thunkNode.dispatchers.push(createSite(thunk.name, dispatch.location.line));
+                    for (const node of slices.values()) {
+                        if (thunkNode.handledBy.includes(node.slice.sliceName)) {
+                            addWrite(node, `${thunk.name} (thunk)`);
+                        }
+                    }
+                    continue;
+                }
+
+                const slice = this.resolveActionSlice(component.filePath, dispatch, definitions.slices);
+                if (slice) {
+                    addWrite(slices.get(getReduxId(slice.slice))!, slice.action);
+                }
+            }
+
+            component.reduxAccess = Array.from(access.values());
+        }
+
+        return { slices, thunks };
+    }
+
+    /**
+     * Resolves a dispatched action creator to its slice, through slice.actions or a destructured action export.
+     */
+    private resolveActionSlice(
+        filePath: string,
+        dispatch: ReduxDispatchInfo,
+        slices: ReduxSliceInfo[]
+    ): { slice: ReduxSliceInfo; action: string } | null {
+        if (!dispatch.reference) {
+            // Plain action objects ({ type: 'cart/clear' }) name the slice in their type
+            const [sliceName, action] = dispatch.action.split('/');
+            const slice = action ? slices.find(s => s.sliceName === sliceName && s.reducers.includes(action)) : undefined;
+            return slice ? { slice, action } : null;
+        }
+
+        if (dispatch.viaSliceActions) {
+            const slice = this.resolveDefinition(filePath, { name: dispatch.reference, ...dispatch }, slices);
+            return slice ? { slice, action: dispatch.action } : null;
+        }
+
+        // Action creators destructured from slice.actions, in the same file or imported
+        if (!dispatch.source) {
+            const slice = slices.find(s => s.filePath === filePath && s.actionExports?.[dispatch.reference!]);
+            return slice ? { slice, action: slice.actionExports![dispatch.reference!] } : null;
+        }
+        const declaration = this.resolveImport(filePath, { name: dispatch.reference, ...dispatch });
+        if (!declaration) {
+            return null;
+        }
+        const slice = slices.find(s => s.filePath === declaration.filePath && s.actionExports?.[declaration.exportName]);
+        return slice ? { slice, action: slice.actionExports![declaration.exportName] } : null;
+    }
+
+    /**
+     * Resolves a local or imported name to the slice, thunk or selector that declares it, following barrel re-exports.
+     */
+    private resolveDefinition<T extends ReduxSliceInfo | ReduxThunkInfo | ReduxSelectorInfo>(
+        filePath: string,
+        reference: ReduxReference,
+        definitions: T[]
+    ): T | null {
+        // Definitions in the same file
+        if (!reference.source) {
+            return definitions.find(definition => definition.filePath === filePath && definition.name === reference.name) || null;
+        }
+
+        const declaration = this.resolveImport(filePath, reference);
+        if (!declaration) {
+            return null;
+        }
+        return definitions.find(definition =>
+            definition.filePath === declaration.filePath && definition.exportNames?.includes(declaration.exportName)) || null;
+    }
+
+    /**
+     * Resolves an import to the workspace-relative file and export name that declare it.
+     */
+    private resolveImport(filePath: string, reference: ReduxReference): { filePath: string; exportName: string } | null {
+        if (!reference.source || !reference.importedName || reference.importedName === '*') {
+            return null;
+        }
+
+        const resolved = this.resolver.resolve(reference.source, path.join(this.workspaceRoot, filePath));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, reference.importedName);
+        if (!declaration) {
+            return null;
+        }
+        return { filePath: path.relative(this.workspaceRoot, declaration.filePath), exportName: declaration.exportName };
+    }
+}
@@ -0,0 +1,120 @@
+import { RerenderRisk, UnstableValueInfo } from './ReactComponentAnalyzer';
+import { RenderGraph } from './ComponentRenderGraph';
+import { ContextGraph } from './ContextGraph';
+
+export interface RerenderRiskReport {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    score: number;
+    risks: RerenderRisk[];
+}
+
+// How much each kind of risk counts towards the ranking
+const MEMO_PROP_WEIGHT = 2;
+const SELECTOR_WEIGHT = 3;
+const CONTEXT_VALUE_WEIGHT = 3;
+
+/**
+ * Finds values that change on every render and defeat memo, context and selector optimizations,
+ * and ranks components by how much they are likely to re-render.
+ */
+export class RerenderRiskDetector {
+    /**
+     * Records the re-render risks of every component and returns the components with risks, highest score first.
+     */
+    public detect(renderGraph: RenderGraph, contextGraph: ContextGraph | null): RerenderRiskReport[] {
+        const reports: RerenderRiskReport[] = [];
+
+        for (const [componentId, component] of renderGraph.components) {
+            const risks: RerenderRisk[] = [];
+            const providerIndexes = new Set((component.providers || []).map(provider => provider.renderIndex));
+
+            for (const [index, renderInfo] of (component.renders || []).entries()) {
+                // A new context value re-renders every consumer, memoized or not
+                if (providerIndexes.has(index)) {
+                    const value = renderInfo.unstableProps?.find(prop => prop.name === 'value');
+                    if (value) {
+                        const consumerCount = this.countConsumers(componentId, renderInfo.callLocation, contextGraph);
+                        risks.push({
+                            kind: 'context-value',
+                            message: `The value of ${renderInfo.name} is ${this.describeValue(value)} that changes on every render, re-rendering ` +
+                                `${consumerCount === 1 ? 'its consumer' : consumerCount > 1 ? `all ${consumerCount} consumers` : 'every consumer'}. ` +
+                                `Memoize it with ${this.getMemoHook(value)}.`,
+                            weight: CONTEXT_VALUE_WEIGHT + consumerCount,
+                            location: value.location
+                        });
+                    }
+                    continue;
+                }
+
+                // Unstable props only matter to children that would otherwise skip rendering
+                const childId = renderGraph.targets.get(renderInfo);
+                const child = childId ? renderGraph.components.get(childId) : undefined;
+                if (!child || !child.wrappers?.includes('memo')) {
+                    continue;
+                }
+                for (const prop of renderInfo.unstableProps || []) {
+                    risks.push({
+                        kind: 'memo-prop',
+                        message: `"${prop.name}" passed to memo component ${child.name} is ${this.describeValue(prop)} created on every render, ` +
+                            `so ${child.name} re-renders whenever ${component.name} does. ` +
+                            `${prop.inline ? 'Move it out of the JSX and memoize it' : 'Memoize it'} with ${this.getMemoHook(prop)}.`,
+                        weight: MEMO_PROP_WEIGHT,
+                        location: prop.location
+                    });
+                }
+            }
+
+            for (const selector of component.unstableSelectors || []) {
+                risks.push({
+                    kind: 'selector',
+                    message: `${selector.name} returns a new ${selector.kind} (${selector.value}) on every store update without an equality function, ` +
+                        `so ${component.name} re-renders on any state change. Select primitive values, pass shallowEqual or use a memoized selector.`,
+                    weight: SELECTOR_WEIGHT,
+                    location: selector.location
+                });
+            }
+
+            component.rerenderRisks = risks;
+            if (risks.length > 0) {
+                reports.push({
+                    componentId,
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    score: risks.reduce((sum, risk) => sum + risk.weight, 0),
+                    risks: risks.sort((a, b) => b.weight - a.weight || a.location.line - b.location.line)
+                });
+            }
+        }
+
+        return reports.sort((a, b) => b.score - a.score || a.componentName.localeCompare(b.componentName));
+    }
+
+    /**
+     * Counts the consumers of the context provided at a component's provider element.
+     */
+    private countConsumers(componentId: string, location: { line: number; column: number }, contextGraph: ContextGraph | null): number {
+        for (const context of contextGraph?.contexts.values() || []) {
+            if (context.providers.some(provider =>
+                provider.componentId === componentId && provider.line === location.line && provider.column === location.column)) {
+                return context.consumers.length;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Describes an unstable value (an inline object, the function handleClick).
+     */
+    private describeValue(value: UnstableValueInfo): string {
+        return value.inline ? `an inline ${value.kind}` : `the ${value.kind} "${value.value}"`;
+    }
+
+    /**
+     * Gets the hook that keeps a value stable between renders.
+     */
+    private getMemoHook(value: UnstableValueInfo): string {
+        return value.kind === 'function' ? 'useCallback' : 'useMemo';
+    }
+}
@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ComponentInfo } from './ReactComponentAnalyzer';
+import { ContextNode } from './ContextGraph';
+import { RerenderRiskReport } from './RerenderRiskDetector';
+import { ReduxSliceNode, ReduxThunkNode } from './ReduxStoreGraph';
+import { QueryCacheNode } from './QueryCacheGraph';
+import { ComponentDelta } from './ComponentWatcher';
 
 export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'reactBro.componentDetails';
@@ -51,12 +56,25 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
         }
     }
 
+    /**
+     * Updates the components that changed since the last update and removes the deleted ones.
+     */
+    public applyDelta(delta: ComponentDelta) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'applyDelta',
+                delta
+            });
+        }
+    }
+
     /**
      * Generate HTML for webview
      */
     private _getHtmlForWebview(webview: vscode.Webview) {
         // Generate resource URIs for styles, scripts etc.
         const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'main.js'));
+        const htmlScriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'html.js'));
         const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
 
         // Generate HTML
@@ -159,7 +177,35 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                 .store-title:before {
                     background-color: #1a237e;
                 }
-                .state-item, .prop-item, .hook-item, .context-item {
+                .class-title:before {
+                    background-color: #827717;
+                }
+                .render-title:before {
+                    background-color: #8e24aa;
+                }
+                .hook-access-title:before {
+                    background-color: #00838f;
+                }
+                .provider-title:before {
+                    background-color: #bf360c;
+                }
+                .drilling-title:before {
+                    background-color: #6d4c41;
+                }
+                .hook-rules-title:before {
+                    background-color: #c62828;
+                }
+                .badge-warning {
+                    background-color: #fff8e1;
+                    color: #e65100;
+                    border: 1px solid #ffcc80;
+                }
+                .badge-class {
+                    background-color: #f9fbe7;
+                    color: #827717;
+                    border: 1px solid #f0f4c3;
+                }
+                .state-item, .prop-item, .hook-item, .context-item, .render-item, .hook-access-item {
                     padding: 8px;
                     border-radius: 4px;
                     background-color: #fafafa;
@@ -202,6 +248,7 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                     <!-- Component details will be displayed here -->
                 </div>
             </div>
+            <script src="${htmlScriptUri}"></script>
             <script src="${scriptUri}"></script>
             <script>
                 // Function to visualize component information
@@ -216,7 +263,7 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                     let html = \`
                         <div class="component-card">
                             <div class="component-header">
-                                <h2>\${component.name}</h2>
+                                <h2>\${component.displayName || component.name}</h2>
                                 <small class="clickable" onclick="openFile('\${component.filePath}')">\${component.filePath}</small>
                             </div>
                             
@@ -229,13 +276,33 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                             \${renderStatesSection(component.states)}
                             
                             <!-- Hooks section -->
-                            \${renderHooksSection(component.hooks)}
+                            \${renderHooksSection(component.hooks, component.hookCounts)}
                             
                             <!-- Contexts section -->
                             \${renderContextsSection(component.contexts)}
                             
+                            <!-- Context providers section -->
+                            \${renderProvidersSection(component.providers, component.missingProviders)}
+                            
                             <!-- Store usage section -->
                             \${renderStoreSection(component.storeUsage)}
+                            \${renderReduxAccessSection(component.reduxAccess)}
+                            
+                            <!-- Custom hook access section -->
+                            \${renderHookAccessSection(component.hookAccess)}
+                            
+                            <!-- Class component section -->
+                            \${renderClassSection(component.classInfo)}
+                            
+                            <!-- Prop drilling section -->
+                            \${renderPropDrillingSection(component.propDrilling)}
+                            
+                            <!-- Rules of hooks section -->
+                            \${renderHookRulesSection(component.hookRuleViolations)}
+                            
+                            <!-- Render tree section -->
+                            \${renderRelationsSection('Renders', component.children)}
+                            \${renderRelationsSection('Rendered By', component.parents)}
                         </div>
                     \`;
                     
@@ -298,10 +365,12 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                                         <span class="badge badge-state">state</span>
                                         \${state.usageCount ? \`<span class="usage-count">Usage: \${state.usageCount} times</span>\` : ''}
                                     </div>
-                                    <div>
-                                        <span class="label">Setter:</span>
-                                        <span class="value">\${state.setter}</span>
-                                    </div>
+                                    \${state.setter ? \`
+                                        <div>
+                                            <span class="label">Setter:</span>
+                                            <span class="value">\${state.setter}</span>
+                                        </div>
+                                    \` : ''}
                                     \${state.initialValue ? \`
                                         <div>
                                             <span class="label">Initial Value:</span>
@@ -315,7 +384,7 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                 }
                 
                 // Render Hooks section
-                function renderHooksSection(hooks) {
+                function renderHooksSection(hooks, hookCounts) {
                     if (!hooks || hooks.length === 0) {
                         return '';
                     }
@@ -323,6 +392,12 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                     return \`
                         <div class="section">
                             <div class="section-title hooks-title">Hooks (Total: \${hooks.length})</div>
+                            \${hookCounts ? \`
+                                <div class="hook-item">
+                                    <span class="label">Calls per Hook:</span>
+                                    <span>\${formatHookCounts(hookCounts)}</span>
+                                </div>
+                            \` : ''}
                             \${hooks.map(hook => \`
                                 <div class="hook-item">
                                     <span class="label">\${hook.name}</span>
@@ -386,6 +461,37 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                     \`;
                 }
                 
+                // Render the contexts a component provides and the ones it reads without a provider above it
+                function renderProvidersSection(providers, missingProviders) {
+                    if ((!providers || providers.length === 0) && (!missingProviders || missingProviders.length === 0)) {
+                        return '';
+                    }
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title provider-title">Context Providers</div>
+                            \${(providers || []).map(provider => \`
+                                <div class="context-item">
+                                    <span class="label">\${provider.name}.Provider</span>
+                                    <span class="usage-count">\${provider.callLocation.line}:\${provider.callLocation.column}</span>
+                                    \${provider.value ? \`
+                                        <div>
+                                            <span class="label">Value:</span>
+                                            <span class="value">\${escapeHtml(provider.value)}</span>
+                                        </div>
+                                    \` : ''}
+                                </div>
+                            \`).join('')}
+                            \${(missingProviders || []).map(name => \`
+                                <div class="context-item">
+                                    <span class="label">\${name}</span>
+                                    <span class="badge badge-warning">No provider above</span>
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
                 // Render Store section
                 function renderStoreSection(storeUsage) {
                     if (!storeUsage || storeUsage.length === 0) {
@@ -419,6 +525,189 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                     \`;
                 }
                 
+                // Render the state, context and store access gained through custom hooks
+                function renderHookAccessSection(hookAccess) {
+                    if (!hookAccess || hookAccess.hooks.length === 0) {
+                        return '';
+                    }
+                    
+                    const renderItems = (label, items) => items.length > 0 ? \`
+                        <div>
+                            <span class="label">\${label}:</span>
+                            <span>\${items.map(item => \`<span class="value">\${item.name}</span> <small>(\${item.hook})</small>\`).join(', ')}</span>
+                        </div>
+                    \` : '';
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title hook-access-title">Via Custom Hooks (Total: \${hookAccess.hooks.length})</div>
+                            <div class="hook-access-item">
+                                <div>
+                                    <span class="label">Hooks:</span>
+                                    <span class="value">[\${hookAccess.hooks.join(', ')}]</span>
+                                </div>
+                                \${renderItems('State', hookAccess.states)}
+                                \${renderItems('Contexts', hookAccess.contexts)}
+                                \${renderItems('Stores', hookAccess.stores)}
+                            </div>
+                        </div>
+                    \`;
+                }
+                
+                // Render Class component section
+                function renderClassSection(classInfo) {
+                    if (!classInfo) {
+                        return '';
+                    }
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title class-title">Class Component</div>
+                            <div class="state-item">
+                                <div>
+                                    <span class="label">Extends:</span>
+                                    <span class="value">\${classInfo.superClass}</span>
+                                </div>
+                                \${classInfo.lifecycleMethods.length > 0 ? \`
+                                    <div>
+                                        <span class="label">Lifecycle Methods:</span>
+                                        <span class="value">[\${classInfo.lifecycleMethods.join(', ')}]</span>
+                                    </div>
+                                \` : ''}
+                                \${classInfo.setStateCalls.length > 0 ? \`
+                                    <div>
+                                        <span class="label">setState Calls:</span>
+                                        <span>\${classInfo.setStateCalls.map(call => \`\${call.callLocation.line}:\${call.callLocation.column} {\${call.fields.join(', ')}}\`).join(', ')}</span>
+                                    </div>
+                                \` : ''}
+                                \${classInfo.contextType ? \`
+                                    <div>
+                                        <span class="label">Context Type:</span>
+                                        <span class="value">\${classInfo.contextType}</span>
+                                    </div>
+                                \` : ''}
+                                \${classInfo.defaultProps && classInfo.defaultProps.length > 0 ? \`
+                                    <div>
+                                        <span class="label">Default Props:</span>
+                                        <span class="value">[\${classInfo.defaultProps.join(', ')}]</span>
+                                    </div>
+                                \` : ''}
+                                \${classInfo.propTypes && classInfo.propTypes.length > 0 ? \`
+                                    <div>
+                                        <span class="label">Prop Types:</span>
+                                        <span class="value">[\${classInfo.propTypes.join(', ')}]</span>
+                                    </div>
+                                \` : ''}
+                            </div>
+                        </div>
+                    \`;
+                }
+                
+                // Render prop drilling chains the component is part of
+                function renderPropDrillingSection(propDrilling) {
+                    if (!propDrilling || propDrilling.length === 0) {
+                        return '';
+                    }
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title drilling-title">Prop Drilling (Total: \${propDrilling.length})</div>
+                            \${propDrilling.map(drilling => \`
+                                <div class="prop-item">
+                                    <div>
+                                        <span class="label">\${drilling.prop}</span>
+                                        <span class="badge badge-warning">\${drilling.forwardingCount} forwarding components</span>
+                                    </div>
+                                    <div>
+                                        <span class="label">Chain:</span>
+                                        <span>\${drilling.chain.map((step, index) => index === 0 ? step.componentName : \`\${step.componentName} (<span class="value">\${step.prop}</span>)\`).join(' → ')}</span>
+                                    </div>
+                                    <div>
+                                        <span class="label">Suggestion:</span>
+                                        <span>\${drilling.suggestion}</span>
+                                    </div>
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
+                // Render the Redux slices the component reads and writes
+                function renderReduxAccessSection(reduxAccess) {
+                    if (!reduxAccess || reduxAccess.length === 0) {
+                        return '';
+                    }
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title store-title">Redux Slices (Total: \${reduxAccess.length})</div>
+                            \${reduxAccess.map(access => \`
+                                <div class="prop-item">
+                                    <div>
+                                        <span class="label">\${access.slice}</span>
+                                        <small class="clickable" onclick="openFile('\${access.filePath}')">\${access.filePath}</small>
+                                    </div>
+                                    \${access.reads.length > 0 ? \`<div><span class="label">Reads:</span> \${access.reads.map(read => \`<span class="value">\${read}</span>\`).join(' ')}</div>\` : ''}
+                                    \${access.actions.length > 0 ? \`<div><span class="label">Dispatches:</span> \${access.actions.map(action => \`<span class="value">\${action}</span>\`).join(' ')}</div>\` : ''}
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
+                // Render hook calls that break the rules of hooks
+                function renderHookRulesSection(violations) {
+                    if (!violations || violations.length === 0) {
+                        return '';
+                    }
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title hook-rules-title">Rules of Hooks (Total: \${violations.length})</div>
+                            \${violations.map(violation => \`
+                                <div class="hook-item">
+                                    <div>
+                                        <span class="label">\${violation.hook}</span>
+                                        <span class="badge badge-warning">\${violation.rule}</span>
+                                        <span class="usage-count">Line \${violation.range.start.line}:\${violation.range.start.column}</span>
+                                    </div>
+                                    <div>\${violation.message}</div>
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
+                // Render component relations section (children or parents in the render tree)
+                function renderRelationsSection(title, relations) {
+                    if (!relations || relations.length === 0) {
+                        return '';
+                    }
+                    
+                    return \`
+                        <div class="section">
+                            <div class="section-title render-title">\${title} (Total: \${relations.length})</div>
+                            \${relations.map(relation => \`
+                                <div class="render-item">
+                                    <span class="label">\${relation.name}</span>
+                                    <span class="usage-count">Usage: \${relation.usageCount} times</span>
+                                    <div>
+                                        <small class="clickable" onclick="openFile('\${relation.filePath}')">\${relation.filePath}</small>
+                                    </div>
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
+                // Format hook call counts (useState ×5, useEffect ×4)
+                function formatHookCounts(hookCounts) {
+                    return Object.entries(hookCounts)
+                        .sort((a, b) => b[1] - a[1])
+                        .map(([name, count]) => count > 1 ? \`\${name} ×\${count}\` : name)
+                        .join(', ');
+                }
+                
                 // Get display name for store type
                 function getStoreTypeName(type) {
                     switch(type) {
@@ -427,6 +716,8 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                         case 'recoil': return 'Recoil';
                         case 'zustand': return 'Zustand';
                         case 'jotai': return 'Jotai';
+                        case 'react-query': return 'TanStack Query';
+                        case 'swr': return 'SWR';
                         default: return 'Other';
                     }
                 }
@@ -439,45 +730,86 @@ export class ComponentDetailsWebViewProvider implements vscode.WebviewViewProvid
                     });
                 }
                 
+                // Components shown in the list and the id of the selected one
+                let components = [];
+                let selectedId = null;
+                
+                function getComponentId(component) {
+                    return \`\${component.filePath}#\${component.name}\`;
+                }
+                
+                // Render the component list, keeping the selected component when it still exists
+                function renderComponentList() {
+                    const componentListElement = document.getElementById('component-list');
+                    
+                    if (components.length === 0) {
+                        selectedId = null;
+                        componentListElement.innerHTML = '<div class="placeholder">No React components found in analysis.</div>';
+                        document.getElementById('component-details').innerHTML = '';
+                        return;
+                    }
+                    
+                    let selectedIndex = components.findIndex(component => getComponentId(component) === selectedId);
+                    if (selectedIndex === -1) {
+                        selectedIndex = 0;
+                    }
+                    
+                    componentListElement.innerHTML = components.map((component, index) => \`
+                        <div class="component-item \${index === selectedIndex ? 'active' : ''}" onclick="selectComponent(\${index})">
+                            <div class="component-name">\${component.displayName || component.name}</div>
+                            <div class="component-path">\${component.filePath}</div>
+                            <div class="component-badges">
+                                \${component.kind === 'class' ? '<span class="badge badge-class">Class</span>' : ''}
+                                \${component.props.length > 0 ? \`<span class="badge badge-prop">Props: \${component.props.length}</span>\` : ''}
+                                \${component.states.length > 0 ? \`<span class="badge badge-state">State: \${component.states.length}</span>\` : ''}
+                                \${component.hooks.length > 0 ? \`<span class="badge badge-hook">Hooks: \${component.hooks.length}</span>\` : ''}
+                                \${component.contexts.length > 0 ? \`<span class="badge badge-context">Context: \${component.contexts.length}</span>\` : ''}
+                                \${component.missingProviders && component.missingProviders.length > 0 ? \`<span class="badge badge-warning">No Provider: \${component.missingProviders.length}</span>\` : ''}
+                                \${component.hookRuleViolations && component.hookRuleViolations.length > 0 ? \`<span class="badge badge-warning">Hook Rules: \${component.hookRuleViolations.length}</span>\` : ''}
+                            </div>
+                        </div>
+                    \`).join('');
+                    
+                    selectComponent(selectedIndex);
+                }
+                
+                // Component selection function
+                window.selectComponent = function(index) {
+                    // Update active class
+                    document.querySelectorAll('.component-item').forEach(item => {
+                        item.classList.remove('active');
+                    });
+                    document.querySelectorAll('.component-item')[index].classList.add('active');
+                    
+                    // Display selected component information
+                    selectedId = getComponentId(components[index]);
+                    renderComponentDetails(components[index]);
+                };
+                
                 // Handle messages from VS Code
                 window.addEventListener('message', event => {
                     const message = event.data;
                     
-                    if (message.command === 'updateComponents') {
-                        // Update component list
-                        const componentListElement = document.getElementById('component-list');
-                        
-                        if (message.components && message.components.length > 0) {
-                            componentListElement.innerHTML = message.components.map((component, index) => \`
-                                <div class="component-item \${index === 0 ? 'active' : ''}" onclick="selectComponent(\${index})">
-                                    <div class="component-name">\${component.name}</div>
-                                    <div class="component-path">\${component.filePath}</div>
-                                    <div class="component-badges">
-                                        \${component.props.length > 0 ? \`<span class="badge badge-prop">Props: \${component.props.length}</span>\` : ''}
-                                        \${component.states.length > 0 ? \`<span class="badge badge-state">State: \${component.states.length}</span>\` : ''}
-                                        \${component.hooks.length > 0 ? \`<span class="badge badge-hook">Hooks: \${component.hooks.length}</span>\` : ''}
-                                        \${component.contexts.length > 0 ? \`<span class="badge badge-context">Context: \${component.contexts.length}</span>\` : ''}
-                                    </div>
-                                </div>
-                            \`).join('');
-                            
-                            // Display first component details
-                            renderComponentDetails(message.components[0]);
-                            
-                            // Define component selection function
-                            window.selectComponent = function(index) {
-                                // Update active class
-                                document.querySelectorAll('.component-item').forEach(item => {
-                                    item.classList.remove('active');
-                                });
-                                document.querySelectorAll('.component-item')[index].classList.add('active');
-                                
-                                // Display selected component information
-                                renderComponentDetails(message.components[index]);
-                            };
-                        } else {
-                            componentListElement.innerHTML = '<div class="placeholder">No React components found in analysis.</div>';
-                            document.getElementById('component-details').innerHTML = '';
+                    switch (message.command) {
+                        case 'updateComponents':
+                            components = message.components || [];
+                            selectedId = null;
+                            renderComponentList();
+                            break;
+                        case 'applyDelta': {
+                            // Live analysis only sends the components that changed
+                            const removed = new Set(message.delta.removed);
+                            components = components.filter(component => !removed.has(getComponentId(component)));
+                            for (const component of message.delta.updated) {
+                                const index = components.findIndex(existing => getComponentId(existing) === getComponentId(component));
+                                if (index === -1) {
+                                    components.push(component);
+                                } else {
+                                    components[index] = component;
+                                }
+                            }
+                            renderComponentList();
+                            break;
                         }
                     }
                 });
@@ -513,13 +845,28 @@ export class DependencyGraphWebViewProvider implements vscode.WebviewViewProvide
         };
 
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Handle messages from webview
+        webviewView.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'openFile':
+                    if (message.filePath) {
+                        const uri = vscode.Uri.file(message.filePath);
+                        // Project nodes point to directories, which are revealed in the explorer instead
+                        vscode.window.showTextDocument(uri).then(undefined, () => {
+                            vscode.commands.executeCommand('revealInExplorer', uri);
+                        });
+                    }
+                    break;
+            }
+        });
     }
 
-    public updateDependencyGraph(nodes: any[], edges: any[]) {
+    public updateDependencyGraph(nodes: any[], edges: any[], affected?: any) {
         if (this._view) {
             this._view.webview.postMessage({
                 command: 'updateGraph',
-                data: { nodes, edges }
+                data: { nodes, edges, affected }
             });
         }
     }
@@ -558,10 +905,901 @@ export class DependencyGraphWebViewProvider implements vscode.WebviewViewProvide
                         To load the dependency graph, run "ReactBroX: Detect NX Project" from the command palette.
                     </div>
                 </div>
+                
+                <div id="affected-components"></div>
             </div>
             <script src="${visNetworkUri}"></script>
             <script src="${scriptUri}"></script>
         </body>
         </html>`;
     }
-}
\ No newline at end of file
+}
+
+interface GraphViewOptions {
+    title: string;
+    description: string;
+    // Name of the graph in the placeholder shown until the first analysis
+    graphName: string;
+}
+
+/**
+ * Webview provider for displaying a graph of analysis results with media/graph.js
+ */
+export class GraphWebViewProvider implements vscode.WebviewViewProvider {
+    private _view?: vscode.WebviewView;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _options: GraphViewOptions,
+    ) {}
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken,
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                this._extensionUri
+            ]
+        };
+
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Handle messages from webview
+        webviewView.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'openFile':
+                    if (message.filePath) {
+                        const uri = vscode.Uri.file(message.filePath);
+                        vscode.window.showTextDocument(uri);
+                    }
+                    break;
+            }
+        });
+    }
+
+    public updateGraph(nodes: any[], edges: any[]) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'updateGraph',
+                data: { nodes, edges }
+            });
+        }
+    }
+
+    /**
+     * Generate HTML for webview
+     */
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        // Generate resource URIs for styles, scripts etc.
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'graph.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
+        
+        // Add chart library (vis-network)
+        const visNetworkUri = webview.asWebviewUri(vscode.Uri.joinPath(
+            this._extensionUri, 'node_modules', 'vis-network', 'dist', 'vis-network.min.js'));
+        const visNetworkCssUri = webview.asWebviewUri(vscode.Uri.joinPath(
+            this._extensionUri, 'node_modules', 'vis-network', 'dist', 'vis-network.min.css'));
+
+        // Generate HTML
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link href="${styleUri}" rel="stylesheet">
+            <link href="${visNetworkCssUri}" rel="stylesheet">
+            <title>${this._options.title}</title>
+        </head>
+        <body>
+            <div class="container">
+                <h1>${this._options.title}</h1>
+                <p class="info-text">${this._options.description}</p>
+                
+                <div id="dependency-graph" class="graph-container">
+                    <div class="placeholder">
+                        To load the ${this._options.graphName}, run "ReactBroX: Analyze React Components" from the command palette.
+                    </div>
+                </div>
+            </div>
+            <script src="${visNetworkUri}"></script>
+            <script src="${scriptUri}"></script>
+        </body>
+        </html>`;
+    }
+}
+
+/**
+ * Webview provider for displaying the component render tree
+ */
+export class RenderTreeWebViewProvider extends GraphWebViewProvider {
+    public static readonly viewType = 'reactBro.renderTree';
+
+    constructor(extensionUri: vscode.Uri) {
+        super(extensionUri, {
+            title: 'Component Render Tree',
+            description: 'Which components render which, across the analyzed workspace',
+            graphName: 'render tree'
+        });
+    }
+}
+
+/**
+ * Webview provider for displaying which components and hooks call which custom hooks
+ */
+export class HookGraphWebViewProvider extends GraphWebViewProvider {
+    public static readonly viewType = 'reactBro.hookGraph';
+
+    constructor(extensionUri: vscode.Uri) {
+        super(extensionUri, {
+            title: 'Hook Composition Graph',
+            description: 'Which components and custom hooks call which custom hooks',
+            graphName: 'hook graph'
+        });
+    }
+}
+
+/**
+ * Webview provider for displaying the data flow from Recoil and Jotai atoms through selectors to components
+ */
+export class AtomGraphWebViewProvider extends GraphWebViewProvider {
+    public static readonly viewType = 'reactBro.atomGraph';
+
+    constructor(extensionUri: vscode.Uri) {
+        super(extensionUri, {
+            title: 'Atom Graph',
+            description: 'Atoms and selectors with the components that read and write them',
+            graphName: 'atom graph'
+        });
+    }
+}
+
+/**
+ * Webview provider for displaying contexts with their providers and consumers
+ */
+export class ContextMapWebViewProvider implements vscode.WebviewViewProvider {
+    public static readonly viewType = 'reactBro.contextMap';
+    private _view?: vscode.WebviewView;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _workspaceRoot: string,
+    ) {}
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken,
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                this._extensionUri
+            ]
+        };
+
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Handle messages from webview
+        webviewView.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'openFile':
+                    if (message.filePath) {
+                        const uri = vscode.Uri.file(path.join(this._workspaceRoot, message.filePath));
+                        const line = Math.max((message.line || 1) - 1, 0);
+                        vscode.window.showTextDocument(uri, { selection: new vscode.Range(line, 0, line, 0) });
+                    }
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Updates webview content with the analyzed contexts.
+     */
+    public updateContexts(contexts: ContextNode[]) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'updateContexts',
+                contexts
+            });
+        }
+    }
+
+    /**
+     * Generate HTML for webview
+     */
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        // Generate resource URIs for styles, scripts etc.
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
+        const htmlScriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'html.js'));
+
+        // Generate HTML
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link href="${styleUri}" rel="stylesheet">
+            <title>Context Map</title>
+            <style>
+                .context-card {
+                    border: 1px solid #e0e0e0;
+                    border-radius: 4px;
+                    padding: 12px;
+                    margin-bottom: 12px;
+                    background-color: #fff;
+                }
+                .context-card h2 {
+                    margin: 0 0 4px 0;
+                    font-size: 1rem;
+                    color: #e65100;
+                }
+                .context-row {
+                    padding: 4px 8px;
+                    border-radius: 4px;
+                    background-color: #fafafa;
+                    margin-bottom: 4px;
+                }
+                .context-subtitle {
+                    font-weight: 600;
+                    margin: 8px 0 4px 0;
+                }
+                .value {
+                    font-family: 'Courier New', monospace;
+                    background-color: #f5f5f5;
+                    padding: 1px 4px;
+                    border-radius: 2px;
+                }
+                .clickable {
+                    cursor: pointer;
+                    text-decoration: underline;
+                    color: #1976d2;
+                }
+                .missing-provider {
+                    color: #e65100;
+                    font-weight: 600;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <h1>Context Map</h1>
+                <p class="info-text">Where each context is created, provided and consumed</p>
+                
+                <div id="context-list">
+                    <div class="placeholder">
+                        To load the context map, run "ReactBroX: Analyze React Components" from the command palette.
+                    </div>
+                </div>
+            </div>
+            <script src="${htmlScriptUri}"></script>
+            <script>
+                const vscode = acquireVsCodeApi();
+                
+                // Function to open file
+                function openFile(filePath, line) {
+                    vscode.postMessage({
+                        command: 'openFile',
+                        filePath,
+                        line
+                    });
+                }
+                
+                function renderContext(context) {
+                    const definition = context.definition;
+                    return \`
+                        <div class="context-card">
+                            <h2>\${escapeHtml(definition.name)}</h2>
+                            <small class="clickable" onclick="openFile('\${definition.filePath}', \${definition.location.line})">\${definition.filePath}:\${definition.location.line}</small>
+                            \${definition.defaultValue ? \`<div>Default value: <span class="value">\${escapeHtml(definition.defaultValue)}</span></div>\` : ''}
+                            
+                            <div class="context-subtitle">Providers (\${context.providers.length})</div>
+                            \${context.providers.length === 0 ? '<div class="context-row">No provider found</div>' : ''}
+                            \${context.providers.map(provider => \`
+                                <div class="context-row">
+                                    <span class="clickable" onclick="openFile('\${provider.filePath}', \${provider.line})">\${provider.componentName}</span>
+                                    \${provider.value ? \`<span class="value">value=\${escapeHtml(provider.value)}</span>\` : ''}
+                                </div>
+                            \`).join('')}
+                            
+                            <div class="context-subtitle">Consumers (\${context.consumers.length})</div>
+                            \${context.consumers.map(consumer => \`
+                                <div class="context-row">
+                                    <span class="clickable" onclick="openFile('\${consumer.filePath}', 1)">\${consumer.componentName}</span>
+                                    <small>via \${consumer.via}</small>
+                                    \${consumer.providerFound ? '' : '<span class="missing-provider">· not rendered beneath a provider</span>'}
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
+                // Handle messages from VS Code
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    
+                    if (message.command === 'updateContexts') {
+                        const listElement = document.getElementById('context-list');
+                        listElement.innerHTML = message.contexts && message.contexts.length > 0
+                            ? message.contexts.map(renderContext).join('')
+                            : '<div class="placeholder">No createContext calls found in analysis.</div>';
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
+
+/**
+ * Webview provider for displaying components ranked by their re-render risks
+ */
+export class RerenderRisksWebViewProvider implements vscode.WebviewViewProvider {
+    public static readonly viewType = 'reactBro.rerenderRisks';
+    private _view?: vscode.WebviewView;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _workspaceRoot: string,
+    ) {}
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken,
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                this._extensionUri
+            ]
+        };
+
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Handle messages from webview
+        webviewView.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'openFile':
+                    if (message.filePath) {
+                        const uri = vscode.Uri.file(path.join(this._workspaceRoot, message.filePath));
+                        const line = Math.max((message.line || 1) - 1, 0);
+                        const column = message.column || 0;
+                        vscode.window.showTextDocument(uri, { selection: new vscode.Range(line, column, line, column) });
+                    }
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Updates webview content with the ranked re-render risks.
+     */
+    public updateRisks(reports: RerenderRiskReport[]) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'updateRisks',
+                reports
+            });
+        }
+    }
+
+    /**
+     * Generate HTML for webview
+     */
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        // Generate resource URIs for styles, scripts etc.
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
+        const htmlScriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'html.js'));
+
+        // Generate HTML
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link href="${styleUri}" rel="stylesheet">
+            <title>Re-render Risks</title>
+            <style>
+                .risk-card {
+                    border: 1px solid #e0e0e0;
+                    border-radius: 4px;
+                    padding: 12px;
+                    margin-bottom: 12px;
+                    background-color: #fff;
+                }
+                .risk-card h2 {
+                    margin: 0 0 4px 0;
+                    font-size: 1rem;
+                    color: #c62828;
+                }
+                .risk-score {
+                    float: right;
+                    font-size: 0.8rem;
+                    color: #757575;
+                }
+                .risk-row {
+                    padding: 4px 8px;
+                    border-radius: 4px;
+                    background-color: #fafafa;
+                    margin-bottom: 4px;
+                }
+                .risk-kind {
+                    font-weight: 600;
+                    margin-right: 4px;
+                }
+                .clickable {
+                    cursor: pointer;
+                    text-decoration: underline;
+                    color: #1976d2;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <h1>Re-render Risks</h1>
+                <p class="info-text">Components ranked by values that change on every render</p>
+                
+                <div id="risk-list">
+                    <div class="placeholder">
+                        To find re-render risks, run "ReactBroX: Analyze React Components" from the command palette.
+                    </div>
+                </div>
+            </div>
+            <script src="${htmlScriptUri}"></script>
+            <script>
+                const vscode = acquireVsCodeApi();
+                
+                const RISK_KIND_LABELS = {
+                    'memo-prop': 'Unstable prop',
+                    'context-value': 'Context value',
+                    'selector': 'Selector'
+                };
+                
+                // Function to open file
+                function openFile(filePath, line, column) {
+                    vscode.postMessage({
+                        command: 'openFile',
+                        filePath,
+                        line,
+                        column
+                    });
+                }
+                
+                function renderReport(report, index) {
+                    return \`
+                        <div class="risk-card">
+                            <span class="risk-score">Score \${report.score}</span>
+                            <h2>\${index + 1}. \${report.componentName}</h2>
+                            <small class="clickable" onclick="openFile('\${report.filePath}', 1, 0)">\${report.filePath}</small>
+                            \${report.risks.map(risk => \`
+                                <div class="risk-row">
+                                    <span class="risk-kind">\${RISK_KIND_LABELS[risk.kind] || risk.kind}</span>
+                                    <span class="clickable" onclick="openFile('\${report.filePath}', \${risk.location.line}, \${risk.location.column})">line \${risk.location.line}</span>
+                                    <div>\${escapeHtml(risk.message)}</div>
+                                </div>
+                            \`).join('')}
+                        </div>
+                    \`;
+                }
+                
+                // Handle messages from VS Code
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    
+                    if (message.command === 'updateRisks') {
+                        const listElement = document.getElementById('risk-list');
+                        listElement.innerHTML = message.reports && message.reports.length > 0
+                            ? message.reports.map(renderReport).join('')
+                            : '<div class="placeholder">No re-render risks found in analysis.</div>';
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
+
+/**
+ * Webview provider for displaying Redux slices and thunks with the components that read and write them
+ */
+export class ReduxStoreWebViewProvider implements vscode.WebviewViewProvider {
+    public static readonly viewType = 'reactBro.reduxStore';
+    private _view?: vscode.WebviewView;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _workspaceRoot: string,
+    ) {}
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken,
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                this._extensionUri
+            ]
+        };
+
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Handle messages from webview
+        webviewView.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'openFile':
+                    if (message.filePath) {
+                        const uri = vscode.Uri.file(path.join(this._workspaceRoot, message.filePath));
+                        const line = Math.max((message.line || 1) - 1, 0);
+                        vscode.window.showTextDocument(uri, { selection: new vscode.Range(line, 0, line, 0) });
+                    }
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Updates webview content with the analyzed slices and thunks.
+     */
+    public updateStore(slices: ReduxSliceNode[], thunks: ReduxThunkNode[]) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'updateStore',
+                slices,
+                thunks
+            });
+        }
+    }
+
+    /**
+     * Generate HTML for webview
+     */
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        // Generate resource URIs for styles, scripts etc.
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
+        const htmlScriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'html.js'));
+
+        // Generate HTML
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link href="${styleUri}" rel="stylesheet">
+            <title>Redux Store</title>
+            <style>
+                .store-card {
+                    border: 1px solid #e0e0e0;
+                    border-radius: 4px;
+                    padding: 12px;
+                    margin-bottom: 12px;
+                    background-color: #fff;
+                }
+                .store-card h2 {
+                    margin: 0 0 4px 0;
+                    font-size: 1rem;
+                    color: #1a237e;
+                }
+                .store-row {
+                    padding: 4px 8px;
+                    border-radius: 4px;
+                    background-color: #fafafa;
+                    margin-bottom: 4px;
+                }
+                .store-subtitle {
+                    font-weight: 600;
+                    margin: 8px 0 4px 0;
+                }
+                .value {
+                    font-family: 'Courier New', monospace;
+                    background-color: #f5f5f5;
+                    padding: 1px 4px;
+                    border-radius: 2px;
+                }
+                .clickable {
+                    cursor: pointer;
+                    text-decoration: underline;
+                    color: #1976d2;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <h1>Redux Store</h1>
+                <p class="info-text">Slices and thunks with the components that read and write them</p>
+                
+                <div id="store-list">
+                    <div class="placeholder">
+                        To load the store, run "ReactBroX: Analyze React Components" from the command palette.
+                    </div>
+                </div>
+            </div>
+            <script src="${htmlScriptUri}"></script>
+            <script>
+                const vscode = acquireVsCodeApi();
+                
+                // Function to open file
+                function openFile(filePath, line) {
+                    vscode.postMessage({
+                        command: 'openFile',
+                        filePath,
+                        line
+                    });
+                }
+                
+                function renderValues(label, values) {
+                    return values && values.length > 0
+                        ? \`<div>\${label}: \${values.map(value => \`<span class="value">\${escapeHtml(value)}</span>\`).join(' ')}</div>\`
+                        : '';
+                }
+                
+                function renderSites(title, sites) {
+                    return \`
+                        <div class="store-subtitle">\${title} (\${sites.length})</div>
+                        \${sites.map(site => \`
+                            <div class="store-row">
+                                <span class="clickable" onclick="openFile('\${site.filePath}', \${site.line})">\${site.componentName}</span>
+                                <span class="value">\${escapeHtml(site.detail)}</span>
+                            </div>
+                        \`).join('')}
+                    \`;
+                }
+                
+                function renderSlice(node) {
+                    const slice = node.slice;
+                    return \`
+                        <div class="store-card">
+                            <h2>\${slice.sliceName}</h2>
+                            <small class="clickable" onclick="openFile('\${slice.filePath}', \${slice.location.line})">\${slice.filePath}:\${slice.location.line}</small>
+                            \${renderValues('State', slice.stateShape)}
+                            \${renderValues('Reducers', slice.reducers)}
+                            \${renderValues('Extra reducers', slice.extraReducers)}
+                            \${renderValues('Thunks', node.thunks)}
+                            \${renderSites('Read by', node.readers)}
+                            \${renderSites('Written by', node.writers)}
+                        </div>
+                    \`;
+                }
+                
+                function renderThunk(node) {
+                    const thunk = node.thunk;
+                    return \`
+                        <div class="store-card">
+                            <h2>\${thunk.name}</h2>
+                            <small class="clickable" onclick="openFile('\${thunk.filePath}', \${thunk.location.line})">\${thunk.filePath}:\${thunk.location.line}</small>
+                            <div>Type: <span class="value">\${escapeHtml(thunk.typePrefix)}</span></div>
+                            \${renderValues('Handled by', node.handledBy)}
+                            \${renderSites('Dispatched by', node.dispatchers)}
+                        </div>
+                    \`;
+                }
+                
+                // Handle messages from VS Code
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    
+                    if (message.command === 'updateStore') {
+                        const listElement = document.getElementById('store-list');
+                        const slices = message.slices || [];
+                        const thunks = message.thunks || [];
+                        listElement.innerHTML = slices.length > 0 || thunks.length > 0
+                            ? slices.map(renderSlice).join('') + (thunks.length > 0 ? \`<h3>Thunks</h3>\${thunks.map(renderThunk).join('')}\` : '')
+                            : '<div class="placeholder">No createSlice or createAsyncThunk calls found in analysis.</div>';
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
+
+/**
+ * Webview provider for displaying TanStack Query and SWR cache keys with the components that share them
+ */
+export class QueryCacheWebViewProvider implements vscode.WebviewViewProvider {
+    public static readonly viewType = 'reactBro.queryCache';
+    private _view?: vscode.WebviewView;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _workspaceRoot: string,
+    ) {}
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken,
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                this._extensionUri
+            ]
+        };
+
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Handle messages from webview
+        webviewView.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'openFile':
+                    if (message.filePath) {
+                        const uri = vscode.Uri.file(path.join(this._workspaceRoot, message.filePath));
+                        const line = Math.max((message.line || 1) - 1, 0);
+                        vscode.window.showTextDocument(uri, { selection: new vscode.Range(line, 0, line, 0) });
+                    }
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Updates webview content with the analyzed cache keys.
+     */
+    public updateCache(nodes: QueryCacheNode[]) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'updateCache',
+                nodes
+            });
+        }
+    }
+
+    /**
+     * Generate HTML for webview
+     */
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        // Generate resource URIs for styles, scripts etc.
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'style.css'));
+        const htmlScriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'html.js'));
+
+        // Generate HTML
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <link href="${styleUri}" rel="stylesheet">
+            <title>Query Cache</title>
+            <style>
+                .cache-card {
+                    border: 1px solid #e0e0e0;
+                    border-radius: 4px;
+                    padding: 12px;
+                    margin-bottom: 12px;
+                    background-color: #fff;
+                }
+                .cache-card.shared {
+                    border-left: 4px solid #00897b;
+                }
+                .cache-card h2 {
+                    margin: 0 0 4px 0;
+                    font-size: 1rem;
+                    font-family: 'Courier New', monospace;
+                    color: #1a237e;
+                }
+                .cache-row {
+                    padding: 4px 8px;
+                    border-radius: 4px;
+                    background-color: #fafafa;
+                    margin-bottom: 4px;
+                }
+                .cache-subtitle {
+                    font-weight: 600;
+                    margin: 8px 0 4px 0;
+                }
+                .library-badge {
+                    display: inline-block;
+                    padding: 2px 6px;
+                    border-radius: 10px;
+                    font-size: 0.75rem;
+                    background-color: #e0f2f1;
+                    color: #00695c;
+                    margin-right: 4px;
+                }
+                .value {
+                    font-family: 'Courier New', monospace;
+                    background-color: #f5f5f5;
+                    padding: 1px 4px;
+                    border-radius: 2px;
+                }
+                .clickable {
+                    cursor: pointer;
+                    text-decoration: underline;
+                    color: #1976d2;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <h1>Query Cache</h1>
+                <p class="info-text">TanStack Query and SWR cache keys with the components that share them</p>
+                
+                <div id="cache-list">
+                    <div class="placeholder">
+                        To load the cache keys, run "ReactBroX: Analyze React Components" from the command palette.
+                    </div>
+                </div>
+            </div>
+            <script src="${htmlScriptUri}"></script>
+            <script>
+                const vscode = acquireVsCodeApi();
+                
+                // Function to open file
+                function openFile(filePath, line) {
+                    vscode.postMessage({
+                        command: 'openFile',
+                        filePath,
+                        line
+                    });
+                }
+                
+                function countComponents(node) {
+                    return new Set(node.queries.map(site => site.componentId)).size;
+                }
+                
+                function renderSites(title, sites) {
+                    if (sites.length === 0) {
+                        return '';
+                    }
+                    return \`
+                        <div class="cache-subtitle">\${title} (\${sites.length})</div>
+                        \${sites.map(site => \`
+                            <div class="cache-row">
+                                <span class="clickable" onclick="openFile('\${site.filePath}', \${site.line})">\${site.componentName}</span>
+                                <span class="value">\${site.hook}</span>
+                                \${site.key !== undefined ? \`<span class="value">\${escapeHtml(site.key)}</span>\` : ''}
+                                \${site.via ? \`<small>via \${site.via}</small>\` : ''}
+                            </div>
+                        \`).join('')}
+                    \`;
+                }
+                
+                function renderNode(node) {
+                    const componentCount = countComponents(node);
+                    return \`
+                        <div class="cache-card \${componentCount > 1 ? 'shared' : ''}">
+                            <h2>\${escapeHtml(node.key)}</h2>
+                            <span class="library-badge">\${node.library === 'swr' ? 'SWR' : 'TanStack Query'}</span>
+                            \${componentCount > 1 ? \`<small>Shared by \${componentCount} components</small>\` : ''}
+                            \${renderSites('Queried by', node.queries)}
+                            \${renderSites('Mutated by', node.mutations)}
+                            \${renderSites('Invalidated by', node.invalidations)}
+                        </div>
+                    \`;
+                }
+                
+                // Handle messages from VS Code
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    
+                    if (message.command === 'updateCache') {
+                        const listElement = document.getElementById('cache-list');
+                        // Keys shared by the most components first
+                        const nodes = (message.nodes || []).sort((a, b) =>
+                            countComponents(b) - countComponents(a) || a.key.localeCompare(b.key));
+                        listElement.innerHTML = nodes.length > 0
+                            ? nodes.map(renderNode).join('')
+                            : '<div class="placeholder">No TanStack Query or SWR keys found in analysis.</div>';
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
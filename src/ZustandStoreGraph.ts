@@ -0,0 +1,120 @@
+import * as path from 'path';
+import { ComponentInfo, StoreInfo, ZustandStoreInfo, ZustandUsageInfo } from './ReactComponentAnalyzer';
+import { ModuleResolver } from './ModuleResolver';
+import { getComponentId } from './ComponentRenderGraph';
+
+export interface ZustandConsumerSite {
+    componentId: string;
+    componentName: string;
+    filePath: string;
+    keys: string[];
+    line: number;
+}
+
+export interface ZustandStoreNode {
+    id: string;
+    store: ZustandStoreInfo;
+    consumers: ZustandConsumerSite[];
+}
+
+/**
+ * Returns the workspace-unique id of a Zustand store.
+ */
+export function getZustandStoreId(store: ZustandStoreInfo): string {
+    return `${store.filePath}#${store.name}`;
+}
+
+/**
+ * Resolves the Zustand hooks components call to the stores that define them, and describes
+ * each component's store usage as the state keys it selects and the actions it takes.
+ */
+export class ZustandStoreGraphBuilder {
+    private workspaceRoot: string;
+    private resolver: ModuleResolver;
+
+    constructor(workspaceRoot: string, resolver: ModuleResolver) {
+        this.workspaceRoot = workspaceRoot;
+        this.resolver = resolver;
+    }
+
+    /**
+     * Links consumers to stores and rewrites the zustand store usage of every resolved component.
+     */
+    public build(stores: ZustandStoreInfo[], components: ComponentInfo[]): Map<string, ZustandStoreNode> {
+        const nodes = new Map<string, ZustandStoreNode>();
+        for (const store of stores) {
+            nodes.set(getZustandStoreId(store), { id: getZustandStoreId(store), store, consumers: [] });
+        }
+
+        for (const component of components) {
+            if (!component.zustandUsage || component.zustandUsage.length === 0) {
+                continue;
+            }
+
+            const storeInfo: StoreInfo = { type: 'zustand', actions: [], selectors: [] };
+            const addItem = (category: 'actions' | 'selectors', item: string) => {
+                if (!storeInfo[category].includes(item)) {
+                    storeInfo[category].push(item);
+                }
+            };
+
+            for (const usage of component.zustandUsage) {
+                const store = this.resolveStore(component.filePath, usage, stores);
+                if (!store) {
+                    // Unresolved hooks keep what the call site tells
+                    for (const key of usage.keys) {
+                        addItem('selectors', key === '*' ? `${usage.reference} (entire store)` : `${usage.reference}.${key}`);
+                    }
+                    continue;
+                }
+
+                nodes.get(getZustandStoreId(store))!.consumers.push({
+                    componentId: getComponentId(component),
+                    componentName: component.name,
+                    filePath: component.filePath,
+                    keys: usage.keys,
+                    line: usage.location.line
+                });
+
+                for (const key of usage.keys) {
+                    if (key === '*') {
+                        addItem('selectors', `${store.name} (entire store: ${store.stateKeys.join(', ')})`);
+                    } else {
+                        addItem(store.actions.includes(key.split('.')[0]) ? 'actions' : 'selectors', `${store.name}.${key}`);
+                    }
+                }
+            }
+
+            component.storeUsage = [...(component.storeUsage || []).filter(store => store.type !== 'zustand'), storeInfo];
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Resolves a store hook or vanilla store reference to its create call, following barrel re-exports.
+     */
+    private resolveStore(filePath: string, usage: ZustandUsageInfo, stores: ZustandStoreInfo[]): ZustandStoreInfo | null {
+        // Stores created in the same file
+        if (!usage.source) {
+            return stores.find(store => store.filePath === filePath && store.name === usage.reference) || null;
+        }
+
+        if (!usage.importedName || usage.importedName === '*') {
+            return null;
+        }
+
+        const resolved = this.resolver.resolve(usage.source, path.join(this.workspaceRoot, filePath));
+        if (!resolved) {
+            return null;
+        }
+
+        const declaration = this.resolver.resolveExport(resolved.filePath, usage.importedName);
+        if (!declaration) {
+            return null;
+        }
+
+        const declarationPath = path.relative(this.workspaceRoot, declaration.filePath);
+        return stores.find(store => store.filePath === declarationPath && store.exportNames?.includes(declaration.exportName)) || null;
+    }
+}
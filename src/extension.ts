@@ -1,16 +1,57 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
 import { NxProjectAnalyzer, DependencyInfo, ProjectInfo } from './NxProjectAnalyzer';
-import { ReactComponentAnalyzer, ComponentInfo } from './ReactComponentAnalyzer';
-import { ComponentDetailsWebViewProvider, DependencyGraphWebViewProvider } from './WebViewProvider';
+import { ReactComponentAnalyzer, ComponentInfo, CustomHookInfo, ContextDefinitionInfo, HookRuleViolation, ReduxDefinitions, ZustandStoreInfo, MobxStoreInfo, AtomInfo, FileAnalysis, ANALYZER_VERSION } from './ReactComponentAnalyzer';
+import {
+	ComponentDetailsWebViewProvider,
+	DependencyGraphWebViewProvider,
+	RenderTreeWebViewProvider,
+	HookGraphWebViewProvider,
+	ContextMapWebViewProvider,
+	RerenderRisksWebViewProvider,
+	ReduxStoreWebViewProvider,
+	QueryCacheWebViewProvider,
+	AtomGraphWebViewProvider
+} from './WebViewProvider';
 import { ComponentExporter } from './ComponentExporter';
 import { ComponentServer } from './ComponentServer';
+import { ComponentRenderGraphBuilder, RenderGraph, getComponentId } from './ComponentRenderGraph';
+import { HookCompositionGraphBuilder, HookGraph } from './HookCompositionGraph';
+import { ContextGraphBuilder, ContextGraph } from './ContextGraph';
+import { ReduxStoreGraphBuilder, ReduxStoreGraph } from './ReduxStoreGraph';
+import { ZustandStoreGraphBuilder } from './ZustandStoreGraph';
+import { MobxStoreGraphBuilder } from './MobxStoreGraph';
+import { QueryCacheGraphBuilder, QueryCacheNode } from './QueryCacheGraph';
+import { AtomGraphBuilder, AtomGraph } from './AtomGraph';
+import { PropDrillingDetector } from './PropDrillingDetector';
+import { RerenderRiskDetector, RerenderRiskReport } from './RerenderRiskDetector';
+import { ModuleResolver } from './ModuleResolver';
+import { ModuleBoundaryChecker, BoundaryViolation } from './ModuleBoundaryChecker';
+import { AffectedProjectsAnalyzer } from './AffectedProjectsAnalyzer';
+import { EffectDependencyChecker, EffectDependencyIssue } from './EffectDependencyChecker';
+import { EffectDependencyDiagnostics } from './EffectDependencyDiagnostics';
+import { AnalysisCache } from './AnalysisCache';
+import { AnalysisWorkerPool, getWorkerCount } from './AnalysisWorkerPool';
+import { ComponentWatcher, FileChanges, diffComponents } from './ComponentWatcher';
 
 // Global variables for storing analyzed components and server instance
 let analyzedComponents: ComponentInfo[] = [];
+let renderGraph: RenderGraph | null = null;
+let hookGraph: HookGraph | null = null;
+let contextGraph: ContextGraph | null = null;
+let rerenderRisks: RerenderRiskReport[] = [];
+let reduxGraph: ReduxStoreGraph | null = null;
+let queryCache: Map<string, QueryCacheNode> | null = null;
+let atomGraph: AtomGraph | null = null;
 let componentServer: ComponentServer | null = null;
 
+// Analysis results of every analyzed file, kept so that changed files can be re-analyzed alone
+let fileAnalyses = new Map<string, FileAnalysis>();
+let analyzedProjectPath = '';
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
@@ -24,12 +65,87 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 
 	// Create analyzer instances
-	const nxAnalyzer = new NxProjectAnalyzer(workspaceRoot);
-	const reactAnalyzer = new ReactComponentAnalyzer(workspaceRoot);
+	const config = vscode.workspace.getConfiguration('reactBroX');
+	const nxAnalyzer = new NxProjectAnalyzer(workspaceRoot, {
+		preferGraphCache: config.get<boolean>('preferNxGraphCache', false),
+		graphFile: config.get<string>('nxGraphFile', '')
+	});
+	const hocNames = config.get<string[]>('hocNames', []);
+	const reactAnalyzer = new ReactComponentAnalyzer(workspaceRoot, { hocNames });
+	
+	// Files are parsed on worker threads, which extract props with one TypeScript program per NX project
+	const workerPool = new AnalysisWorkerPool(
+		path.join(__dirname, 'AnalysisWorker.js'),
+		{ workspaceRoot, hocNames },
+		getWorkerCount(config.get<number>('analysisWorkers', 0))
+	);
+	context.subscriptions.push(workerPool);
+	
+	// Analysis results depend on the analyzer version and the unwrapped HOCs as well as on the files
+	const useAnalysisCache = config.get<boolean>('analysisCache', true);
+	const analysisCache = new AnalysisCache(
+		context.globalStorageUri.fsPath,
+		workspaceRoot,
+		`${ANALYZER_VERSION}:${hocNames.join(',')}`
+	);
+	context.subscriptions.push({ dispose: () => analysisCache.flush() });
+	const moduleResolver = new ModuleResolver(workspaceRoot);
+	const renderGraphBuilder = new ComponentRenderGraphBuilder(workspaceRoot, moduleResolver);
+	const hookGraphBuilder = new HookCompositionGraphBuilder(workspaceRoot, moduleResolver);
+	const contextGraphBuilder = new ContextGraphBuilder(workspaceRoot, moduleResolver);
+	const reduxGraphBuilder = new ReduxStoreGraphBuilder(workspaceRoot, moduleResolver);
+	const zustandGraphBuilder = new ZustandStoreGraphBuilder(workspaceRoot, moduleResolver);
+	const mobxGraphBuilder = new MobxStoreGraphBuilder(workspaceRoot, moduleResolver);
+	const queryCacheGraphBuilder = new QueryCacheGraphBuilder();
+	const atomGraphBuilder = new AtomGraphBuilder(workspaceRoot, moduleResolver);
+	const propDrillingDetector = new PropDrillingDetector(config.get<number>('propDrillingMinDepth', 2));
+	const rerenderRiskDetector = new RerenderRiskDetector();
+	const boundaryChecker = new ModuleBoundaryChecker(workspaceRoot);
+	const affectedAnalyzer = new AffectedProjectsAnalyzer(workspaceRoot);
+	const boundaryDiagnostics = vscode.languages.createDiagnosticCollection('reactBroX.moduleBoundaries');
+	context.subscriptions.push(boundaryDiagnostics);
+	const hookRuleDiagnostics = vscode.languages.createDiagnosticCollection('reactBroX.rulesOfHooks');
+	context.subscriptions.push(hookRuleDiagnostics);
+	const checkEffectDependencies = config.get<boolean>('checkEffectDependencies', true);
+	const effectDiagnostics = new EffectDependencyDiagnostics(new EffectDependencyChecker());
+	context.subscriptions.push(effectDiagnostics);
+	
+	// Full analyses and watcher batches run one at a time, so a batch never links results a full analysis is replacing
+	let analysisQueue: Promise<unknown> = Promise.resolve();
+	
+	// Re-analyzes changed files while editing once components have been analyzed
+	const watchMode = config.get<boolean>('watchMode', true);
+	const componentWatcher = new ComponentWatcher(workspaceRoot, changes => queueAnalysis(() => applyFileChanges(changes)));
+	context.subscriptions.push(componentWatcher);
+	
+	// Quick fixes that rewrite effect dependency arrays
+	context.subscriptions.push(
+		vscode.languages.registerCodeActionsProvider(
+			['javascript', 'javascriptreact', 'typescript', 'typescriptreact'].map(language => ({ scheme: 'file', language })),
+			effectDiagnostics,
+			{ providedCodeActionKinds: EffectDependencyDiagnostics.providedCodeActionKinds }
+		)
+	);
+	
+	// Re-check effect dependencies when a file is saved
+	context.subscriptions.push(
+		vscode.workspace.onDidSaveTextDocument(document => {
+			if (checkEffectDependencies && /\.(jsx?|tsx?)$/.test(document.fileName)) {
+				effectDiagnostics.checkDocument(document);
+			}
+		})
+	);
 
 	// Register webview providers
 	const componentDetailsProvider = new ComponentDetailsWebViewProvider(context.extensionUri);
 	const dependencyGraphProvider = new DependencyGraphWebViewProvider(context.extensionUri);
+	const renderTreeProvider = new RenderTreeWebViewProvider(context.extensionUri);
+	const hookGraphProvider = new HookGraphWebViewProvider(context.extensionUri);
+	const contextMapProvider = new ContextMapWebViewProvider(context.extensionUri, workspaceRoot);
+	const rerenderRisksProvider = new RerenderRisksWebViewProvider(context.extensionUri, workspaceRoot);
+	const reduxStoreProvider = new ReduxStoreWebViewProvider(context.extensionUri, workspaceRoot);
+	const queryCacheProvider = new QueryCacheWebViewProvider(context.extensionUri, workspaceRoot);
+	const atomGraphProvider = new AtomGraphWebViewProvider(context.extensionUri);
 
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider(
@@ -45,49 +161,521 @@ export function activate(context: vscode.ExtensionContext) {
 		)
 	);
 
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			RenderTreeWebViewProvider.viewType,
+			renderTreeProvider
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			HookGraphWebViewProvider.viewType,
+			hookGraphProvider
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			ContextMapWebViewProvider.viewType,
+			contextMapProvider
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			RerenderRisksWebViewProvider.viewType,
+			rerenderRisksProvider
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			ReduxStoreWebViewProvider.viewType,
+			reduxStoreProvider
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			QueryCacheWebViewProvider.viewType,
+			queryCacheProvider
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			AtomGraphWebViewProvider.viewType,
+			atomGraphProvider
+		)
+	);
+
 	/**
-	 * Executes React component analysis
+	 * Runs an analysis task after the ones already queued
+	 */
+	function queueAnalysis<T>(task: () => Promise<T>): Promise<T> {
+		const result = analysisQueue.then(task);
+		analysisQueue = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Executes React component analysis and stores the results in analyzedComponents
 	 */
 	async function analyzeReactComponents(projectPath: string = ''): Promise<ComponentInfo[]> {
-		return await vscode.window.withProgress({
+		return await queueAnalysis(async () => analyzedComponents = await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
 			title: "Analyzing React Components...",
-			cancellable: false
-		}, async (progress) => {
+			cancellable: true
+		}, async (progress, token) => {
+			// Cancelling keeps the results of the previous analysis
 			try {
 				// Find React component files
 				progress.report({ message: "Searching for React component files..." });
 				const componentFiles = await reactAnalyzer.findReactComponents(projectPath);
 				
 				if (componentFiles.length === 0) {
+					fileAnalyses = new Map();
+					analyzedProjectPath = projectPath;
+					effectDiagnostics.clear();
 					vscode.window.showInformationMessage('No React component files found.');
 					return [];
 				}
 				
 				progress.report({ message: `Analyzing ${componentFiles.length} component files...` });
 				
-				// Analyze each component
-				const components: ComponentInfo[] = [];
+				// Analyze each component and custom hook as the workers free up
+				if (await nxAnalyzer.isNxWorkspace()) {
+					workerPool.setProjects(await nxAnalyzer.getProjects());
+				}
+				workerPool.invalidate();
+				workerPool.addRootFiles(componentFiles);
+				analysisCache.beginRun();
 				
-				for (let i = 0; i < componentFiles.length; i++) {
-					progress.report({ 
-						message: `Analyzing component (${i + 1}/${componentFiles.length})`,
-						increment: (100 / componentFiles.length)
+				const analyses = new Map<string, FileAnalysis>();
+				const effectIssues = new Map<string, EffectDependencyIssue[]>();
+				try {
+					await analyzeFiles(componentFiles, token, (filePath, analysis, issues) => {
+						analyses.set(filePath, analysis);
+						if (issues) {
+							effectIssues.set(filePath, issues);
+						}
+						progress.report({ 
+							message: `Analyzing component (${analyses.size}/${componentFiles.length})`,
+							increment: (100 / componentFiles.length)
+						});
 					});
-					
-					const componentInfo = await reactAnalyzer.analyzeComponent(componentFiles[i]);
-					if (componentInfo) {
-						components.push(componentInfo);
+				} finally {
+					// Files analyzed before a cancellation are reused by the next analysis
+					if (useAnalysisCache) {
+						analysisCache.retainFiles(path.join(workspaceRoot, projectPath), componentFiles);
+						analysisCache.save();
 					}
 				}
 				
-				vscode.window.showInformationMessage(`Analysis complete: Found ${components.length} React components.`);
+				if (token.isCancellationRequested) {
+					vscode.window.showInformationMessage('Component analysis was cancelled.');
+					return analyzedComponents;
+				}
+				fileAnalyses = analyses;
+				analyzedProjectPath = projectPath;
+				if (checkEffectDependencies) {
+					effectDiagnostics.clear();
+					for (const [filePath, issues] of effectIssues) {
+						effectDiagnostics.setIssues(filePath, issues);
+					}
+				}
+				
+				// Link components through the JSX they render
+				progress.report({ message: "Building component render tree..." });
+				const components = await linkFileAnalyses();
+				
+				const { hits } = analysisCache.getStats();
+				vscode.window.showInformationMessage(
+					`Analysis complete: Found ${components.length} React components.${hits > 0 ? ` ${hits} unchanged files were reused from the cache.` : ''}`
+				);
 				return components;
 			} catch (error) {
 				vscode.window.showErrorMessage(`Error analyzing React components: ${error}`);
 				return [];
 			}
+		}));
+	}
+
+	/**
+	 * Analyzes files on the worker pool, checking their effect dependencies too, and reports each result as it completes.
+	 * Stops handing out files once cancelled, and stops the jobs already handed out.
+	 */
+	async function analyzeFiles(
+		filePaths: string[],
+		token: vscode.CancellationToken | undefined,
+		onAnalyzed: (filePath: string, analysis: FileAnalysis, issues?: EffectDependencyIssue[]) => void
+	): Promise<void> {
+		// Only the jobs of this run are cancelled, not those of watcher batches
+		const run = workerPool.createRun();
+		const cancellation = token?.onCancellationRequested(() => workerPool.cancel(run));
+		let next = 0;
+		const analyzeNext = async (): Promise<void> => {
+			while (next < filePaths.length && !token?.isCancellationRequested) {
+				const filePath = filePaths[next++];
+				try {
+					const [analysis, issues] = await Promise.all([
+						analyzeFile(filePath, run),
+						checkEffectDependencies ? workerPool.checkEffects(filePath, run) : undefined
+					]);
+					onAnalyzed(filePath, analysis, issues);
+				} catch (error) {
+					// Jobs fail when cancelled; a crashed worker only loses its file
+					if (!token?.isCancellationRequested) {
+						console.error(`Error analyzing ${filePath}:`, error);
+					}
+				}
+			}
+		};
+		
+		// Keeping more files in flight than there are workers overlaps cache reads with analysis
+		try {
+			await Promise.all(Array.from({ length: workerPool.getSize() * 2 }, analyzeNext));
+		} finally {
+			cancellation?.dispose();
+		}
+	}
+
+	/**
+	 * Analyzes a file, reusing the cached result when the file has not changed
+	 */
+	async function analyzeFile(filePath: string, run: number): Promise<FileAnalysis> {
+		return useAnalysisCache
+			? analysisCache.getOrAnalyze(filePath, file => workerPool.analyze(file, run))
+			: workerPool.analyze(filePath, run);
+	}
+
+	/**
+	 * Links the analyzed files into the render, hook, context and store graphs and returns the linked components
+	 */
+	async function linkFileAnalyses(): Promise<ComponentInfo[]> {
+		const components: ComponentInfo[] = [];
+		const hooks: CustomHookInfo[] = [];
+		const contexts: ContextDefinitionInfo[] = [];
+		const hookRuleViolations: HookRuleViolation[] = [];
+		const redux: ReduxDefinitions = { slices: [], thunks: [], selectors: [] };
+		const zustandStores: ZustandStoreInfo[] = [];
+		const mobxStores: MobxStoreInfo[] = [];
+		const atoms: AtomInfo[] = [];
+		
+		// Graph builders add to the analyses, so they get copies and the kept results can be linked again
+		for (const analysis of fileAnalyses.values()) {
+			const fileAnalysis: FileAnalysis = JSON.parse(JSON.stringify(analysis));
+			components.push(...fileAnalysis.components);
+			hooks.push(...fileAnalysis.hooks);
+			contexts.push(...fileAnalysis.contexts);
+			hookRuleViolations.push(...fileAnalysis.hookRuleViolations);
+			redux.slices.push(...fileAnalysis.redux.slices);
+			redux.thunks.push(...fileAnalysis.redux.thunks);
+			redux.selectors.push(...fileAnalysis.redux.selectors);
+			zustandStores.push(...fileAnalysis.zustandStores);
+			mobxStores.push(...fileAnalysis.mobxStores);
+			atoms.push(...fileAnalysis.atoms);
+		}
+		updateHookRuleDiagnostics(hookRuleViolations);
+		
+		moduleResolver.clearCache();
+		if (await nxAnalyzer.isNxWorkspace()) {
+			moduleResolver.setProjects(await nxAnalyzer.getProjects());
+		}
+		renderGraph = renderGraphBuilder.build(components);
+		hookGraph = hookGraphBuilder.build(components, hooks);
+		contextGraph = contextGraphBuilder.build(contexts, renderGraph, hookGraph);
+		reduxGraph = reduxGraphBuilder.build(redux, components);
+		zustandGraphBuilder.build(zustandStores, components);
+		mobxGraphBuilder.build(mobxStores, components);
+		queryCache = queryCacheGraphBuilder.build(components, hookGraph);
+		atomGraph = atomGraphBuilder.build(atoms, components, hookGraph);
+		propDrillingDetector.detect(renderGraph);
+		rerenderRisks = rerenderRiskDetector.detect(renderGraph, contextGraph);
+		
+		return components;
+	}
+
+	/**
+	 * Re-analyzes the changed files and pushes the components that changed to every view
+	 */
+	async function applyFileChanges(changes: FileChanges): Promise<void> {
+		const changedFiles = changes.changed.filter(filePath =>
+			fs.existsSync(filePath) && reactAnalyzer.isAnalyzedFile(filePath, analyzedProjectPath));
+		// Deleting a directory is reported for the directory only
+		const deletedFiles = Array.from(fileAnalyses.keys()).filter(filePath =>
+			changes.deleted.some(deleted => filePath === deleted || filePath.startsWith(deleted + path.sep)));
+		if (changedFiles.length === 0 && deletedFiles.length === 0) {
+			return;
+		}
+		
+		workerPool.invalidate();
+		workerPool.addRootFiles(changedFiles);
+		analysisCache.beginRun();
+		await analyzeFiles(changedFiles, undefined, (filePath, analysis, issues) => {
+			fileAnalyses.set(filePath, analysis);
+			if (issues) {
+				effectDiagnostics.setIssues(filePath, issues);
+			}
 		});
+		for (const filePath of deletedFiles) {
+			fileAnalyses.delete(filePath);
+		}
+		if (useAnalysisCache) {
+			analysisCache.removeFiles(deletedFiles);
+			analysisCache.save();
+		}
+		
+		const components = await linkFileAnalyses();
+		const delta = diffComponents(analyzedComponents, components);
+		analyzedComponents = components;
+		
+		componentDetailsProvider.applyDelta(delta);
+		componentServer?.applyDelta(delta);
+		updateAnalysisViews();
+		
+		if (checkEffectDependencies) {
+			effectDiagnostics.removeFiles(deletedFiles);
+		}
+	}
+
+	/**
+	 * Updates the graph, context and store webviews with the last analysis results
+	 */
+	function updateAnalysisViews(): void {
+		updateRenderTree();
+		updateHookGraph();
+		updateAtomGraph();
+		if (contextGraph) {
+			contextMapProvider.updateContexts(Array.from(contextGraph.contexts.values()));
+		}
+		rerenderRisksProvider.updateRisks(rerenderRisks);
+		if (reduxGraph) {
+			reduxStoreProvider.updateStore(Array.from(reduxGraph.slices.values()), Array.from(reduxGraph.thunks.values()));
+		}
+		if (queryCache) {
+			queryCacheProvider.updateCache(Array.from(queryCache.values()));
+		}
+	}
+
+	/**
+	 * Updates the render tree webview with the last render graph
+	 */
+	function updateRenderTree(): void {
+		if (!renderGraph) {
+			return;
+		}
+		
+		const nodes = Array.from(renderGraph.components.entries()).map(([id, component]) => ({
+			id,
+			label: component.displayName || component.name,
+			title: `${component.name}\n${component.filePath}`,
+			type: 'component',
+			path: path.join(workspaceRoot, component.filePath)
+		}));
+		
+		const edges = renderGraph.edges.map(edge => {
+			const parent = renderGraph!.components.get(edge.parent)!;
+			const child = renderGraph!.components.get(edge.child)!;
+			const callSites = edge.callSites
+				.map(site => `${site.line}:${site.column}${site.props.length > 0 ? ` {${site.props.join(', ')}}` : ''}`)
+				.join('\n');
+			return {
+				from: edge.parent,
+				to: edge.child,
+				label: edge.usageCount > 1 ? `×${edge.usageCount}` : undefined,
+				title: `${parent.name} → ${child.name}\n${callSites}`
+			};
+		});
+		
+		renderTreeProvider.updateGraph(nodes, edges);
+	}
+
+	/**
+	 * Updates the hook composition webview with the last hook graph
+	 */
+	function updateHookGraph(): void {
+		if (!hookGraph) {
+			return;
+		}
+		
+		const hookNodes = Array.from(hookGraph.hooks.entries()).map(([id, hook]) => ({
+			id,
+			label: hook.name,
+			title: [
+				`${hook.name}(${hook.params.join(', ')})`,
+				hook.filePath,
+				hook.returnShape ? `Returns: ${hook.returnShape}` : '',
+				hook.states.length > 0 ? `State: ${hook.states.map(state => state.name).join(', ')}` : '',
+				hook.effects.length > 0 ? `Effects: ${hook.effects.length}` : '',
+				hook.contexts.length > 0 ? `Contexts: ${hook.contexts.map(c => c.name).join(', ')}` : '',
+				hook.storeUsage && hook.storeUsage.length > 0 ? `Stores: ${hook.storeUsage.map(store => store.type).join(', ')}` : ''
+			].filter(Boolean).join('\n'),
+			type: 'hook',
+			path: path.join(workspaceRoot, hook.filePath)
+		}));
+		
+		// Only components that call custom hooks are part of the graph
+		const callers = new Set(hookGraph.edges.map(edge => edge.from));
+		const componentNodes = analyzedComponents
+			.filter(component => callers.has(getComponentId(component)))
+			.map(component => ({
+				id: getComponentId(component),
+				label: component.displayName || component.name,
+				title: `${component.name}\n${component.filePath}`,
+				type: 'component',
+				path: path.join(workspaceRoot, component.filePath)
+			}));
+		
+		const edges = hookGraph.edges.map(edge => ({
+			from: edge.from,
+			to: edge.to,
+			label: edge.usageCount > 1 ? `×${edge.usageCount}` : undefined
+		}));
+		
+		hookGraphProvider.updateGraph([...componentNodes, ...hookNodes], edges);
+	}
+
+	/**
+	 * Updates the atom graph webview with the last Recoil and Jotai data flow
+	 */
+	function updateAtomGraph(): void {
+		if (!atomGraph) {
+			return;
+		}
+		
+		const atomNodes = Array.from(atomGraph.atoms.values()).map(node => ({
+			id: node.id,
+			label: node.atom.family ? `${node.atom.name}(…)` : node.atom.name,
+			title: [
+				`${node.atom.name} (${node.atom.library} ${node.atom.kind}${node.atom.family ? ' family' : ''})`,
+				node.atom.filePath,
+				node.atom.key ? `Key: ${node.atom.key}` : ''
+			].filter(Boolean).join('\n'),
+			type: node.atom.kind,
+			path: path.join(workspaceRoot, node.atom.filePath)
+		}));
+		
+		// State flows from atoms into derived selectors and reading components, and back from writers
+		const edgesByKey = new Map<string, { from: string; to: string; type?: string; label?: string }>();
+		const addEdge = (from: string, to: string, type?: string, via?: string) => {
+			const key = `${from}->${to}:${type || 'read'}`;
+			if (!edgesByKey.has(key)) {
+				edgesByKey.set(key, { from, to, type, label: via ? `via ${via}` : undefined });
+			}
+		};
+		for (const node of atomGraph.atoms.values()) {
+			node.dependencies.forEach(dependency => addEdge(dependency, node.id));
+			node.writes.forEach(write => addEdge(node.id, write, 'write'));
+			node.readers.forEach(site => addEdge(node.id, site.componentId, undefined, site.via));
+			node.writers.forEach(site => addEdge(site.componentId, node.id, 'write', site.via));
+		}
+		
+		// Only components that access atoms are part of the graph
+		const edges = Array.from(edgesByKey.values());
+		const accessors = new Set(edges.flatMap(edge => [edge.from, edge.to]));
+		const componentNodes = analyzedComponents
+			.filter(component => accessors.has(getComponentId(component)))
+			.map(component => ({
+				id: getComponentId(component),
+				label: component.displayName || component.name,
+				title: `${component.name}\n${component.filePath}`,
+				type: 'component',
+				path: path.join(workspaceRoot, component.filePath)
+			}));
+		
+		atomGraphProvider.updateGraph([...atomNodes, ...componentNodes], edges);
+	}
+
+	/**
+	 * Builds the hover text of a dependency edge with the imports that created it
+	 */
+	function getDependencyTitle(dependency: DependencyInfo): string {
+		const maxSources = 10;
+		const sources = dependency.sources.slice(0, maxSources).map(source => source.line ? `${source.file}:${source.line}` : source.file);
+		if (dependency.sources.length > maxSources) {
+			sources.push(`...and ${dependency.sources.length - maxSources} more`);
+		}
+		
+		return [`${dependency.sourceProject} → ${dependency.targetProject} (${dependency.type})`, ...sources].join('\n');
+	}
+
+	/**
+	 * Builds the dependency graph nodes of the NX projects
+	 */
+	function getProjectNodes(projects: Map<string, ProjectInfo>) {
+		return Array.from(projects.values()).map(project => ({
+			id: project.name,
+			label: project.name,
+			title: `${project.name}\n${project.root}${project.tags && project.tags.length > 0 ? `\n${project.tags.join(', ')}` : ''}`,
+			type: project.projectType,
+			path: path.join(workspaceRoot, project.root)
+		}));
+	}
+
+	/**
+	 * Publishes module boundary violations as diagnostics on the imports that create them
+	 */
+	function updateBoundaryDiagnostics(violations: BoundaryViolation[], severity: 'error' | 'warn'): void {
+		boundaryDiagnostics.clear();
+		
+		const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+		for (const violation of violations) {
+			for (const source of violation.dependency.sources) {
+				// Sources read from the NX graph cache have no line to report on
+				if (!source.line) {
+					continue;
+				}
+				
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(source.line - 1, 0, source.line - 1, Number.MAX_SAFE_INTEGER),
+					violation.message,
+					severity === 'warn' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+				);
+				diagnostic.source = 'ReactBroX';
+				diagnostic.code = 'enforce-module-boundaries';
+				
+				const fileDiagnostics = diagnosticsByFile.get(source.file) || [];
+				fileDiagnostics.push(diagnostic);
+				diagnosticsByFile.set(source.file, fileDiagnostics);
+			}
+		}
+		
+		for (const [file, diagnostics] of diagnosticsByFile) {
+			boundaryDiagnostics.set(vscode.Uri.file(path.join(workspaceRoot, file)), diagnostics);
+		}
+	}
+
+	/**
+	 * Publishes rules-of-hooks violations as diagnostics on the hook calls
+	 */
+	function updateHookRuleDiagnostics(violations: HookRuleViolation[]): void {
+		hookRuleDiagnostics.clear();
+		
+		const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+		for (const violation of violations) {
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(
+					violation.range.start.line - 1,
+					violation.range.start.column,
+					violation.range.end.line - 1,
+					violation.range.end.column
+				),
+				violation.message,
+				vscode.DiagnosticSeverity.Error
+			);
+			diagnostic.source = 'ReactBroX';
+			diagnostic.code = 'rules-of-hooks';
+			
+			const fileDiagnostics = diagnosticsByFile.get(violation.filePath) || [];
+			fileDiagnostics.push(diagnostic);
+			diagnosticsByFile.set(violation.filePath, fileDiagnostics);
+		}
+		
+		for (const [file, diagnostics] of diagnosticsByFile) {
+			hookRuleDiagnostics.set(vscode.Uri.file(path.join(workspaceRoot, file)), diagnostics);
+		}
 	}
 
 	// Register NX project detection command
@@ -109,29 +697,111 @@ export function activate(context: vscode.ExtensionContext) {
 				
 				// Get project list and dependencies
 				const projects = await nxAnalyzer.getProjects();
-				const dependencies = await nxAnalyzer.getDependencies();
+				const dependencies = await nxAnalyzer.getDependencies(projects);
+				
+				// Warn when the NX project graph cache no longer matches the sources
+				const cacheStatus = await nxAnalyzer.getGraphCacheStatus();
+				if (cacheStatus?.stale) {
+					vscode.window.showWarningMessage(`The NX project graph cache (${cacheStatus.filePath}) is older than the workspace sources. Regenerate it with "nx graph" to see current dependencies.`);
+				}
 				
 				// Create dependency graph nodes and edges
-				const nodes = Array.from(projects.values()).map(project => ({
-					id: project.name,
-					label: project.name,
-					title: `${project.name}<br>${project.root}`,
-					type: project.projectType,
-					path: project.root
+				const nodes = getProjectNodes(projects);
+				
+				// Check the dependencies against the module boundary rules of the ESLint config
+				const boundaryRules = boundaryChecker.loadRules();
+				const violations = boundaryRules ? boundaryChecker.check(projects, dependencies, boundaryRules) : [];
+				updateBoundaryDiagnostics(violations, boundaryRules?.severity || 'error');
+				
+				const edges = dependencies.map(dep => {
+					const violation = violations.find(v => v.dependency === dep);
+					return {
+						from: dep.sourceProject,
+						to: dep.targetProject,
+						type: dep.type,
+						violation: !!violation,
+						title: violation ? `${getDependencyTitle(dep)}\n${violation.message}` : getDependencyTitle(dep)
+					};
+				});
+				
+				// Update dependency graph in webview
+				dependencyGraphProvider.updateDependencyGraph(nodes, edges);
+				
+				if (violations.length > 0) {
+					vscode.window.showWarningMessage(`NX project analysis complete: Found ${projects.size} projects and ${violations.length} module boundary violations.`);
+				} else {
+					vscode.window.showInformationMessage(`NX project analysis complete: Found ${projects.size} projects.`);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Error analyzing NX project: ${error}`);
+			}
+		});
+	});
+
+	// Register affected projects command
+	const showAffectedCmd = vscode.commands.registerCommand('ReactBroX.showAffectedProjects', async () => {
+		if (!await nxAnalyzer.isNxWorkspace()) {
+			vscode.window.showInformationMessage('No NX project detected.');
+			return;
+		}
+		
+		const baseRef = await vscode.window.showInputBox({
+			prompt: 'Base git ref to compare the working tree against',
+			value: nxAnalyzer.getDefaultBase(),
+			ignoreFocusOut: true
+		});
+		
+		if (!baseRef) {
+			return; // Canceled
+		}
+		
+		vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: "Finding Affected Projects...",
+			cancellable: false
+		}, async (progress) => {
+			try {
+				progress.report({ message: `Comparing with ${baseRef}...` });
+				const changedFiles = await affectedAnalyzer.getChangedFiles(baseRef);
+				
+				progress.report({ message: "Analyzing project dependencies..." });
+				const projects = await nxAnalyzer.getProjects();
+				const dependencies = await nxAnalyzer.getDependencies(projects);
+				
+				const result = affectedAnalyzer.getAffectedProjects(baseRef, changedFiles, projects, dependencies);
+				const changedProjects = new Set(result.changedProjects);
+				const affectedProjects = new Set(result.affectedProjects);
+				const affectedComponents = affectedAnalyzer.getAffectedComponents(result, analyzedComponents, projects);
+				
+				// Highlight the affected subgraph
+				const nodes = getProjectNodes(projects).map(node => ({
+					...node,
+					state: changedProjects.has(node.id) ? 'changed' : affectedProjects.has(node.id) ? 'affected' : 'unaffected'
 				}));
 				
 				const edges = dependencies.map(dep => ({
 					from: dep.sourceProject,
 					to: dep.targetProject,
-					title: `${dep.sourceProject} → ${dep.targetProject}`
+					type: dep.type,
+					highlighted: affectedProjects.has(dep.sourceProject) && affectedProjects.has(dep.targetProject),
+					title: getDependencyTitle(dep)
 				}));
 				
-				// Update dependency graph in webview
-				dependencyGraphProvider.updateDependencyGraph(nodes, edges);
+				dependencyGraphProvider.updateDependencyGraph(nodes, edges, {
+					baseRef,
+					projectCount: affectedProjects.size,
+					components: affectedComponents.map(item => ({
+						name: item.component.displayName || item.component.name,
+						filePath: item.component.filePath,
+						path: path.join(workspaceRoot, item.component.filePath),
+						project: item.project,
+						reason: item.reason
+					}))
+				});
 				
-				vscode.window.showInformationMessage(`NX project analysis complete: Found ${projects.size} projects.`);
+				vscode.window.showInformationMessage(`${changedFiles.length} files changed since ${baseRef}: ${affectedProjects.size} projects and ${affectedComponents.length} components affected.`);
 			} catch (error) {
-				vscode.window.showErrorMessage(`Error analyzing NX project: ${error}`);
+				vscode.window.showErrorMessage(`Error finding affected projects: ${error}`);
 			}
 		});
 	});
@@ -165,10 +835,16 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 		
 		// Analyze components
-		analyzedComponents = await analyzeReactComponents(projectPath);
+		await analyzeReactComponents(projectPath);
 		
 		// Update component information in webview
 		componentDetailsProvider.updateContent(analyzedComponents);
+		updateAnalysisViews();
+		
+		// Keep the results current while files are edited
+		if (watchMode) {
+			componentWatcher.start();
+		}
 		
 		// Select result utilization method
 		if (analyzedComponents.length > 0) {
@@ -219,7 +895,8 @@ export function activate(context: vscode.ExtensionContext) {
 			// Define analysis callback function
 			const refreshCallback = async () => {
 				const components = await analyzeReactComponents(projectPath);
-				analyzedComponents = components;
+				componentDetailsProvider.updateContent(components);
+				updateAnalysisViews();
 				return components;
 			};
 			
@@ -362,6 +1039,12 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register Markdown export command
 	const exportMarkdownCmd = vscode.commands.registerCommand('ReactBroX.exportToMarkdown', exportToMarkdown);
 
+	// Register analysis cache clear command
+	const clearCacheCmd = vscode.commands.registerCommand('ReactBroX.clearAnalysisCache', () => {
+		analysisCache.clear();
+		vscode.window.showInformationMessage('ReactBroX analysis cache has been cleared.');
+	});
+
 	// Register Hello World command (template)
 	const helloWorldCmd = vscode.commands.registerCommand('ReactBroX.helloWorld', () => {
 		vscode.window.showInformationMessage('ReactBroX: NX and React Component Analyzer');
@@ -369,12 +1052,14 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Add all commands to context
 	context.subscriptions.push(detectNxCmd);
+	context.subscriptions.push(showAffectedCmd);
 	context.subscriptions.push(analyzeComponentsCmd);
 	context.subscriptions.push(startServerCmd);
 	context.subscriptions.push(stopServerCmd);
 	context.subscriptions.push(exportHtmlCmd);
 	context.subscriptions.push(exportJsonCmd);
 	context.subscriptions.push(exportMarkdownCmd);
+	context.subscriptions.push(clearCacheCmd);
 	context.subscriptions.push(helloWorldCmd);
 
 	// Register deactivation event handler
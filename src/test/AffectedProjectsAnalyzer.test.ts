@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { AffectedProjectsAnalyzer } from '../AffectedProjectsAnalyzer';
+import { DependencyInfo, ProjectInfo } from '../NxProjectAnalyzer';
+import { ComponentInfo } from '../ReactComponentAnalyzer';
+import { createWorkspace, removeWorkspace, writeFiles } from './workspace';
+
+const PROJECTS = new Map<string, ProjectInfo>([
+	['shop', { name: 'shop', root: 'apps/shop', sourceRoot: 'apps/shop/src', projectType: 'application' }],
+	['admin', { name: 'admin', root: 'apps/admin', sourceRoot: 'apps/admin/src', projectType: 'application' }],
+	['cart', { name: 'cart', root: 'libs/cart', sourceRoot: 'libs/cart/src', projectType: 'library' }],
+	['ui', { name: 'ui', root: 'libs/ui', sourceRoot: 'libs/ui/src', projectType: 'library' }]
+]);
+
+// shop → cart → ui, admin → ui
+const DEPENDENCIES: DependencyInfo[] = [
+	{ sourceProject: 'shop', targetProject: 'cart', type: 'static', sources: [] },
+	{ sourceProject: 'cart', targetProject: 'ui', type: 'static', sources: [] },
+	{ sourceProject: 'admin', targetProject: 'ui', type: 'implicit', sources: [] }
+];
+
+/**
+ * Creates a component rendered by the given parents.
+ */
+function component(name: string, filePath: string, parents: ComponentInfo[] = []): ComponentInfo {
+	return {
+		name,
+		filePath,
+		hooks: [],
+		states: [],
+		contexts: [],
+		props: [],
+		parents: parents.map(parent => ({ name: parent.name, filePath: parent.filePath, usageCount: 1 }))
+	};
+}
+
+suite('AffectedProjectsAnalyzer Test Suite', () => {
+	const analyzer = new AffectedProjectsAnalyzer('');
+
+	test('adds the projects depending on changed projects, directly or transitively', () => {
+		const result = analyzer.getAffectedProjects('main', ['libs/cart/src/Cart.tsx'], PROJECTS, DEPENDENCIES);
+
+		assert.deepStrictEqual(result.changedProjects, ['cart']);
+		assert.deepStrictEqual(result.affectedProjects.sort(), ['cart', 'shop']);
+	});
+
+	test('follows implicit dependencies', () => {
+		const result = analyzer.getAffectedProjects('main', ['libs/ui/src/Button.tsx', 'README.md'], PROJECTS, DEPENDENCIES);
+
+		assert.deepStrictEqual(result.changedProjects, ['ui']);
+		assert.deepStrictEqual(result.affectedProjects.sort(), ['admin', 'cart', 'shop', 'ui']);
+	});
+
+	test('lists changed components, the components rendering them and the rest of the affected projects', () => {
+		const app = component('App', 'apps/shop/src/App.tsx');
+		const cartPage = component('CartPage', 'apps/shop/src/CartPage.tsx', [app]);
+		const cart = component('Cart', 'libs/cart/src/Cart.tsx', [cartPage]);
+		const header = component('Header', 'apps/shop/src/Header.tsx', [app]);
+		const button = component('Button', 'libs/ui/src/Button.tsx', [cart]);
+		const dashboard = component('Dashboard', 'apps/admin/src/Dashboard.tsx');
+		const result = analyzer.getAffectedProjects('main', ['libs/cart/src/Cart.tsx'], PROJECTS, DEPENDENCIES);
+
+		const affected = analyzer.getAffectedComponents(result, [app, cartPage, cart, header, button, dashboard], PROJECTS);
+
+		assert.deepStrictEqual(affected.map(info => [info.component.name, info.project, info.reason]), [
+			['Cart', 'cart', 'changed'],
+			['App', 'shop', 'renders-changed'],
+			['CartPage', 'shop', 'renders-changed'],
+			['Header', 'shop', 'in-affected-project']
+		]);
+	});
+
+	test('lists committed, uncommitted and untracked changes since the merge base', async () => {
+		const root = createWorkspace({ 'libs/ui/src/Button.tsx': 'export const Button = 1;\n' });
+		const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: root });
+		try {
+			git('init', '-q', '-b', 'main');
+			git('add', '-A');
+			git('commit', '-q', '-m', 'base');
+			git('checkout', '-q', '-b', 'feature');
+			writeFiles(root, { 'libs/cart/src/Cart.tsx': 'export const Cart = 1;\n' });
+			git('add', '-A');
+			git('commit', '-q', '-m', 'cart');
+			writeFiles(root, { 'libs/ui/src/Button.tsx': 'export const Button = 2;\n', 'apps/shop/src/App.tsx': 'export const App = 1;\n' });
+
+			const changedFiles = await new AffectedProjectsAnalyzer(root).getChangedFiles('main');
+
+			assert.deepStrictEqual(changedFiles, ['apps/shop/src/App.tsx', 'libs/cart/src/Cart.tsx', 'libs/ui/src/Button.tsx']);
+		} finally {
+			removeWorkspace(root);
+		}
+	});
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalysisCache } from '../AnalysisCache';
+import { FileAnalysis } from '../ReactComponentAnalyzer';
+import { createWorkspace, removeWorkspace, writeFiles } from './workspace';
+
+suite('AnalysisCache Test Suite', () => {
+	let root: string;
+	let storageDir: string;
+	let analyzedFiles: string[];
+
+	/**
+	 * Stands in for the analyzer, recording the files it is called for.
+	 */
+	const analyze = async (filePath: string): Promise<FileAnalysis> => {
+		analyzedFiles.push(path.relative(root, filePath));
+		return {
+			components: [{ name: path.basename(filePath, '.tsx'), filePath, hooks: [], states: [], contexts: [], props: [] }],
+			hooks: [],
+			contexts: [],
+			hookRuleViolations: [],
+			redux: { slices: [], thunks: [], selectors: [] },
+			zustandStores: [],
+			mobxStores: [],
+			atoms: []
+		};
+	};
+
+	/**
+	 * Analyzes files through a cache in a new run.
+	 */
+	const run = async (cache: AnalysisCache, ...files: string[]): Promise<FileAnalysis[]> => {
+		cache.beginRun();
+		const analyses: FileAnalysis[] = [];
+		for (const file of files) {
+			analyses.push(await cache.getOrAnalyze(path.join(root, file), analyze));
+		}
+		return analyses;
+	};
+
+	setup(() => {
+		root = createWorkspace({
+			'tsconfig.base.json': JSON.stringify({ compilerOptions: { strict: true } }),
+			'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json', compilerOptions: { jsx: 'react-jsx' } }),
+			'src/Header.tsx': 'export const Header = () => <h1 />;',
+			'src/Footer.tsx': 'export const Footer = () => <footer />;'
+		});
+		storageDir = createWorkspace({});
+		analyzedFiles = [];
+	});
+
+	teardown(() => {
+		removeWorkspace(root);
+		removeWorkspace(storageDir);
+	});
+
+	test('reuses the analysis of unchanged files', async () => {
+		const cache = new AnalysisCache(storageDir, root, '1');
+		await run(cache, 'src/Header.tsx', 'src/Footer.tsx');
+		writeFiles(root, { 'src/Footer.tsx': 'export const Footer = () => <footer>changed</footer>;' });
+		await run(cache, 'src/Header.tsx', 'src/Footer.tsx');
+
+		assert.deepStrictEqual(analyzedFiles, ['src/Header.tsx', 'src/Footer.tsx', 'src/Footer.tsx']);
+		assert.deepStrictEqual(cache.getStats(), { hits: 1, misses: 1 });
+	});
+
+	test('returns copies that callers can change', async () => {
+		const cache = new AnalysisCache(storageDir, root, '1');
+		const [first] = await run(cache, 'src/Header.tsx');
+		first.components[0].name = 'Changed';
+		const [second] = await run(cache, 'src/Header.tsx');
+
+		assert.strictEqual(second.components[0].name, 'Header');
+	});
+
+	test('analyzes files again when an extended tsconfig changes the compiler options', async () => {
+		const cache = new AnalysisCache(storageDir, root, '1');
+		await run(cache, 'src/Header.tsx');
+		writeFiles(root, { 'tsconfig.base.json': JSON.stringify({ compilerOptions: { strict: false } }) });
+		await run(cache, 'src/Header.tsx');
+
+		assert.deepStrictEqual(analyzedFiles, ['src/Header.tsx', 'src/Header.tsx']);
+	});
+
+	test('keeps the saved results for the same analyzer version only', async () => {
+		const cache = new AnalysisCache(storageDir, root, '1');
+		await run(cache, 'src/Header.tsx');
+		cache.save();
+		await cache.flush();
+
+		await run(new AnalysisCache(storageDir, root, '1'), 'src/Header.tsx');
+		await run(new AnalysisCache(storageDir, root, '2'), 'src/Header.tsx');
+
+		assert.deepStrictEqual(analyzedFiles, ['src/Header.tsx', 'src/Header.tsx']);
+	});
+
+	test('drops the entries of deleted files when saving', async () => {
+		const cache = new AnalysisCache(storageDir, root, '1');
+		await run(cache, 'src/Header.tsx', 'src/Footer.tsx');
+		cache.removeFiles([path.join(root, 'src/Header.tsx')]);
+		cache.retainFiles(path.join(root, 'src'), []);
+		cache.save();
+		await cache.flush();
+
+		const cacheFile = path.join(storageDir, 'analysis-cache', fs.readdirSync(path.join(storageDir, 'analysis-cache'))[0]);
+		assert.deepStrictEqual(Object.keys(JSON.parse(fs.readFileSync(cacheFile, 'utf8')).entries), []);
+	});
+
+	test('deletes the cache file when cleared', async () => {
+		const cache = new AnalysisCache(storageDir, root, '1');
+		await run(cache, 'src/Header.tsx');
+		cache.save();
+		await cache.flush();
+		cache.clear();
+		await cache.flush();
+
+		assert.deepStrictEqual(fs.readdirSync(path.join(storageDir, 'analysis-cache')), []);
+	});
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { AnalysisWorkerPool, getWorkerCount } from '../AnalysisWorkerPool';
+import { createWorkspace, removeWorkspace } from './workspace';
+
+// The worker entry is compiled into the directory above the tests
+const WORKER_SCRIPT = path.join(__dirname, '..', 'AnalysisWorker.js');
+
+suite('AnalysisWorkerPool Test Suite', function () {
+	// Workers start and build their TypeScript programs in each test
+	this.timeout(20000);
+
+	let root: string;
+	let pool: AnalysisWorkerPool;
+
+	suiteSetup(() => {
+		root = createWorkspace({
+			'tsconfig.json': JSON.stringify({
+				compilerOptions: { jsx: 'react-jsx', strict: true, baseUrl: '.', paths: { '@shop/types': ['libs/types/index.ts'] } }
+			}),
+			'libs/types/index.ts': `
+				export interface ButtonProps {
+					/** Text of the button */
+					label: string;
+					size?: 'small' | 'large';
+				}
+			`,
+			'src/Button.tsx': `
+				import { ButtonProps } from '@shop/types';
+
+				export function Button({ label }: ButtonProps) {
+					return <button>{label}</button>;
+				}
+			`,
+			'src/Counter.tsx': `
+				import { useState, useEffect } from 'react';
+
+				export function Counter({ step }: { step: number }) {
+					const [count, setCount] = useState(0);
+					useEffect(() => setCount(count + step), []);
+					return <span>{count}</span>;
+				}
+			`
+		});
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	setup(() => {
+		pool = new AnalysisWorkerPool(WORKER_SCRIPT, { workspaceRoot: root, hocNames: [] }, 1);
+	});
+
+	teardown(() => {
+		pool.dispose();
+	});
+
+	test('analyzes files on a worker, resolving prop types through the tsconfig paths', async () => {
+		const analysis = await pool.analyze(path.join(root, 'src/Button.tsx'));
+		const button = analysis.components.find(component => component.name === 'Button');
+
+		assert.deepStrictEqual(button?.props.map(prop => [prop.name, prop.required, prop.description]), [
+			['label', true, 'Text of the button'],
+			['size', false, '']
+		]);
+	});
+
+	test('parses the files of one project on several workers at once and extracts their props on one', async () => {
+		const requests: { type: string; filePath: string; threadId: number }[] = [];
+		const postMessage = Worker.prototype.postMessage;
+		Worker.prototype.postMessage = function (this: Worker, request: any) {
+			if (request.filePath) {
+				requests.push({ type: request.type, filePath: path.basename(request.filePath), threadId: this.threadId });
+			}
+			return postMessage.call(this, request);
+		};
+		const twoWorkers = new AnalysisWorkerPool(WORKER_SCRIPT, { workspaceRoot: root, hocNames: [] }, 2);
+		try {
+			const analyses = Promise.all([
+				twoWorkers.analyze(path.join(root, 'src/Button.tsx')),
+				twoWorkers.analyze(path.join(root, 'src/Counter.tsx'))
+			]);
+
+			// Both files are sent before either result comes back
+			assert.deepStrictEqual(requests.map(request => [request.type, request.filePath]), [['analyze', 'Button.tsx'], ['analyze', 'Counter.tsx']]);
+			assert.notStrictEqual(requests[0].threadId, requests[1].threadId);
+
+			const [button, counter] = await analyses;
+			const propsRequests = requests.filter(request => request.type === 'extractProps');
+
+			assert.deepStrictEqual(propsRequests.map(request => request.filePath).sort(), ['Button.tsx', 'Counter.tsx']);
+			assert.strictEqual(propsRequests[0].threadId, propsRequests[1].threadId);
+			assert.deepStrictEqual(button.components[0].props.map(prop => prop.name), ['label', 'size']);
+			assert.deepStrictEqual(counter.components[0].props.map(prop => prop.name), ['step']);
+		} finally {
+			Worker.prototype.postMessage = postMessage;
+			twoWorkers.dispose();
+		}
+	});
+
+	test('checks effect dependencies on a worker', async () => {
+		const issues = await pool.checkEffects(path.join(root, 'src/Counter.tsx'));
+
+		assert.deepStrictEqual(issues.map(issue => [issue.kind, issue.dependencies]), [['missing', ['count', 'step']]]);
+	});
+
+	test('cancels the jobs of a run only', async () => {
+		const run = pool.createRun();
+		const other = pool.analyze(path.join(root, 'src/Counter.tsx'));
+		const cancelled = [
+			pool.analyze(path.join(root, 'src/Button.tsx'), run),
+			pool.checkEffects(path.join(root, 'src/Counter.tsx'), run)
+		].map(job => job.then(() => 'done', (error: Error) => error.message));
+
+		pool.cancel(run);
+
+		assert.deepStrictEqual(await Promise.all(cancelled), ['Analysis was cancelled', 'Analysis was cancelled']);
+		assert.strictEqual((await other).components[0].name, 'Counter');
+	});
+
+	test('stops a busy worker when its job is cancelled and starts a new one for later jobs', async () => {
+		const run = pool.createRun();
+		const cancelled = pool.analyze(path.join(root, 'src/Button.tsx'), run).then(() => 'done', (error: Error) => error.message);
+
+		pool.cancel(run);
+
+		assert.strictEqual(await cancelled, 'Analysis was cancelled');
+		assert.strictEqual((await pool.analyze(path.join(root, 'src/Button.tsx'))).components[0].name, 'Button');
+	});
+});
+
+suite('getWorkerCount Test Suite', () => {
+	test('uses the configured size', () => {
+		assert.strictEqual(getWorkerCount(3), 3);
+	});
+
+	test('defaults to between one and eight workers', () => {
+		const count = getWorkerCount(0);
+
+		assert.ok(count >= 1 && count <= 8);
+	});
+});
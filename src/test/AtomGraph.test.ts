@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { AtomGraph, AtomGraphBuilder } from '../AtomGraph';
+import { HookCompositionGraphBuilder } from '../HookCompositionGraph';
+import { ModuleResolver } from '../ModuleResolver';
+import { AtomInfo, ComponentInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/state/todos.ts': `
+		import { atom, atomFamily, selector } from 'recoil';
+
+		export const todosState = atom({ key: 'todos', default: [] });
+		export const filterState = atom({ key: 'filter', default: 'all' });
+
+		export const filteredTodos = selector({
+			key: 'filteredTodos',
+			get: ({ get }) => get(todosState).filter(todo => get(filterState) === 'all' || todo.status === get(filterState)),
+			set: ({ set }, value) => set(todosState, value)
+		});
+
+		export const todoFamily = atomFamily({ key: 'todo', default: null });
+	`,
+	'src/state/counter.ts': `
+		import { atom } from 'jotai';
+		import { atomWithStorage, selectAtom } from 'jotai/utils';
+
+		export const countAtom = atom(0);
+		export const doubledAtom = atom(get => get(countAtom) * 2);
+		export const incrementAtom = atom(null, (get, set) => set(countAtom, get(countAtom) + 1));
+		export const isEvenAtom = selectAtom(countAtom, count => count % 2 === 0);
+		export const themeAtom = atomWithStorage('theme', 'light');
+	`,
+	'src/state/index.ts': `
+		export * from './todos';
+		export * from './counter';
+	`,
+	'src/hooks/useDoubled.ts': `
+		import { useAtomValue } from 'jotai';
+		import { doubledAtom } from '../state';
+
+		export function useDoubled() {
+			return useAtomValue(doubledAtom);
+		}
+	`,
+	'src/Todos.tsx': `
+		import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
+		import { filteredTodos, filterState, todoFamily } from './state';
+
+		export function Todos({ id }) {
+			const todos = useRecoilValue(filteredTodos);
+			const setFilter = useSetRecoilState(filterState);
+			const [todo, setTodo] = useRecoilState(todoFamily(id));
+			return <ul onClick={() => setFilter('done')}>{todos.length}</ul>;
+		}
+	`,
+	'src/Counter.tsx': `
+		import { useAtom, useSetAtom } from 'jotai';
+		import { incrementAtom, themeAtom } from './state';
+		import { useDoubled } from './hooks/useDoubled';
+
+		export function Counter() {
+			const doubled = useDoubled();
+			const increment = useSetAtom(incrementAtom);
+			const [theme, setTheme] = useAtom(themeAtom);
+			return <button className={theme} onClick={increment}>{doubled}</button>;
+		}
+	`
+};
+
+suite('AtomGraph Test Suite', () => {
+	let root: string;
+	let atoms: AtomInfo[];
+	let components: ComponentInfo[];
+	let atomGraph: AtomGraph;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, Object.keys(FILES).filter(file => !file.endsWith('index.ts')));
+		const resolver = new ModuleResolver(root);
+		atoms = analyses.flatMap(analysis => analysis.atoms);
+		components = analyses.flatMap(analysis => analysis.components);
+		const hookGraph = new HookCompositionGraphBuilder(root, resolver).build(components, analyses.flatMap(analysis => analysis.hooks));
+		atomGraph = new AtomGraphBuilder(root, resolver).build(atoms, components, hookGraph);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds Recoil and Jotai atoms, selectors and families with their keys', () => {
+		assert.deepStrictEqual(atoms.map(atom => [atom.name, atom.library, atom.kind, atom.family, atom.key]), [
+			['todosState', 'recoil', 'atom', undefined, 'todos'],
+			['filterState', 'recoil', 'atom', undefined, 'filter'],
+			['filteredTodos', 'recoil', 'selector', undefined, 'filteredTodos'],
+			['todoFamily', 'recoil', 'atom', true, 'todo'],
+			['countAtom', 'jotai', 'atom', undefined, undefined],
+			['doubledAtom', 'jotai', 'selector', undefined, undefined],
+			['incrementAtom', 'jotai', 'atom', undefined, undefined],
+			['isEvenAtom', 'jotai', 'selector', undefined, undefined],
+			['themeAtom', 'jotai', 'atom', undefined, 'theme']
+		]);
+	});
+
+	test('links atoms to the atoms they read, derive from and write', () => {
+		const node = (name: string) => atomGraph.atoms.get(`src/state/${name}`)!;
+
+		assert.deepStrictEqual(node('todos.ts#filteredTodos').dependencies, ['src/state/todos.ts#todosState', 'src/state/todos.ts#filterState']);
+		assert.deepStrictEqual(node('todos.ts#filteredTodos').writes, ['src/state/todos.ts#todosState']);
+		assert.deepStrictEqual(node('counter.ts#incrementAtom').writes, ['src/state/counter.ts#countAtom']);
+		assert.deepStrictEqual(node('counter.ts#countAtom').dependents, [
+			'src/state/counter.ts#doubledAtom',
+			'src/state/counter.ts#incrementAtom',
+			'src/state/counter.ts#isEvenAtom'
+		]);
+	});
+
+	test('links the components reading and writing each atom, through barrels, families and custom hooks', () => {
+		const sites = (id: string, access: 'readers' | 'writers') =>
+			atomGraph.atoms.get(id)![access].map(site => [site.componentName, site.hook, site.via]);
+
+		assert.deepStrictEqual(sites('src/state/todos.ts#filteredTodos', 'readers'), [['Todos', 'useRecoilValue', undefined]]);
+		assert.deepStrictEqual(sites('src/state/todos.ts#filterState', 'readers'), []);
+		assert.deepStrictEqual(sites('src/state/todos.ts#filterState', 'writers'), [['Todos', 'useSetRecoilState', undefined]]);
+		assert.deepStrictEqual(sites('src/state/todos.ts#todoFamily', 'writers'), [['Todos', 'useRecoilState', undefined]]);
+		assert.deepStrictEqual(sites('src/state/counter.ts#doubledAtom', 'readers'), [['Counter', 'useAtomValue', 'useDoubled']]);
+		assert.deepStrictEqual(sites('src/state/counter.ts#themeAtom', 'writers'), [['Counter', 'useAtom', undefined]]);
+	});
+
+	test('describes family members as calls in the store usage', () => {
+		const todos = components.find(component => component.name === 'Todos')!;
+
+		assert.deepStrictEqual(todos.storeUsage, [{
+			type: 'recoil',
+			actions: ['filterState', 'todoFamily()'],
+			selectors: ['filteredTodos', 'todoFamily()']
+		}]);
+	});
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { ComponentRenderGraphBuilder, RenderGraph } from '../ComponentRenderGraph';
+import { ModuleResolver } from '../ModuleResolver';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/App.tsx': `
+		import { lazy } from 'react';
+		import { Button, Card } from './ui';
+		import Header from './Header';
+		import { Chart } from 'chart-library';
+
+		const Settings = lazy(() => import('./Settings'));
+
+		function Shell({ children }) {
+			return <main>{children}</main>;
+		}
+
+		export function App() {
+			return (
+				<Shell>
+					<Header title="Shop" />
+					<Card><Button label="Buy" /><Button label="Share" /></Card>
+					<Settings />
+					<Chart />
+				</Shell>
+			);
+		}
+	`,
+	'src/Header.tsx': 'export default function Header({ title }) { return <h1>{title}</h1>; }',
+	'src/Settings.tsx': 'export default function Settings() { return <form />; }',
+	'src/ui/index.ts': `
+		export * from './Button';
+		export { Panel as Card } from './Panel';
+	`,
+	'src/ui/Button.tsx': 'export const Button = ({ label }) => <button>{label}</button>;',
+	'src/ui/Panel.tsx': 'export function Panel({ children }) { return <section>{children}</section>; }'
+};
+
+suite('ComponentRenderGraph Test Suite', () => {
+	let root: string;
+	let renderGraph: RenderGraph;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, Object.keys(FILES).filter(file => file.endsWith('.tsx')));
+		renderGraph = new ComponentRenderGraphBuilder(root, new ModuleResolver(root))
+			.build(analyses.flatMap(analysis => analysis.components));
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('links rendered elements to local, imported, re-exported and lazy components', () => {
+		const children = renderGraph.edges
+			.filter(edge => edge.parent === 'src/App.tsx#App')
+			.map(edge => edge.child)
+			.sort();
+
+		assert.deepStrictEqual(children, [
+			'src/App.tsx#Shell',
+			'src/Header.tsx#Header',
+			'src/Settings.tsx#Settings',
+			'src/ui/Button.tsx#Button',
+			'src/ui/Panel.tsx#Panel'
+		]);
+	});
+
+	test('counts each call site of an edge with the props it passes', () => {
+		const edge = renderGraph.edges.find(candidate => candidate.child === 'src/ui/Button.tsx#Button')!;
+
+		assert.strictEqual(edge.usageCount, 2);
+		assert.deepStrictEqual(edge.callSites.map(site => [site.filePath, site.props]), [
+			['src/App.tsx', ['label']],
+			['src/App.tsx', ['label']]
+		]);
+	});
+
+	test('records the children and parents of each component', () => {
+		const app = renderGraph.components.get('src/App.tsx#App')!;
+		const button = renderGraph.components.get('src/ui/Button.tsx#Button')!;
+
+		assert.deepStrictEqual(app.children?.find(child => child.name === 'Button'), { name: 'Button', filePath: 'src/ui/Button.tsx', usageCount: 2 });
+		assert.deepStrictEqual(button.parents, [{ name: 'App', filePath: 'src/App.tsx', usageCount: 2 }]);
+	});
+
+	test('maps each resolved element to its component and leaves packages out', () => {
+		const app = renderGraph.components.get('src/App.tsx#App')!;
+		const targets = new Map((app.renders || []).map(render => [render.name, renderGraph.targets.get(render)]));
+
+		assert.strictEqual(targets.get('Card'), 'src/ui/Panel.tsx#Panel');
+		assert.strictEqual(targets.get('Chart'), undefined);
+		assert.ok(!renderGraph.edges.some(edge => edge.child.includes('Chart')));
+	});
+});
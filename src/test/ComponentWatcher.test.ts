@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { diffComponents } from '../ComponentWatcher';
+import { ComponentInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace, writeFiles } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/App.tsx': `
+		import { useState } from 'react';
+
+		export function App() {
+			const [open, setOpen] = useState(false);
+			return <Header title="Shop" />;
+		}
+
+		function Header({ title }) {
+			return <h1>{title}</h1>;
+		}
+	`,
+	'src/Footer.tsx': 'export function Footer() { return <footer />; }'
+};
+
+suite('ComponentWatcher Test Suite', () => {
+	let root: string;
+	let previous: ComponentInfo[];
+
+	/**
+	 * Analyzes the workspace files again after writing the given changes.
+	 */
+	async function reanalyze(files: Record<string, string>, relativePaths = Object.keys(FILES)): Promise<ComponentInfo[]> {
+		writeFiles(root, files);
+		const analyses = await analyzeFiles(root, relativePaths);
+		return analyses.flatMap(analysis => analysis.components);
+	}
+
+	setup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, Object.keys(FILES));
+		previous = analyses.flatMap(analysis => analysis.components);
+	});
+
+	teardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('reports nothing when the analysis did not change', async () => {
+		const next = await reanalyze({ 'src/Footer.tsx': FILES['src/Footer.tsx'] });
+
+		assert.deepStrictEqual(diffComponents(previous, next), { updated: [], removed: [] });
+	});
+
+	test('reports only the changed component of a file', async () => {
+		const next = await reanalyze({ 'src/App.tsx': FILES['src/App.tsx'].replace('return <h1>', 'const [hover] = useState(false); return <h1>') });
+		const delta = diffComponents(previous, next);
+
+		assert.deepStrictEqual(delta.updated.map(component => component.name), ['Header']);
+		assert.deepStrictEqual(delta.removed, []);
+	});
+
+	test('reports a renamed component as added and the old one as removed', async () => {
+		const next = await reanalyze({ 'src/App.tsx': FILES['src/App.tsx'].replace(/Header/g, 'Title') });
+		const delta = diffComponents(previous, next);
+
+		assert.deepStrictEqual(delta.updated.map(component => component.name), ['App', 'Title']);
+		assert.deepStrictEqual(delta.removed, ['src/App.tsx#Header']);
+	});
+
+	test('reports every component of a deleted file as removed', async () => {
+		const next = await reanalyze({}, ['src/App.tsx']);
+
+		assert.deepStrictEqual(diffComponents(previous, next), { updated: [], removed: ['src/Footer.tsx#Footer'] });
+	});
+});
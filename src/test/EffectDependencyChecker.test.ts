@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { EffectDependencyChecker, EffectDependencyFix } from '../EffectDependencyChecker';
+
+const SOURCE = `
+import { useState, useEffect, useMemo, useCallback } from 'react';
+
+function Search({ query, limit }) {
+	const [results, setResults] = useState([]);
+	useEffect(() => { fetch(query).then(setResults); }, []);
+	const total = useMemo(() => results.length, [results, limit]);
+	const reset = useCallback(() => setResults([]), [setResults]);
+	useEffect(() => { console.log(limit); });
+	return null;
+}
+`;
+
+/**
+ * Applies fixes to source code, replacing their ranges (1-based lines, 0-based columns).
+ */
+function applyFixes(source: string, fixes: EffectDependencyFix[]): string {
+	const lines = source.split('\n');
+	const toOffset = (line: number, column: number) =>
+		lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0) + column;
+
+	// From the end, so that earlier offsets stay valid
+	return fixes
+		.map(fix => ({ start: toOffset(fix.range.start.line, fix.range.start.column), end: toOffset(fix.range.end.line, fix.range.end.column), text: fix.text }))
+		.sort((a, b) => b.start - a.start)
+		.reduce((result, fix) => result.slice(0, fix.start) + fix.text + result.slice(fix.end), source);
+}
+
+suite('EffectDependencyChecker Test Suite', () => {
+	const checker = new EffectDependencyChecker();
+
+	test('reports missing, unnecessary, stable and absent dependencies', () => {
+		const issues = checker.checkSource(SOURCE);
+
+		assert.deepStrictEqual(issues.map(issue => [issue.kind, issue.hook, issue.dependencies]), [
+			['missing', 'useEffect', ['query']],
+			['unnecessary', 'useMemo', ['limit']],
+			['stable', 'useCallback', ['setResults']],
+			['no-array', 'useEffect', ['limit']]
+		]);
+	});
+
+	test('offers fixes that rewrite the dependency arrays', () => {
+		const fixes = checker.checkSource(SOURCE).map(issue => issue.fix!);
+
+		assert.deepStrictEqual(fixes.map(fix => fix.text), ['[query]', '[results]', '[]', ', [limit]']);
+	});
+
+	test('leaves no issues once the fixes are applied', () => {
+		const fixed = applyFixes(SOURCE, checker.checkSource(SOURCE).map(issue => issue.fix!));
+
+		assert.ok(fixed.includes('fetch(query).then(setResults); }, [query]);'));
+		assert.ok(fixed.includes('useEffect(() => { console.log(limit); }, [limit]);'));
+		assert.deepStrictEqual(checker.checkSource(fixed), []);
+	});
+});
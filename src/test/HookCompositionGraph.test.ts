@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { HookCompositionGraphBuilder, HookGraph, getReachableHooks } from '../HookCompositionGraph';
+import { ModuleResolver } from '../ModuleResolver';
+import { ComponentInfo, CustomHookInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/hooks/useAuth.ts': `
+		import { useContext, useState } from 'react';
+		import { AuthContext } from '../AuthContext';
+
+		export function useAuth() {
+			const auth = useContext(AuthContext);
+			const [token, setToken] = useState(null);
+			return { user: auth.user, token, setToken };
+		}
+	`,
+	'src/hooks/useSession.ts': `
+		import { useState } from 'react';
+		import { useAuth } from './index';
+
+		export function useSession(timeout: number) {
+			const { user } = useAuth();
+			const [expired, setExpired] = useState(false);
+			return [user, expired];
+		}
+	`,
+	'src/hooks/index.ts': `
+		export * from './useAuth';
+		export * from './useSession';
+	`,
+	'src/Profile.tsx': `
+		import { useState } from 'react';
+		import { useSession } from './hooks';
+
+		function useToggle(initial: boolean) {
+			const [on, setOn] = useState(initial);
+			return [on, () => setOn(!on)];
+		}
+
+		export function Profile() {
+			const [user] = useSession(60);
+			const [open, toggle] = useToggle(false);
+			const [details, toggleDetails] = useToggle(true);
+			return <div>{user}</div>;
+		}
+	`
+};
+
+suite('HookCompositionGraph Test Suite', () => {
+	let root: string;
+	let hooks: CustomHookInfo[];
+	let components: ComponentInfo[];
+	let hookGraph: HookGraph;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, ['src/hooks/useAuth.ts', 'src/hooks/useSession.ts', 'src/Profile.tsx']);
+		hooks = analyses.flatMap(analysis => analysis.hooks);
+		components = analyses.flatMap(analysis => analysis.components);
+		hookGraph = new HookCompositionGraphBuilder(root, new ModuleResolver(root)).build(components, hooks);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds custom hooks with their parameters, state and contexts, but not as components', () => {
+		const useAuth = hooks.find(hook => hook.name === 'useAuth')!;
+		const useSession = hooks.find(hook => hook.name === 'useSession')!;
+
+		assert.deepStrictEqual(hooks.map(hook => hook.name).sort(), ['useAuth', 'useSession', 'useToggle']);
+		assert.deepStrictEqual(components.map(component => component.name), ['Profile']);
+		assert.deepStrictEqual(useAuth.states.map(state => state.name), ['token']);
+		assert.deepStrictEqual(useAuth.contexts.map(context => context.name), ['AuthContext']);
+		assert.deepStrictEqual(useSession.params, ['timeout']);
+		assert.deepStrictEqual(useSession.exportNames, ['useSession']);
+	});
+
+	test('links calls to custom hooks, following barrel re-exports, and counts repeated calls', () => {
+		const edges = hookGraph.edges.map(edge => [edge.from, edge.to, edge.usageCount]);
+
+		assert.deepStrictEqual(edges, [
+			['src/hooks/useSession.ts#useSession', 'src/hooks/useAuth.ts#useAuth', 1],
+			['src/Profile.tsx#Profile', 'src/hooks/useSession.ts#useSession', 1],
+			['src/Profile.tsx#Profile', 'src/Profile.tsx#useToggle', 2]
+		]);
+	});
+
+	test('reaches the hooks called through other hooks', () => {
+		const reachable = getReachableHooks(hookGraph, 'src/Profile.tsx#Profile').map(hook => hook.name);
+
+		assert.deepStrictEqual(reachable, ['useSession', 'useToggle', 'useAuth']);
+	});
+
+	test('records the state and contexts a component reaches through custom hooks', () => {
+		const profile = components.find(component => component.name === 'Profile')!;
+
+		assert.deepStrictEqual(profile.hookAccess?.hooks, ['useSession', 'useToggle', 'useAuth']);
+		assert.deepStrictEqual(profile.hookAccess?.states, [
+			{ name: 'expired', hook: 'useSession' },
+			{ name: 'on', hook: 'useToggle' },
+			{ name: 'token', hook: 'useAuth' }
+		]);
+		assert.deepStrictEqual(profile.hookAccess?.contexts, [{ name: 'AuthContext', hook: 'useAuth' }]);
+	});
+});
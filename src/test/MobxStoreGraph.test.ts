@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import { ModuleResolver } from '../ModuleResolver';
+import { MobxStoreGraphBuilder, MobxStoreNode } from '../MobxStoreGraph';
+import { ComponentInfo, MobxStoreInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/stores/CartStore.ts': `
+		import { makeAutoObservable } from 'mobx';
+
+		export class CartStore {
+			items = [];
+
+			constructor() {
+				makeAutoObservable(this);
+			}
+
+			get total() {
+				return this.items.length;
+			}
+
+			add(item) {
+				this.items.push(item);
+			}
+		}
+
+		export const cartStore = new CartStore();
+	`,
+	'src/stores/user.ts': `
+		import { action, computed, makeObservable, observable } from 'mobx';
+
+		class UserStore {
+			name = '';
+			visits = 0;
+
+			constructor() {
+				makeObservable(this, { name: observable, greeting: computed, rename: action.bound });
+			}
+
+			get greeting() {
+				return 'Hello ' + this.name;
+			}
+
+			rename(name) {
+				this.name = name;
+			}
+		}
+
+		export const userStore = new UserStore();
+	`,
+	'src/stores/index.ts': `
+		export * from './CartStore';
+		export * from './user';
+	`,
+	'src/Cart.tsx': `
+		import { observable } from 'mobx';
+		import { observer } from 'mobx-react-lite';
+		import { cartStore, userStore } from './stores';
+		import styles from './Cart.module.css';
+
+		const filters = observable({ query: '', setQuery(query) { this.query = query; } });
+
+		export const Cart = observer(() => (
+			<div className={styles.cart} onClick={() => cartStore.add(filters.query)}>
+				{userStore.greeting} {cartStore.total} {cartStore.items.length}
+			</div>
+		));
+	`
+};
+
+suite('MobxStoreGraph Test Suite', () => {
+	let root: string;
+	let stores: MobxStoreInfo[];
+	let components: ComponentInfo[];
+	let nodes: Map<string, MobxStoreNode>;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, ['src/stores/CartStore.ts', 'src/stores/user.ts', 'src/Cart.tsx']);
+		stores = analyses.flatMap(analysis => analysis.mobxStores);
+		components = analyses.flatMap(analysis => analysis.components);
+		nodes = new MobxStoreGraphBuilder(root, new ModuleResolver(root)).build(stores, components);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds class and object stores with their observables, computeds, actions and instances', () => {
+		assert.deepStrictEqual(stores.map(store => [store.name, store.kind, store.observables, store.computeds, store.actions, store.instances]), [
+			['CartStore', 'class', ['items'], ['total'], ['add'], ['cartStore']],
+			['UserStore', 'class', ['name'], ['greeting'], ['rename'], ['userStore']],
+			['filters', 'object', ['query'], [], ['setQuery'], []]
+		]);
+		assert.deepStrictEqual(stores[0].exportNames, ['CartStore', 'cartStore']);
+		assert.deepStrictEqual(stores[1].exportNames, ['userStore']);
+	});
+
+	test('links the members an observer reads to imported, re-exported and local stores', () => {
+		const consumers = (id: string) => nodes.get(id)!.consumers.map(site => [site.componentName, site.members]);
+
+		assert.deepStrictEqual(consumers('src/stores/CartStore.ts#CartStore'), [['Cart', ['add', 'total', 'items']]]);
+		assert.deepStrictEqual(consumers('src/stores/user.ts#UserStore'), [['Cart', ['greeting']]]);
+		assert.deepStrictEqual(consumers('src/Cart.tsx#filters'), [['Cart', ['query']]]);
+	});
+
+	test('adds the resolved members to the store usage and drops reads of other modules', () => {
+		const cart = components.find(component => component.name === 'Cart')!;
+
+		assert.deepStrictEqual(cart.storeUsage?.find(store => store.type === 'mobx'), {
+			type: 'mobx',
+			actions: ['cartStore.add'],
+			selectors: ['cartStore.total', 'cartStore.items', 'filters.query', 'userStore.greeting']
+		});
+	});
+});
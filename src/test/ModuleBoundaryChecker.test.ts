@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { ModuleBoundaryChecker } from '../ModuleBoundaryChecker';
+import { DependencyInfo, DependencyType, ProjectInfo } from '../NxProjectAnalyzer';
+import { createWorkspace, removeWorkspace } from './workspace';
+
+const PROJECTS = new Map<string, ProjectInfo>([
+	['shop', { name: 'shop', root: 'apps/shop', sourceRoot: 'apps/shop/src', projectType: 'application', tags: ['type:app', 'scope:shop'] }],
+	['feature', { name: 'feature', root: 'libs/feature', sourceRoot: 'libs/feature/src', projectType: 'library', tags: ['type:feature', 'scope:shop'] }],
+	['ui', { name: 'ui', root: 'libs/ui', sourceRoot: 'libs/ui/src', projectType: 'library', tags: ['type:ui', 'scope:shared'] }],
+	['admin', { name: 'admin', root: 'libs/admin', sourceRoot: 'libs/admin/src', projectType: 'library', tags: ['type:feature', 'scope:admin'] }]
+]);
+
+const DEP_CONSTRAINTS = [
+	{ sourceTag: 'type:ui', onlyDependOnLibsWithTags: ['type:ui'] },
+	{ sourceTag: 'scope:shop', notDependOnLibsWithTags: ['scope:admin'] },
+	{ sourceTag: 'type:app', onlyDependOnLibsWithTags: ['type:*'] }
+];
+
+/**
+ * Creates a dependency between two projects.
+ */
+function dependency(sourceProject: string, targetProject: string, type: DependencyType = 'static'): DependencyInfo {
+	return { sourceProject, targetProject, type, sources: [] };
+}
+
+suite('ModuleBoundaryChecker Test Suite', () => {
+	let root: string;
+
+	suiteSetup(() => {
+		root = createWorkspace({
+			'.eslintrc.json': JSON.stringify({
+				overrides: [{
+					files: ['*.ts', '*.tsx'],
+					rules: {
+						'@nx/enforce-module-boundaries': ['error', { depConstraints: DEP_CONSTRAINTS }]
+					}
+				}]
+			})
+		});
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('reads the depConstraints of the rule from the ESLint config', () => {
+		const rules = new ModuleBoundaryChecker(root).loadRules();
+
+		assert.strictEqual(rules?.configFile, '.eslintrc.json');
+		assert.strictEqual(rules?.severity, 'error');
+		assert.deepStrictEqual(rules?.depConstraints, DEP_CONSTRAINTS);
+	});
+
+	test('reads the rule from a flat config', () => {
+		const flatRoot = createWorkspace({
+			'eslint.config.mjs': `
+				import nx from '@nx/eslint-plugin';
+
+				export default [
+					...nx.configs['flat/base'],
+					{
+						rules: {
+							'@nx/enforce-module-boundaries': ['warn', { depConstraints: [{ sourceTag: '*', onlyDependOnLibsWithTags: ['*'] }] }]
+						}
+					}
+				];
+			`
+		});
+		try {
+			const rules = new ModuleBoundaryChecker(flatRoot).loadRules();
+
+			assert.strictEqual(rules?.severity, 'warn');
+			assert.deepStrictEqual(rules?.depConstraints, [{ sourceTag: '*', onlyDependOnLibsWithTags: ['*'] }]);
+		} finally {
+			removeWorkspace(flatRoot);
+		}
+	});
+
+	test('reports dependencies that break onlyDependOnLibsWithTags and notDependOnLibsWithTags', () => {
+		const checker = new ModuleBoundaryChecker(root);
+		const violations = checker.check(PROJECTS, [
+			dependency('shop', 'feature'),
+			dependency('feature', 'ui'),
+			dependency('ui', 'feature'),
+			dependency('feature', 'admin', 'dynamic')
+		], checker.loadRules()!);
+
+		assert.deepStrictEqual(violations.map(violation => [violation.dependency.sourceProject, violation.dependency.targetProject]), [
+			['ui', 'feature'],
+			['feature', 'admin']
+		]);
+		assert.strictEqual(violations[1].message, 'A project tagged with "scope:shop" can not depend on libs tagged with "scope:admin" (feature → admin)');
+	});
+
+	test('ignores implicit dependencies', () => {
+		const checker = new ModuleBoundaryChecker(root);
+
+		assert.deepStrictEqual(checker.check(PROJECTS, [dependency('ui', 'feature', 'implicit')], checker.loadRules()!), []);
+	});
+});
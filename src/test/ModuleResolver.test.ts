@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ModuleResolver } from '../ModuleResolver';
+import { ProjectInfo } from '../NxProjectAnalyzer';
+import { createWorkspace, removeWorkspace } from './workspace';
+
+const PROJECTS = new Map<string, ProjectInfo>([
+	['shop', { name: 'shop', root: 'apps/shop', sourceRoot: 'apps/shop/src', projectType: 'application' }],
+	['ui', { name: 'ui', root: 'libs/ui', sourceRoot: 'libs/ui/src', projectType: 'library' }],
+	['icons', { name: 'icons', root: 'packages/icons', sourceRoot: 'packages/icons/src', projectType: 'library' }]
+]);
+
+suite('ModuleResolver Test Suite', () => {
+	let root: string;
+	let resolver: ModuleResolver;
+
+	suiteSetup(() => {
+		root = createWorkspace({
+			// The aliases come from a preset that the root config extends
+			'tools/tsconfig.preset.json': JSON.stringify({
+				compilerOptions: { baseUrl: '..', paths: { '@shop/ui': ['libs/ui/src/index.ts'], '@shop/ui/*': ['libs/ui/src/lib/*'], '@shop/*': ['libs/*/src/index.ts'] } }
+			}),
+			'tsconfig.base.json': JSON.stringify({ extends: './tools/tsconfig.preset.json', compilerOptions: { strict: true } }),
+			'apps/shop/src/App.tsx': 'export const App = () => null;',
+			'libs/ui/src/index.ts': `
+				export * from './lib/Button';
+				export { Card as Panel } from './lib/Card';
+				import Dialog from './lib/Dialog';
+				export { Dialog };
+			`,
+			'libs/ui/src/lib/Button.tsx': 'export const Button = () => null;',
+			'libs/ui/src/lib/Card.tsx': 'export function Card() { return null; }',
+			'libs/ui/src/lib/Dialog.tsx': 'export default function Dialog() { return null; }',
+			'packages/icons/package.json': JSON.stringify({
+				name: '@shop/icons',
+				exports: {
+					'.': { types: './src/index.ts', default: './dist/index.js' },
+					'./outline/*': { import: './src/outline/*.tsx' }
+				}
+			}),
+			'packages/icons/src/index.ts': 'export const Star = () => null;',
+			'packages/icons/src/outline/Heart.tsx': 'export const Heart = () => null;'
+		});
+		resolver = new ModuleResolver(root);
+		resolver.setProjects(PROJECTS);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	/**
+	 * Resolves a specifier imported by the shop app, returning the workspace-relative file and its project.
+	 */
+	const resolve = (specifier: string) => {
+		const resolved = resolver.resolve(specifier, path.join(root, 'apps/shop/src/App.tsx'));
+		return resolved && [path.relative(root, resolved.filePath), resolved.project];
+	};
+
+	test('resolves tsconfig path aliases declared in an extended config', () => {
+		assert.deepStrictEqual(resolve('@shop/ui'), ['libs/ui/src/index.ts', 'ui']);
+	});
+
+	test('prefers the alias with the longest prefix', () => {
+		assert.deepStrictEqual(resolve('@shop/ui/Card'), ['libs/ui/src/lib/Card.tsx', 'ui']);
+	});
+
+	test('resolves relative imports to files and index files', () => {
+		const fromFile = path.join(root, 'libs/ui/src/lib/Card.tsx');
+
+		assert.strictEqual(resolver.resolve('./Button', fromFile)?.filePath, path.join(root, 'libs/ui/src/lib/Button.tsx'));
+		assert.strictEqual(resolver.resolve('..', fromFile)?.filePath, path.join(root, 'libs/ui/src/index.ts'));
+	});
+
+	test('resolves workspace packages through the conditions and subpath patterns of package.json exports', () => {
+		assert.deepStrictEqual(resolve('@shop/icons'), ['packages/icons/src/index.ts', 'icons']);
+		assert.deepStrictEqual(resolve('@shop/icons/outline/Heart'), ['packages/icons/src/outline/Heart.tsx', 'icons']);
+	});
+
+	test('leaves external packages unresolved', () => {
+		assert.strictEqual(resolve('react'), null);
+	});
+
+	test('follows barrel re-exports to the file declaring an export', () => {
+		const barrel = path.join(root, 'libs/ui/src/index.ts');
+		const resolveExport = (exportName: string) => {
+			const resolved = resolver.resolveExport(barrel, exportName);
+			return resolved && [path.relative(root, resolved.filePath), resolved.exportName];
+		};
+
+		assert.deepStrictEqual(resolveExport('Button'), ['libs/ui/src/lib/Button.tsx', 'Button']);
+		assert.deepStrictEqual(resolveExport('Panel'), ['libs/ui/src/lib/Card.tsx', 'Card']);
+		assert.deepStrictEqual(resolveExport('Dialog'), ['libs/ui/src/lib/Dialog.tsx', 'default']);
+		assert.strictEqual(resolveExport('Missing'), null);
+	});
+});
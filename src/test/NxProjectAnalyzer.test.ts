@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { NxProjectAnalyzer } from '../NxProjectAnalyzer';
+import { createWorkspace, removeWorkspace } from './workspace';
+
+suite('NxProjectAnalyzer Test Suite', () => {
+	let root: string;
+
+	suiteSetup(() => {
+		root = createWorkspace({
+			'nx.json': JSON.stringify({ workspaceLayout: { appsDir: 'apps', libsDir: 'libs' } }),
+			'package.json': JSON.stringify({ name: 'shop-workspace', nx: {} }),
+			'.gitignore': 'dist/\n',
+			'apps/shop/project.json': JSON.stringify({
+				name: 'shop',
+				sourceRoot: 'apps/shop/src',
+				projectType: 'application',
+				tags: ['scope:shop'],
+				targets: { build: { executor: '@nx/vite:build' } },
+				implicitDependencies: ['@shop/ui']
+			}),
+			'apps/shop/package.json': JSON.stringify({ name: '@shop/app', scripts: { start: 'vite' } }),
+			'libs/ui/package.json': JSON.stringify({
+				name: '@shop/ui',
+				scripts: { lint: 'eslint .' },
+				nx: { tags: ['scope:shared'], targets: { test: { executor: '@nx/jest:jest' } } }
+			}),
+			'libs/ui/src/index.ts': 'export {};',
+			// A plain package without an "nx" field is not a project
+			'libs/utils/package.json': JSON.stringify({ name: '@shop/utils' }),
+			'dist/apps/shop/project.json': JSON.stringify({ name: 'shop-dist' }),
+			'libs/.gitignore': 'legacy/\n',
+			'libs/legacy/project.json': JSON.stringify({ name: 'legacy' }),
+			'tools/.nxignore': '/generators\n',
+			'tools/generators/project.json': JSON.stringify({ name: 'generators' }),
+			'tools/scripts/generators/project.json': JSON.stringify({ name: 'scripts' })
+		});
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds the projects of project.json files and of package.json files with an "nx" field', async () => {
+		const projects = await new NxProjectAnalyzer(root).getProjects();
+
+		assert.deepStrictEqual(Array.from(projects.keys()).sort(), ['@shop/ui', 'scripts', 'shop']);
+	});
+
+	test('reads the configuration of project.json, adding package.json scripts as targets', async () => {
+		const shop = (await new NxProjectAnalyzer(root).getProjects()).get('shop');
+
+		assert.deepStrictEqual(shop, {
+			name: 'shop',
+			root: 'apps/shop',
+			sourceRoot: 'apps/shop/src',
+			projectType: 'application',
+			tags: ['scope:shop'],
+			targets: [{ name: 'start', executor: 'nx:run-script' }, { name: 'build', executor: '@nx/vite:build' }],
+			implicitDependencies: ['@shop/ui']
+		});
+	});
+
+	test('names package.json projects after the package and infers their type from the workspace layout', async () => {
+		const ui = (await new NxProjectAnalyzer(root).getProjects()).get('@shop/ui');
+
+		assert.strictEqual(ui?.root, 'libs/ui');
+		assert.strictEqual(ui?.sourceRoot, 'libs/ui/src');
+		assert.strictEqual(ui?.projectType, 'library');
+		assert.deepStrictEqual(ui?.tags, ['scope:shared']);
+		assert.deepStrictEqual(ui?.targets?.map(target => target.name), ['lint', 'test']);
+	});
+
+	test('skips directories excluded by root and nested ignore files', async () => {
+		const roots = Array.from((await new NxProjectAnalyzer(root).getProjects()).values()).map(project => project.root);
+
+		assert.ok(!roots.includes('dist/apps/shop'));
+		assert.ok(!roots.includes('libs/legacy'));
+		assert.ok(!roots.includes('tools/generators'));
+		// Patterns with a slash are anchored to the directory of their ignore file
+		assert.ok(roots.includes('tools/scripts/generators'));
+	});
+});
@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NxProjectAnalyzer } from '../NxProjectAnalyzer';
+import { ProjectGraphLoader } from '../ProjectGraphLoader';
+import { createWorkspace, removeWorkspace, writeFiles } from './workspace';
+
+const NODES = {
+	shop: { type: 'app', data: { root: 'apps/shop', sourceRoot: 'apps/shop/src', tags: ['scope:shop'], targets: { build: { executor: '@nx/vite:build' } } } },
+	ui: { type: 'lib', data: { root: 'libs/ui', tags: ['scope:shared'], implicitDependencies: ['theme'] } },
+	theme: { type: 'lib', data: { root: 'libs/theme', projectType: 'library' } }
+};
+
+const DEPENDENCIES = {
+	shop: [
+		{ source: 'shop', target: 'ui', type: 'static' },
+		{ source: 'shop', target: 'npm:react', type: 'static' },
+		{ source: 'shop', target: 'theme', type: 'dynamic' }
+	],
+	ui: [{ source: 'ui', target: 'theme', type: 'implicit' }],
+	theme: []
+};
+
+/**
+ * Sets the modification time of a workspace file.
+ */
+function touch(root: string, relativePath: string, time: Date): void {
+	fs.utimesSync(path.join(root, relativePath), time, time);
+}
+
+suite('ProjectGraphLoader Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = createWorkspace({});
+	});
+
+	teardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('loads projects and dependencies from the output of nx graph, with the files embedded in the nodes', () => {
+		const nodes = {
+			...NODES,
+			shop: { ...NODES.shop, data: { ...NODES.shop.data, files: [{ file: 'apps/shop/src/App.tsx', deps: ['ui', ['theme', 'dynamic'], 'npm:react'] }] } }
+		};
+		writeFiles(root, { 'graph.json': JSON.stringify({ graph: { nodes, dependencies: DEPENDENCIES } }) });
+
+		const graph = new ProjectGraphLoader(root, 'graph.json').load();
+
+		assert.strictEqual(graph?.filePath, path.join(root, 'graph.json'));
+		assert.deepStrictEqual(graph?.projects.get('shop'), {
+			name: 'shop',
+			root: 'apps/shop',
+			sourceRoot: 'apps/shop/src',
+			projectType: 'application',
+			tags: ['scope:shop'],
+			targets: [{ name: 'build', executor: '@nx/vite:build' }],
+			implicitDependencies: undefined
+		});
+		assert.deepStrictEqual(graph?.projects.get('ui'), {
+			name: 'ui',
+			root: 'libs/ui',
+			sourceRoot: 'libs/ui',
+			projectType: 'library',
+			tags: ['scope:shared'],
+			targets: [],
+			implicitDependencies: ['theme']
+		});
+		assert.deepStrictEqual(graph?.dependencies, [
+			{ sourceProject: 'shop', targetProject: 'ui', type: 'static', sources: [{ file: 'apps/shop/src/App.tsx' }] },
+			{ sourceProject: 'shop', targetProject: 'theme', type: 'dynamic', sources: [{ file: 'apps/shop/src/App.tsx' }] },
+			{ sourceProject: 'ui', targetProject: 'theme', type: 'implicit', sources: [] }
+		]);
+	});
+
+	test('loads the workspace cache, with the files of each dependency from file-map.json', () => {
+		writeFiles(root, {
+			'.nx/workspace-data/project-graph.json': JSON.stringify({ nodes: NODES, dependencies: DEPENDENCIES }),
+			'.nx/workspace-data/file-map.json': JSON.stringify({
+				fileMap: {
+					projectFileMap: {
+						shop: [
+							{ file: 'apps/shop/src/App.tsx', deps: ['ui'] },
+							{ file: 'apps/shop/src/routes.tsx', deps: [['shop', 'theme', 'dynamic'], ['ui', 'static']] }
+						]
+					}
+				}
+			})
+		});
+
+		const graph = new ProjectGraphLoader(root).load();
+
+		assert.strictEqual(graph?.filePath, path.join(root, '.nx/workspace-data/project-graph.json'));
+		assert.deepStrictEqual(Array.from(graph!.projects.keys()), ['shop', 'ui', 'theme']);
+		assert.deepStrictEqual(graph?.dependencies.map(dependency => [dependency.targetProject, dependency.sources.map(source => source.file)]), [
+			['ui', ['apps/shop/src/App.tsx', 'apps/shop/src/routes.tsx']],
+			['theme', ['apps/shop/src/routes.tsx']],
+			['theme', []]
+		]);
+	});
+
+	test('returns null without a graph file or for an unrecognized format', () => {
+		assert.strictEqual(new ProjectGraphLoader(root).load(), null);
+
+		writeFiles(root, { 'graph.json': JSON.stringify({ projects: [] }) });
+
+		assert.strictEqual(new ProjectGraphLoader(root, 'graph.json').load(), null);
+	});
+
+	test('loads the graph again once the file changes', () => {
+		writeFiles(root, { 'graph.json': JSON.stringify({ graph: { nodes: NODES, dependencies: DEPENDENCIES } }) });
+		touch(root, 'graph.json', new Date(2020, 0, 1));
+		const loader = new ProjectGraphLoader(root, 'graph.json');
+		const first = loader.load();
+
+		assert.strictEqual(loader.load(), first);
+
+		writeFiles(root, { 'graph.json': JSON.stringify({ graph: { nodes: { theme: NODES.theme }, dependencies: { theme: [] } } }) });
+
+		assert.deepStrictEqual(Array.from(loader.load()!.projects.keys()), ['theme']);
+	});
+});
+
+suite('Project graph cache status Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = createWorkspace({
+			'.nx/workspace-data/project-graph.json': JSON.stringify({ nodes: NODES, dependencies: DEPENDENCIES }),
+			'apps/shop/project.json': JSON.stringify({ name: 'shop' }),
+			'apps/shop/src/App.tsx': 'export const App = () => null;',
+			'libs/ui/Button.tsx': 'export const Button = () => null;'
+		});
+		for (const file of ['apps/shop/project.json', 'apps/shop/src/App.tsx', 'libs/ui/Button.tsx']) {
+			touch(root, file, new Date(2020, 0, 1));
+		}
+	});
+
+	teardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('uses the cached projects when the cache is preferred', async () => {
+		const analyzer = new NxProjectAnalyzer(root, { preferGraphCache: true });
+
+		assert.deepStrictEqual(Array.from((await analyzer.getProjects()).keys()), ['shop', 'ui', 'theme']);
+		assert.strictEqual((await analyzer.getDependencies()).length, 3);
+	});
+
+	test('reports a cache newer than the project sources as fresh', async () => {
+		const status = await new NxProjectAnalyzer(root, { preferGraphCache: true }).getGraphCacheStatus();
+
+		assert.deepStrictEqual(status, { filePath: path.join(root, '.nx/workspace-data/project-graph.json'), stale: false });
+	});
+
+	test('reports the cache as stale once a source file or project configuration changes', async () => {
+		const analyzer = new NxProjectAnalyzer(root, { preferGraphCache: true });
+		touch(root, '.nx/workspace-data/project-graph.json', new Date(2021, 0, 1));
+		touch(root, 'libs/ui/Button.tsx', new Date(2022, 0, 1));
+
+		assert.strictEqual((await analyzer.getGraphCacheStatus())?.stale, true);
+
+		touch(root, 'libs/ui/Button.tsx', new Date(2020, 0, 1));
+		touch(root, 'apps/shop/project.json', new Date(2022, 0, 1));
+
+		assert.strictEqual((await analyzer.getGraphCacheStatus())?.stale, true);
+	});
+
+	test('has no status when the cache is not preferred', async () => {
+		assert.strictEqual(await new NxProjectAnalyzer(root).getGraphCacheStatus(), null);
+	});
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ProjectProgramProvider } from '../ProjectProgramProvider';
+import { ComponentInfo, ReactComponentAnalyzer } from '../ReactComponentAnalyzer';
+import { createWorkspace, removeWorkspace, writeFiles } from './workspace';
+
+const FILES: Record<string, string> = {
+	// A solution-style root config whose sources belong to the referenced app config
+	'tsconfig.json': JSON.stringify({ files: [], references: [{ path: './tsconfig.app.json' }] }),
+	'tsconfig.app.json': JSON.stringify({
+		compilerOptions: { jsx: 'react-jsx', strict: true, baseUrl: '.', paths: { '@ui/*': ['src/ui/*'] } },
+		include: ['src']
+	}),
+	'src/ui/types.ts': `
+		export type Size = 'small' | 'large';
+	`,
+	'src/ui/Controls.tsx': `
+		import { Size } from '@ui/types';
+
+		export interface ButtonProps {
+			/** Text shown on the button */
+			label: string;
+			size?: Size;
+		}
+
+		/** A clickable button */
+		export function Button({ label, size = 'small' }: ButtonProps) {
+			return <button className={size}>{label}</button>;
+		}
+
+		export const Badge = ({ count }: { count: number }) => <span>{count}</span>;
+
+		function Icon({ name }: { name: string }) {
+			return <i className={name} />;
+		}
+
+		export { Icon as Glyph };
+
+		export default function Toolbar({ items }: { items: string[] }) {
+			return <nav>{items.map(item => <Button key={item} label={item} />)}</nav>;
+		}
+	`
+};
+
+suite('ProjectProgramProvider Test Suite', function () {
+	// Each test builds a TypeScript program
+	this.timeout(20000);
+
+	let root: string;
+	let provider: ProjectProgramProvider;
+
+	/**
+	 * Analyzes a workspace file with props extracted through the provider.
+	 */
+	async function analyzeComponents(relativePath: string): Promise<ComponentInfo[]> {
+		const analyzer = new ReactComponentAnalyzer(root, { programProvider: provider });
+		return (await analyzer.analyzeFile(path.join(root, relativePath))).components;
+	}
+
+	setup(() => {
+		root = createWorkspace(FILES);
+		provider = new ProjectProgramProvider(root);
+	});
+
+	teardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('maps the docs of a file exporting several components to each component', async () => {
+		const components = await analyzeComponents('src/ui/Controls.tsx');
+		const props = Object.fromEntries(components.map(component => [component.name, component.props.map(prop => prop.name)]));
+
+		assert.deepStrictEqual(props, {
+			Button: ['label', 'size'],
+			Badge: ['count'],
+			Icon: ['name'],
+			Toolbar: ['items']
+		});
+	});
+
+	test('keeps the types, defaults and descriptions of each prop', async () => {
+		const button = (await analyzeComponents('src/ui/Controls.tsx')).find(component => component.name === 'Button')!;
+
+		assert.strictEqual(button.description, 'A clickable button');
+		assert.deepStrictEqual(button.props.map(prop => [prop.name, prop.required, prop.defaultValue, prop.description]), [
+			['label', true, undefined, 'Text shown on the button'],
+			['size', false, 'small', '']
+		]);
+	});
+
+	test('builds the program from the config a solution-style tsconfig references, with its options and path aliases', () => {
+		const doc = provider.parseComponentDocs(path.join(root, 'src/ui/Controls.tsx'))
+			.find(candidate => candidate.displayName === 'Button')!;
+
+		// An unresolved alias would be typed any, and strict mode adds undefined to optional props
+		assert.strictEqual(doc.props.size.type.name, 'Size | undefined');
+	});
+
+	test('reads changed files again after invalidate', async () => {
+		await analyzeComponents('src/ui/Controls.tsx');
+		writeFiles(root, { 'src/ui/Controls.tsx': FILES['src/ui/Controls.tsx'].replace('size?: Size;', 'size?: Size;\n\t\t\tdisabled?: boolean;') });
+		provider.invalidate();
+		const button = (await analyzeComponents('src/ui/Controls.tsx')).find(component => component.name === 'Button')!;
+
+		assert.deepStrictEqual(button.props.map(prop => prop.name), ['label', 'size', 'disabled']);
+	});
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { ComponentRenderGraphBuilder, RenderGraph } from '../ComponentRenderGraph';
+import { ModuleResolver } from '../ModuleResolver';
+import { PropDrillingDetector } from '../PropDrillingDetector';
+import { PropDrillingInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	// App → Page → Layout → Sidebar → Avatar, renamed to "account" on the way
+	'src/App.tsx': `
+		import { Page } from './Page';
+		export function App() {
+			const user = { name: 'Ada' };
+			return <Page user={user} />;
+		}
+	`,
+	'src/Page.tsx': `
+		import { Layout } from './Layout';
+		export function Page({ user }) {
+			return <Layout user={user} />;
+		}
+	`,
+	'src/Layout.tsx': `
+		import { Sidebar } from './Sidebar';
+		export function Layout({ user }) {
+			return <Sidebar account={user} />;
+		}
+	`,
+	'src/Sidebar.tsx': `
+		import { Avatar } from './Avatar';
+		export function Sidebar({ account }) {
+			return <Avatar account={account} />;
+		}
+	`,
+	'src/Avatar.tsx': `
+		export function Avatar({ account }) {
+			return <img alt={account.name} />;
+		}
+	`,
+	// Settings → Panel, which reads the theme, → Toolbar → Button
+	'src/Settings.tsx': `
+		export function Settings() {
+			return <Panel theme="dark" />;
+		}
+
+		function Panel({ theme }) {
+			return <section className={theme}><Toolbar theme={theme} /></section>;
+		}
+
+		function Toolbar({ theme }) {
+			return <Button theme={theme} />;
+		}
+
+		function Button({ theme }) {
+			return <button className={theme} />;
+		}
+	`,
+	// Shell → Frame → Nav → a component from outside the workspace
+	'src/Shell.tsx': `
+		import { Menu } from '@acme/menu';
+
+		export function Shell() {
+			return <Frame user={{ name: 'Ada' }} />;
+		}
+
+		function Frame({ user }) {
+			return <Nav user={user} />;
+		}
+
+		function Nav({ user }) {
+			return <Menu user={user} />;
+		}
+	`
+};
+
+/**
+ * Describes the steps of a chain as Component.prop.
+ */
+function describeChain(chain: PropDrillingInfo): string[] {
+	return chain.chain.map(step => `${step.componentName}.${step.prop}`);
+}
+
+suite('PropDrillingDetector Test Suite', () => {
+	let root: string;
+	let renderGraph: RenderGraph;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, Object.keys(FILES));
+		renderGraph = new ComponentRenderGraphBuilder(root, new ModuleResolver(root))
+			.build(analyses.flatMap(analysis => analysis.components));
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('follows a prop forwarded through three components to the one reading it', () => {
+		const chains = new PropDrillingDetector(2).detect(renderGraph);
+		const chain = chains.find(candidate => candidate.chain[0].componentName === 'App')!;
+
+		assert.deepStrictEqual(describeChain(chain), ['App.user', 'Page.user', 'Layout.user', 'Sidebar.account', 'Avatar.account']);
+		assert.strictEqual(chain.forwardingCount, 3);
+		assert.strictEqual(chain.suggestion, 'Provide "user" through a context from App and read it in Avatar with useContext.');
+	});
+
+	test('records each chain on the components along it', () => {
+		new PropDrillingDetector(2).detect(renderGraph);
+		const layout = Array.from(renderGraph.components.values()).find(component => component.name === 'Layout')!;
+
+		assert.deepStrictEqual(layout.propDrilling?.map(describeChain), [['App.user', 'Page.user', 'Layout.user', 'Sidebar.account', 'Avatar.account']]);
+	});
+
+	test('ends a chain at a component that reads the prop and starts a new one there', () => {
+		const chains = new PropDrillingDetector(1).detect(renderGraph)
+			.filter(chain => chain.chain[0].filePath === 'src/Settings.tsx');
+
+		assert.deepStrictEqual(chains.map(chain => [describeChain(chain), chain.forwardingCount]), [
+			[['Panel.theme', 'Toolbar.theme', 'Button.theme'], 1]
+		]);
+	});
+
+	test('counts the last component in the workspace as forwarding when it passes the prop outside', () => {
+		const chain = new PropDrillingDetector(2).detect(renderGraph).find(candidate => candidate.chain[0].componentName === 'Shell')!;
+
+		assert.deepStrictEqual(describeChain(chain), ['Shell.user', 'Frame.user', 'Nav.user']);
+		assert.strictEqual(chain.forwardingCount, 2);
+	});
+
+	test('skips chains shorter than the minimum depth', () => {
+		const chains = new PropDrillingDetector(4).detect(renderGraph);
+
+		assert.deepStrictEqual(chains, []);
+	});
+});
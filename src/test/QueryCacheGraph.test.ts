@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { HookCompositionGraphBuilder } from '../HookCompositionGraph';
+import { ModuleResolver } from '../ModuleResolver';
+import { QueryCacheGraphBuilder, QueryCacheNode } from '../QueryCacheGraph';
+import { ComponentInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/hooks/useTodos.ts': `
+		import { useQuery } from '@tanstack/react-query';
+
+		export function useTodos(status: string) {
+			return useQuery({ queryKey: ['todos', status], queryFn: () => fetchTodos(status) });
+		}
+	`,
+	'src/Todos.tsx': `
+		import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+		import { useTodos } from './hooks/useTodos';
+
+		export function Todos() {
+			const { data } = useTodos('open');
+			const { data: count } = useQuery({ queryKey: ['todos', 'count'], queryFn: fetchCount });
+			const queryClient = useQueryClient();
+			const add = useMutation({
+				mutationKey: ['addTodo'],
+				mutationFn: addTodo,
+				onSuccess: () => queryClient.invalidateQueries({ queryKey: ['todos'] })
+			});
+			return <button onClick={() => add.mutate()}>{count}</button>;
+		}
+	`,
+	'src/Profile.tsx': `
+		import useSWR, { useSWRConfig } from 'swr';
+
+		export function Profile({ id }) {
+			const { data } = useSWR('/api/user');
+			const { data: posts } = useSWR(\`/api/users/\${id}/posts\`);
+			const { mutate } = useSWRConfig();
+			return <button onClick={() => mutate('/api/user')}>{data.name}</button>;
+		}
+	`
+};
+
+suite('QueryCacheGraph Test Suite', () => {
+	let root: string;
+	let components: ComponentInfo[];
+	let nodes: Map<string, QueryCacheNode>;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, Object.keys(FILES));
+		components = analyses.flatMap(analysis => analysis.components);
+		const hookGraph = new HookCompositionGraphBuilder(root, new ModuleResolver(root))
+			.build(components, analyses.flatMap(analysis => analysis.hooks));
+		nodes = new QueryCacheGraphBuilder().build(components, hookGraph);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('records the keys of queries, mutations and invalidations with their segments', () => {
+		const profile = components.find(component => component.name === 'Profile')!;
+
+		assert.deepStrictEqual(profile.queryKeys?.map(queryKey => [queryKey.hook, queryKey.kind, queryKey.key, queryKey.segments]), [
+			['useSWR', 'query', '"/api/user"', ['"/api/user"']],
+			['useSWR', 'query', '`/api/users/${id}/posts`', ['`/api/users/${id}/posts`']],
+			['mutate', 'invalidation', '"/api/user"', ['"/api/user"']]
+		]);
+	});
+
+	test('adds the keys a component uses through custom hooks', () => {
+		const todos = components.find(component => component.name === 'Todos')!;
+
+		assert.deepStrictEqual(todos.queryKeys?.map(queryKey => [queryKey.hook, queryKey.key, queryKey.via]), [
+			['useQuery', '["todos", "count"]', undefined],
+			['useMutation', '["addTodo"]', undefined],
+			['invalidateQueries', '["todos"]', undefined],
+			['useQuery', '["todos", status]', 'useTodos']
+		]);
+	});
+
+	test('groups cache accesses by library and key', () => {
+		assert.deepStrictEqual(Array.from(nodes.keys()).sort(), [
+			'react-query:["addTodo"]',
+			'react-query:["todos", "count"]',
+			'react-query:["todos", status]',
+			'swr:"/api/user"',
+			'swr:`/api/users/${id}/posts`'
+		]);
+		assert.deepStrictEqual(nodes.get('react-query:["todos", status]')!.queries.map(site => [site.componentName, site.via]), [['Todos', 'useTodos']]);
+		assert.deepStrictEqual(nodes.get('react-query:["addTodo"]')!.mutations.map(site => site.componentName), ['Todos']);
+	});
+
+	test('matches TanStack Query invalidations by key prefix and SWR invalidations by exact key', () => {
+		const invalidated = Array.from(nodes.values())
+			.filter(node => node.invalidations.length > 0)
+			.map(node => [node.id, node.invalidations.map(site => site.key)]);
+
+		assert.deepStrictEqual(invalidated, [
+			['react-query:["todos", "count"]', ['["todos"]']],
+			['react-query:["todos", status]', ['["todos"]']],
+			['swr:"/api/user"', ['"/api/user"']]
+		]);
+	});
+});
@@ -0,0 +1,214 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ReactComponentAnalyzer } from '../ReactComponentAnalyzer';
+import { createWorkspace, removeWorkspace } from './workspace';
+
+suite('ReactComponentAnalyzer Test Suite', () => {
+	let root: string;
+	let analyzer: ReactComponentAnalyzer;
+
+	suiteSetup(() => {
+		root = createWorkspace({
+			'src/Layout.tsx': `
+				import React, { useState, useEffect, useContext, useRef } from 'react';
+				import { ThemeContext, UserContext } from './contexts';
+
+				export function Header() {
+					const [title, setTitle] = useState('Title');
+					const theme = useContext(ThemeContext);
+					return <h1 className={theme}>{title}</h1>;
+				}
+
+				export const Footer = () => {
+					const ref = useRef(null);
+					useEffect(() => {}, []);
+					return <footer ref={ref} />;
+				};
+
+				function formatTitle(title: string) {
+					return title.toUpperCase();
+				}
+
+				function Sidebar() {
+					const [open, setOpen] = useState(false);
+					const user = useContext(UserContext);
+					return <aside>{open && user}</aside>;
+				}
+
+				export default function Layout() {
+					return <main><Header /><Sidebar /><Footer /></main>;
+				}
+			`,
+			'src/Wrapped.tsx': `
+				import React, { memo, forwardRef, lazy } from 'react';
+				import { connect } from 'react-redux';
+
+				export const Card = memo(function Card() {
+					return <div />;
+				});
+
+				export const Input = forwardRef((props: any, ref: any) => <input ref={ref} />);
+
+				const Settings = lazy(() => import('./Settings'));
+
+				function TodoList() {
+					return <ul />;
+				}
+
+				// Not applied to a component, so not a component itself
+				const withTodos = connect((state: any) => ({ todos: state.todos }));
+
+				export default connect((state: any) => ({ todos: state.todos }))(TodoList);
+			`,
+			'src/Counter.jsx': `
+				import React, { Component } from 'react';
+				import ThemeContext from './ThemeContext';
+
+				export class Counter extends Component {
+					static contextType = ThemeContext;
+					state = { count: 0, step: 1 };
+
+					componentDidMount() {
+						this.setState({ count: 1 });
+					}
+
+					componentWillUnmount() {}
+
+					render() {
+						return <button onClick={() => this.setState({ step: 2 })}>{this.state.count}</button>;
+					}
+				}
+			`,
+			'src/Search.tsx': `
+				import { useState, useEffect, useMemo } from 'react';
+
+				export function Search({ query }: { query: string }) {
+					const [results, setResults] = useState([]);
+					const [page, setPage] = useState(1);
+					const [pageSize] = useState(20);
+					useEffect(() => { fetch(query).then(setResults); }, [query]);
+					useEffect(() => { window.scrollTo(0, 0); }, [page]);
+					const total = useMemo(() => results.length, [results]);
+					return <div>{total}</div>;
+				}
+			`,
+			'src/Dialog.tsx': `
+				import { useState, useEffect } from 'react';
+
+				export function Dialog({ open }: { open: boolean }) {
+					const [title] = useState('Dialog');
+					if (open) {
+						const [visible] = useState(false);
+					}
+					for (let i = 0; i < 2; i++) {
+						useEffect(() => {});
+					}
+					return <div>{title}</div>;
+				}
+
+				function formatTitle() {
+					useState(1);
+				}
+			`
+		});
+		analyzer = new ReactComponentAnalyzer(root);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds every component defined in a file', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Layout.tsx'));
+
+		assert.deepStrictEqual(analysis.components.map(component => component.name).sort(), ['Footer', 'Header', 'Layout', 'Sidebar']);
+	});
+
+	test('keeps the hooks, state and contexts of each component in a file apart', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Layout.tsx'));
+		const details = new Map(analysis.components.map(component => [component.name, {
+			hooks: component.hooks.map(hook => hook.name),
+			states: component.states.map(state => state.name),
+			contexts: component.contexts.map(context => context.name)
+		}]));
+
+		assert.deepStrictEqual(details.get('Header'), { hooks: ['useState', 'useContext'], states: ['title'], contexts: ['ThemeContext'] });
+		assert.deepStrictEqual(details.get('Footer'), { hooks: ['useRef', 'useEffect'], states: [], contexts: [] });
+		assert.deepStrictEqual(details.get('Sidebar'), { hooks: ['useState', 'useContext'], states: ['open'], contexts: ['UserContext'] });
+		assert.deepStrictEqual(details.get('Layout'), { hooks: [], states: [], contexts: [] });
+	});
+
+	test('records the names each component is exported under', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Layout.tsx'));
+		const exportNames = new Map(analysis.components.map(component => [component.name, component.exportNames || []]));
+
+		assert.deepStrictEqual(exportNames.get('Header'), ['Header']);
+		assert.deepStrictEqual(exportNames.get('Layout'), ['default']);
+		assert.deepStrictEqual(exportNames.get('Sidebar'), []);
+	});
+
+	test('unwraps memo, forwardRef, lazy and connect', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Wrapped.tsx'));
+		const wrappers = new Map(analysis.components.map(component => [component.name, component.wrappers]));
+
+		assert.deepStrictEqual(Array.from(wrappers.keys()).sort(), ['Card', 'Input', 'Settings', 'TodoList']);
+		assert.deepStrictEqual(wrappers.get('Card'), ['memo']);
+		assert.deepStrictEqual(wrappers.get('Input'), ['forwardRef']);
+		assert.deepStrictEqual(wrappers.get('Settings'), ['lazy']);
+		assert.deepStrictEqual(wrappers.get('TodoList'), ['connect']);
+	});
+
+	test('records the module a lazy component is loaded from', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Wrapped.tsx'));
+		const settings = analysis.components.find(component => component.name === 'Settings');
+
+		assert.strictEqual(settings?.lazySource, './Settings');
+	});
+
+	test('extracts lifecycle methods, state and context of class components', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Counter.jsx'));
+		const counter = analysis.components.find(component => component.name === 'Counter');
+
+		assert.strictEqual(counter?.kind, 'class');
+		assert.strictEqual(counter?.classInfo?.superClass, 'Component');
+		assert.deepStrictEqual(counter?.classInfo?.lifecycleMethods, ['componentDidMount', 'componentWillUnmount']);
+		assert.strictEqual(counter?.classInfo?.contextType, 'ThemeContext');
+		assert.deepStrictEqual(counter?.states.map(state => [state.name, state.initialValue]), [['count', '0'], ['step', '1']]);
+		assert.deepStrictEqual(counter?.classInfo?.setStateCalls.map(call => call.fields), [['count'], ['step']]);
+	});
+
+	test('records every hook call with its own dependencies and counts the calls per hook', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Search.tsx'));
+		const search = analysis.components[0];
+
+		assert.deepStrictEqual(search.hooks.map(hook => [hook.name, hook.dependencies, hook.callLocation.line]), [
+			['useState', undefined, 5],
+			['useState', undefined, 6],
+			['useState', undefined, 7],
+			['useEffect', ['query'], 8],
+			['useEffect', ['page'], 9],
+			['useMemo', ['results'], 10]
+		]);
+		assert.deepStrictEqual(search.hookCounts, { useState: 3, useEffect: 2, useMemo: 1 });
+	});
+
+	test('records state read without a setter', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Search.tsx'));
+
+		assert.deepStrictEqual(analysis.components[0].states.map(state => [state.name, state.initialValue, state.setter]), [
+			['results', '[]', 'setResults'],
+			['page', '1', 'setPage'],
+			['pageSize', '20', undefined]
+		]);
+	});
+
+	test('reports hooks called conditionally, in loops and outside components', async () => {
+		const analysis = await analyzer.analyzeFile(path.join(root, 'src/Dialog.tsx'));
+
+		assert.deepStrictEqual(analysis.hookRuleViolations.map(violation => [violation.rule, violation.hook, violation.owner]), [
+			['conditional', 'useState', 'Dialog'],
+			['loop', 'useEffect', 'Dialog'],
+			['non-component', 'useState', undefined]
+		]);
+	});
+});
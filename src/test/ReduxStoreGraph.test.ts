@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import { ModuleResolver } from '../ModuleResolver';
+import { ComponentInfo, ReduxDefinitions } from '../ReactComponentAnalyzer';
+import { ReduxStoreGraph, ReduxStoreGraphBuilder } from '../ReduxStoreGraph';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/store/cartSlice.ts': `
+		import { createSlice, createAsyncThunk, createSelector } from '@reduxjs/toolkit';
+
+		export const fetchCart = createAsyncThunk('cart/fetch', async (id: string) => (await fetch(id)).json());
+
+		const cartSlice = createSlice({
+			name: 'cart',
+			initialState: { items: [], status: 'idle' },
+			reducers: {
+				add(state, action) {
+					state.items.push(action.payload);
+				},
+				clear(state) {
+					state.items = [];
+				}
+			},
+			extraReducers: builder => {
+				builder
+					.addCase(fetchCart.pending, state => { state.status = 'loading'; })
+					.addCase(fetchCart.fulfilled, (state, action) => { state.items = action.payload; });
+			}
+		});
+
+		export const { add, clear } = cartSlice.actions;
+		export default cartSlice.reducer;
+
+		export const selectCount = createSelector([(state: any) => state.cart.items], items => items.length);
+	`,
+	'src/store/index.ts': `
+		export * from './cartSlice';
+	`,
+	'src/Cart.tsx': `
+		import { useSelector, useDispatch } from 'react-redux';
+		import { add, fetchCart, selectCount } from './store';
+
+		export function Cart() {
+			const dispatch = useDispatch();
+			const status = useSelector((state: any) => state.cart.status);
+			const count = useSelector(selectCount);
+			const reload = () => {
+				dispatch(add(1));
+				dispatch(fetchCart('1'));
+				dispatch({ type: 'cart/clear' });
+			};
+			return <button onClick={reload}>{count} {status}</button>;
+		}
+	`
+};
+
+suite('ReduxStoreGraph Test Suite', () => {
+	let root: string;
+	let definitions: ReduxDefinitions;
+	let components: ComponentInfo[];
+	let storeGraph: ReduxStoreGraph;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, ['src/store/cartSlice.ts', 'src/Cart.tsx']);
+		definitions = {
+			slices: analyses.flatMap(analysis => analysis.redux.slices),
+			thunks: analyses.flatMap(analysis => analysis.redux.thunks),
+			selectors: analyses.flatMap(analysis => analysis.redux.selectors)
+		};
+		components = analyses.flatMap(analysis => analysis.components);
+		storeGraph = new ReduxStoreGraphBuilder(root, new ModuleResolver(root)).build(definitions, components);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds slices with their state, reducers, extra reducers and action exports', () => {
+		const [slice] = definitions.slices;
+
+		assert.strictEqual(slice.name, 'cartSlice');
+		assert.strictEqual(slice.sliceName, 'cart');
+		assert.deepStrictEqual(slice.stateShape, ['items', 'status']);
+		assert.deepStrictEqual(slice.reducers, ['add', 'clear']);
+		assert.deepStrictEqual(slice.extraReducers, ['fetchCart.pending', 'fetchCart.fulfilled']);
+		assert.deepStrictEqual(slice.actionExports, { add: 'add', clear: 'clear' });
+	});
+
+	test('finds thunks and memoized selectors with the state they read', () => {
+		assert.deepStrictEqual(definitions.thunks.map(thunk => [thunk.name, thunk.typePrefix]), [['fetchCart', 'cart/fetch']]);
+		assert.deepStrictEqual(definitions.selectors.map(selector => [selector.name, selector.statePaths, selector.memoized]), [
+			['selectCount', ['cart.items'], true]
+		]);
+	});
+
+	test('links thunks to the slices handling their lifecycle actions', () => {
+		const thunk = storeGraph.thunks.get('src/store/cartSlice.ts#fetchCart')!;
+
+		assert.deepStrictEqual(thunk.handledBy, ['cart']);
+		assert.deepStrictEqual(storeGraph.slices.get('src/store/cartSlice.ts#cartSlice')?.thunks, ['fetchCart']);
+		assert.deepStrictEqual(thunk.dispatchers.map(site => [site.componentName, site.detail]), [['Cart', 'fetchCart']]);
+	});
+
+	test('links reads through inline and imported selectors to the slice', () => {
+		const slice = storeGraph.slices.get('src/store/cartSlice.ts#cartSlice')!;
+
+		assert.deepStrictEqual(slice.readers.map(site => [site.componentName, site.detail]), [
+			['Cart', 'cart.status'],
+			['Cart', 'cart.items (selectCount)']
+		]);
+	});
+
+	test('links dispatched action creators, thunks and plain actions to the slice', () => {
+		const slice = storeGraph.slices.get('src/store/cartSlice.ts#cartSlice')!;
+
+		assert.deepStrictEqual(slice.writers.map(site => site.detail), ['add', 'fetchCart (thunk)', 'clear']);
+		assert.deepStrictEqual(components[0].reduxAccess, [{
+			slice: 'cart',
+			filePath: 'src/store/cartSlice.ts',
+			reads: ['cart.status', 'cart.items'],
+			actions: ['add', 'fetchCart (thunk)', 'clear']
+		}]);
+	});
+});
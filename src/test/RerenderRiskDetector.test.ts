@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { ComponentRenderGraphBuilder } from '../ComponentRenderGraph';
+import { ContextGraphBuilder } from '../ContextGraph';
+import { HookCompositionGraphBuilder } from '../HookCompositionGraph';
+import { ModuleResolver } from '../ModuleResolver';
+import { RerenderRiskDetector, RerenderRiskReport } from '../RerenderRiskDetector';
+import { ComponentInfo } from '../ReactComponentAnalyzer';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/ThemeContext.ts': `
+		import { createContext } from 'react';
+		export const ThemeContext = createContext(null);
+	`,
+	'src/App.tsx': `
+		import { memo, useContext } from 'react';
+		import { ThemeContext } from './ThemeContext';
+
+		const Item = memo(function Item({ style, onSelect }) {
+			return <li style={style} onClick={onSelect} />;
+		});
+
+		function Plain({ style }) {
+			return <p style={style} />;
+		}
+
+		function Toolbar() {
+			const theme = useContext(ThemeContext);
+			return <nav className={theme} />;
+		}
+
+		function Button() {
+			const theme = useContext(ThemeContext);
+			return <button className={theme} />;
+		}
+
+		export function App() {
+			const style = { color: 'red' };
+			return (
+				<ThemeContext.Provider value={{ dark: true }}>
+					<Item style={style} onSelect={() => {}} />
+					<Plain style={style} />
+					<Toolbar />
+					<Button />
+				</ThemeContext.Provider>
+			);
+		}
+	`,
+	'src/Profile.tsx': `
+		import { useSelector, shallowEqual } from 'react-redux';
+
+		export function Profile() {
+			const user = useSelector(state => ({ name: state.user.name }));
+			const settings = useSelector(state => ({ theme: state.theme }), shallowEqual);
+			const count = useSelector(state => state.count);
+			return <div>{user.name}</div>;
+		}
+	`
+};
+
+suite('RerenderRiskDetector Test Suite', () => {
+	let root: string;
+	let components: ComponentInfo[];
+	let reports: RerenderRiskReport[];
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, Object.keys(FILES));
+		const resolver = new ModuleResolver(root);
+		components = analyses.flatMap(analysis => analysis.components);
+		const renderGraph = new ComponentRenderGraphBuilder(root, resolver).build(components);
+		const hookGraph = new HookCompositionGraphBuilder(root, resolver).build(components, analyses.flatMap(analysis => analysis.hooks));
+		const contextGraph = new ContextGraphBuilder(root, resolver).build(analyses.flatMap(analysis => analysis.contexts), renderGraph, hookGraph);
+		reports = new RerenderRiskDetector().detect(renderGraph, contextGraph);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('ranks the components with risks by score', () => {
+		assert.deepStrictEqual(reports.map(report => [report.componentName, report.score]), [['App', 9], ['Profile', 3]]);
+	});
+
+	test('reports a context value created on every render, with the number of consumers', () => {
+		const risk = reports[0].risks[0];
+
+		assert.strictEqual(risk.kind, 'context-value');
+		assert.strictEqual(risk.message,
+			'The value of ThemeContext.Provider is an inline object that changes on every render, re-rendering all 2 consumers. Memoize it with useMemo.');
+	});
+
+	test('reports unstable props passed to memo components only', () => {
+		const memoRisks = reports[0].risks.filter(risk => risk.kind === 'memo-prop');
+
+		assert.deepStrictEqual(memoRisks.map(risk => risk.message), [
+			'"style" passed to memo component Item is the object "style" created on every render, so Item re-renders whenever App does. Memoize it with useMemo.',
+			'"onSelect" passed to memo component Item is an inline function created on every render, so Item re-renders whenever App does. Move it out of the JSX and memoize it with useCallback.'
+		]);
+	});
+
+	test('reports selectors returning new objects without an equality function', () => {
+		const profile = reports.find(report => report.componentName === 'Profile')!;
+
+		assert.deepStrictEqual(profile.risks.map(risk => [risk.kind, risk.location.line]), [['selector', 5]]);
+	});
+
+	test('records the risks on each component', () => {
+		const plain = components.find(component => component.name === 'Plain')!;
+		const app = components.find(component => component.name === 'App')!;
+
+		assert.deepStrictEqual(plain.rerenderRisks, []);
+		assert.strictEqual(app.rerenderRisks?.length, 3);
+	});
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { ModuleResolver } from '../ModuleResolver';
+import { ComponentInfo, ZustandStoreInfo } from '../ReactComponentAnalyzer';
+import { ZustandStoreGraphBuilder, ZustandStoreNode } from '../ZustandStoreGraph';
+import { analyzeFiles, createWorkspace, removeWorkspace } from './workspace';
+
+const FILES: Record<string, string> = {
+	'src/stores/cart.ts': `
+		import { create } from 'zustand';
+		import { devtools, persist } from 'zustand/middleware';
+
+		export const useCartStore = create<CartState>()(devtools(persist((set) => ({
+			items: [],
+			user: { name: '' },
+			addItem: (item) => set(state => ({ items: [...state.items, item] })),
+			clear() {
+				set({ items: [] });
+			}
+		}), { name: 'cart' })));
+	`,
+	'src/stores/counter.ts': `
+		import { createStore } from 'zustand/vanilla';
+
+		export const counterStore = createStore((set) => {
+			return { count: 0, increment: () => set(state => ({ count: state.count + 1 })) };
+		});
+	`,
+	'src/stores/index.ts': `
+		export * from './cart';
+		export * from './counter';
+	`,
+	'src/Cart.tsx': `
+		import { create, useStore } from 'zustand';
+		import { useShallow } from 'zustand/react/shallow';
+		import { useCartStore, counterStore } from './stores';
+
+		const useFilterStore = create((set) => ({ query: '', setQuery: (query) => set({ query }) }));
+
+		export function Cart() {
+			const items = useCartStore(state => state.items);
+			const { name } = useCartStore(useShallow(state => ({ name: state.user.name })));
+			const { addItem } = useCartStore();
+			const count = useStore(counterStore, state => state.count);
+			const query = useFilterStore(state => state.query);
+			return <button onClick={() => addItem(query)}>{items.length} {count} {name}</button>;
+		}
+
+		export function Summary() {
+			const cart = useCartStore();
+			return <p>{cart.items.length}</p>;
+		}
+	`
+};
+
+suite('ZustandStoreGraph Test Suite', () => {
+	let root: string;
+	let stores: ZustandStoreInfo[];
+	let components: ComponentInfo[];
+	let nodes: Map<string, ZustandStoreNode>;
+
+	suiteSetup(async () => {
+		root = createWorkspace(FILES);
+		const analyses = await analyzeFiles(root, ['src/stores/cart.ts', 'src/stores/counter.ts', 'src/Cart.tsx']);
+		stores = analyses.flatMap(analysis => analysis.zustandStores);
+		components = analyses.flatMap(analysis => analysis.components);
+		nodes = new ZustandStoreGraphBuilder(root, new ModuleResolver(root)).build(stores, components);
+	});
+
+	suiteTeardown(() => {
+		removeWorkspace(root);
+	});
+
+	test('finds stores through curried calls and middlewares, with their state keys and actions', () => {
+		assert.deepStrictEqual(stores.map(store => [store.name, store.kind, store.stateKeys, store.actions, store.middlewares]), [
+			['useCartStore', 'hook', ['items', 'user'], ['addItem', 'clear'], ['devtools', 'persist']],
+			['counterStore', 'vanilla', ['count'], ['increment'], []],
+			['useFilterStore', 'hook', ['query'], ['setQuery'], []]
+		]);
+		assert.deepStrictEqual(stores[0].exportNames, ['useCartStore']);
+	});
+
+	test('records the keys each call selects, through selectors, useShallow and destructuring', () => {
+		const cart = components.find(component => component.name === 'Cart')!;
+
+		assert.deepStrictEqual(cart.zustandUsage?.map(usage => [usage.reference, usage.keys]), [
+			['useCartStore', ['items']],
+			['useCartStore', ['user.name']],
+			['useCartStore', ['addItem']],
+			['counterStore', ['count']],
+			['useFilterStore', ['query']]
+		]);
+	});
+
+	test('links consumers to imported, re-exported, vanilla and local stores', () => {
+		const consumers = (id: string) => nodes.get(id)!.consumers.map(site => [site.componentName, site.keys]);
+
+		assert.deepStrictEqual(consumers('src/stores/cart.ts#useCartStore'), [
+			['Cart', ['items']],
+			['Cart', ['user.name']],
+			['Cart', ['addItem']],
+			['Summary', ['*']]
+		]);
+		assert.deepStrictEqual(consumers('src/stores/counter.ts#counterStore'), [['Cart', ['count']]]);
+		assert.deepStrictEqual(consumers('src/Cart.tsx#useFilterStore'), [['Cart', ['query']]]);
+	});
+
+	test('describes the store usage of each component as selected keys and actions', () => {
+		const cart = components.find(component => component.name === 'Cart')!;
+		const summary = components.find(component => component.name === 'Summary')!;
+
+		assert.deepStrictEqual(cart.storeUsage, [{
+			type: 'zustand',
+			actions: ['useCartStore.addItem'],
+			selectors: ['useCartStore.items', 'useCartStore.user.name', 'counterStore.count', 'useFilterStore.query']
+		}]);
+		assert.deepStrictEqual(summary.storeUsage, [{
+			type: 'zustand',
+			actions: [],
+			selectors: ['useCartStore (entire store: items, user)']
+		}]);
+	});
+});
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAnalysis, ReactComponentAnalyzer } from '../ReactComponentAnalyzer';
+
+/**
+ * Writes files, keyed by workspace-relative path, into a new temporary workspace and returns its root.
+ */
+export function createWorkspace(files: Record<string, string>): string {
+	const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'reactbrox-test-')));
+	writeFiles(root, files);
+	return root;
+}
+
+/**
+ * Writes or overwrites files in a workspace.
+ */
+export function writeFiles(root: string, files: Record<string, string>): void {
+	for (const [relativePath, content] of Object.entries(files)) {
+		const filePath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+	}
+}
+
+/**
+ * Deletes a temporary workspace.
+ */
+export function removeWorkspace(root: string): void {
+	fs.rmSync(root, { recursive: true, force: true });
+}
+
+/**
+ * Analyzes workspace files, keyed by workspace-relative path, with an analyzer without TypeScript programs.
+ */
+export async function analyzeFiles(root: string, relativePaths: string[]): Promise<FileAnalysis[]> {
+	const analyzer = new ReactComponentAnalyzer(root);
+	const analyses: FileAnalysis[] = [];
+	for (const relativePath of relativePaths) {
+		analyses.push(await analyzer.analyzeFile(path.join(root, relativePath)));
+	}
+	return analyses;
+}